@@ -11,3 +11,4 @@
 export * from './src/client';
 export * from './src/kernel';
 export * from './src/model';
+export * from './src/storage';
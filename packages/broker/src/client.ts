@@ -14,22 +14,54 @@ import { AsyncSubscription } from '@deepkit/core-rxjs';
 import { createRpcMessage, RpcBaseClient, RpcDirectClientAdapter, RpcMessage, RpcMessageRouteType } from '@deepkit/rpc';
 import { BrokerKernel } from './kernel';
 import {
+    brokerCompareAndSet,
     brokerDelete,
     brokerEntityFields,
+    brokerExpire,
     brokerGet,
+    brokerGetTTL,
     brokerIncrement,
     brokerLock,
     brokerLockId,
     brokerPublish,
+    brokerQueueAck,
+    brokerQueueMessage,
+    brokerQueuePublish,
+    brokerQueueSubscribe,
+    brokerResponseExpire,
+    brokerResponseGetTTL,
     brokerResponseIncrement,
     brokerResponseIsLock,
+    brokerResponseSetResult,
     brokerResponseSubscribeMessage,
+    brokerResponseSubscribePatternMessage,
     brokerSet,
     brokerSubscribe,
+    brokerSubscribePattern,
     BrokerType
 } from './model';
 import { ReceiveType, ReflectionClass, ReflectionKind, resolveReceiveType, Type, TypePropertySignature } from '@deepkit/type';
 
+/**
+ * Messages are sent as BSON documents, so types that are not an object on their own are wrapped in `{v: T}`.
+ */
+function getMessageType(type: Type): { type: Type, wrapped: boolean } {
+    const standaloneType = type.kind === ReflectionKind.objectLiteral || (type.kind === ReflectionKind.class && type.types.length);
+    if (standaloneType) return { type, wrapped: false };
+
+    return {
+        type: {
+            kind: ReflectionKind.objectLiteral,
+            types: [{
+                kind: ReflectionKind.propertySignature,
+                name: 'v',
+                type: type,
+            } as TypePropertySignature]
+        },
+        wrapped: true
+    };
+}
+
 export class BrokerChannel<T> {
     protected listener: number = 0;
     protected callbacks: ((next: Uint8Array) => void)[] = [];
@@ -42,18 +74,9 @@ export class BrokerChannel<T> {
         protected type: Type,
         protected client: BrokerClient,
     ) {
-        const standaloneType = type.kind === ReflectionKind.objectLiteral || (type.kind === ReflectionKind.class && type.types.length);
-        if (!standaloneType) {
-            this.type = {
-                kind: ReflectionKind.objectLiteral,
-                types: [{
-                    kind: ReflectionKind.propertySignature,
-                    name: 'v',
-                    type: type,
-                } as TypePropertySignature]
-            };
-            this.wrapped = true;
-        }
+        const messageType = getMessageType(type);
+        this.type = messageType.type;
+        this.wrapped = messageType.wrapped;
         this.decoder = getBSONDeserializer(undefined, this.type);
     }
 
@@ -103,6 +126,180 @@ export class BrokerChannel<T> {
     }
 }
 
+/**
+ * Receives messages of all channels matching a pattern. See channelPatternToRegExp for the pattern syntax.
+ */
+export class BrokerPatternChannel<T> {
+    protected listener: number = 0;
+    protected callbacks: ((next: Uint8Array, channel: string) => void)[] = [];
+    protected wrapped: boolean = false;
+
+    protected decoder: (bson: Uint8Array) => any;
+
+    constructor(
+        public pattern: string,
+        protected type: Type,
+        protected client: BrokerClient,
+    ) {
+        const messageType = getMessageType(type);
+        this.type = messageType.type;
+        this.wrapped = messageType.wrapped;
+        this.decoder = getBSONDeserializer(undefined, this.type);
+    }
+
+    next(channel: string, data: Uint8Array) {
+        for (const callback of this.callbacks) {
+            callback(data, channel);
+        }
+    }
+
+    async subscribe(callback: (next: T, channel: string) => void): Promise<AsyncSubscription> {
+        const parsedCallback = (next: Uint8Array, channel: string) => {
+            try {
+                const parsed = this.decoder(next);
+                callback(this.wrapped ? parsed.v : parsed, channel);
+            } catch (error: any) {
+                console.error(`Could not parse channel message ${channel} of pattern ${this.pattern}: ${error}`);
+            }
+        };
+
+        this.listener++;
+        this.callbacks.push(parsedCallback);
+
+        if (this.listener === 1) {
+            await this.client.sendMessage<brokerSubscribePattern>(BrokerType.SubscribePattern, { p: this.pattern })
+                .ackThenClose();
+        }
+
+        return new AsyncSubscription(async () => {
+            this.listener--;
+            arrayRemoveItem(this.callbacks, parsedCallback);
+            if (this.listener === 0) {
+                await this.client.sendMessage<brokerSubscribePattern>(BrokerType.UnsubscribePattern, { p: this.pattern })
+                    .ackThenClose();
+            }
+        });
+    }
+}
+
+export interface BrokerQueueOptions {
+    /**
+     * Seconds a consumer has to process a message. If it's not acknowledged until then,
+     * the message counts as failed and is redelivered. The timed out delivery still counts towards the
+     * consumer's maxParallel until the consumer finished it. 0 disables the timeout.
+     */
+    ackTimeout?: number;
+
+    /**
+     * How often a message is delivered before it's given up. 0 means unlimited.
+     */
+    maxAttempts?: number;
+
+    /**
+     * Name of a queue failed messages are moved to when maxAttempts is reached. If not set, they are dropped.
+     * Dead-lettered messages keep their ackTimeout and maxAttempts.
+     */
+    deadLetterQueue?: string;
+}
+
+export class BrokerQueueMessage<T> {
+    constructor(
+        public readonly id: number,
+        public readonly attempt: number,
+        public readonly data: T,
+    ) {
+    }
+}
+
+/**
+ * A durable work queue. Other than BrokerChannel each message is delivered to exactly one consumer
+ * and kept in the broker until a consumer acknowledged it.
+ */
+export class BrokerQueue<T> {
+    protected consumer?: (message: brokerQueueMessage) => Promise<void>;
+    protected wrapped: boolean = false;
+
+    protected decoder: (bson: Uint8Array) => any;
+    protected serializer: BSONSerializer;
+
+    constructor(
+        public name: string,
+        protected type: Type,
+        protected client: BrokerClient,
+        protected options: BrokerQueueOptions = {},
+    ) {
+        const messageType = getMessageType(type);
+        this.type = messageType.type;
+        this.wrapped = messageType.wrapped;
+        this.decoder = getBSONDeserializer(undefined, this.type);
+        this.serializer = getBSONSerializer(undefined, this.type);
+    }
+
+    /**
+     * Whether the queue was created with the given options.
+     */
+    hasOptions(options: BrokerQueueOptions): boolean {
+        return this.options.ackTimeout === options.ackTimeout
+            && this.options.maxAttempts === options.maxAttempts
+            && this.options.deadLetterQueue === options.deadLetterQueue;
+    }
+
+    public async publish(data: T): Promise<undefined> {
+        const v = this.wrapped ? this.serializer({ v: data }) : this.serializer(data);
+        await this.client.sendMessage<brokerQueuePublish>(BrokerType.QueuePublish, {
+            c: this.name, v, ackTimeout: this.options.ackTimeout, maxAttempts: this.options.maxAttempts, deadLetter: this.options.deadLetterQueue
+        }).ackThenClose();
+
+        return undefined;
+    }
+
+    handle(message: brokerQueueMessage) {
+        if (!this.consumer) return;
+        this.consumer(message).catch(error => {
+            console.error(`Could not acknowledge queue message ${this.name}: ${error}`);
+        });
+    }
+
+    /**
+     * Registers a consumer for this queue. A message is acknowledged when the callback returns (or its promise resolves)
+     * and counts as failed when it throws, so the broker redelivers it.
+     *
+     * maxParallel defines how many messages this consumer processes at the same time.
+     */
+    async consume(callback: (message: BrokerQueueMessage<T>) => Promise<void> | void, maxParallel: number = 1): Promise<AsyncSubscription> {
+        if (this.consumer) throw new Error(`Queue ${this.name} is already consumed`);
+
+        this.consumer = async (message: brokerQueueMessage) => {
+            let type = BrokerType.QueueAck;
+            try {
+                const parsed = this.decoder(message.v);
+                await callback(new BrokerQueueMessage(message.id, message.attempt, this.wrapped ? parsed.v : parsed));
+            } catch (error: any) {
+                console.error(`Could not process queue message ${this.name}: ${error}`);
+                type = BrokerType.QueueNack;
+            }
+            await this.client.sendMessage<brokerQueueAck>(type, { c: this.name, id: message.id, attempt: message.attempt }).ackThenClose();
+        };
+
+        await this.client.sendMessage<brokerQueueSubscribe>(BrokerType.QueueSubscribe, { c: this.name, maxParallel })
+            .ackThenClose();
+
+        return new AsyncSubscription(async () => {
+            this.consumer = undefined;
+            await this.client.sendMessage<brokerQueueSubscribe>(BrokerType.QueueUnsubscribe, { c: this.name })
+                .ackThenClose();
+        });
+    }
+}
+
+export interface BrokerSetOptions {
+    /**
+     * Time to live in seconds. When reached, the key is automatically removed by the broker.
+     * 0 or undefined keeps the key forever.
+     */
+    ttl?: number;
+}
+
 export class BrokerKeyValue<T> {
     protected serializer: BSONSerializer;
     protected decoder: BSONDeserializer<T>;
@@ -116,11 +313,55 @@ export class BrokerKeyValue<T> {
         this.decoder = getBSONDeserializer(undefined, type);
     }
 
-    public async set(data: T): Promise<undefined> {
-        await this.client.sendMessage<brokerSet>(BrokerType.Set, { n: this.key, v: this.serializer(data) }).ackThenClose();
+    /**
+     * Sets the value. Without ttl an existing expiration of the key is removed.
+     */
+    public async set(data: T, options: BrokerSetOptions = {}): Promise<undefined> {
+        await this.client.sendMessage<brokerSet>(BrokerType.Set, { n: this.key, v: this.serializer(data), ttl: options.ttl }).ackThenClose();
         return undefined;
     }
 
+    /**
+     * Sets the value only if the key does not exist yet (or is expired).
+     * Returns true if the value has been set.
+     */
+    public async setIfAbsent(data: T, options: BrokerSetOptions = {}): Promise<boolean> {
+        const response = await this.client.sendMessage<brokerSet>(BrokerType.SetIfAbsent, { n: this.key, v: this.serializer(data), ttl: options.ttl })
+            .firstThenClose<brokerResponseSetResult>(BrokerType.ResponseSetResult);
+        return response.v;
+    }
+
+    /**
+     * Atomically replaces the value with `next` if the current value equals `expected`.
+     * Both values are compared in their serialized BSON form.
+     * Returns true if the value has been replaced.
+     */
+    public async compareAndSet(expected: T, next: T, options: BrokerSetOptions = {}): Promise<boolean> {
+        const response = await this.client.sendMessage<brokerCompareAndSet>(BrokerType.CompareAndSet, {
+            n: this.key, e: this.serializer(expected), v: this.serializer(next), ttl: options.ttl
+        }).firstThenClose<brokerResponseSetResult>(BrokerType.ResponseSetResult);
+        return response.v;
+    }
+
+    /**
+     * Sets the time to live in seconds of the key. A ttl of 0 removes the expiration.
+     * Returns false if the key does not exist.
+     */
+    public async expire(ttl: number): Promise<boolean> {
+        const response = await this.client.sendMessage<brokerExpire>(BrokerType.Expire, { n: this.key, ttl })
+            .firstThenClose<brokerResponseExpire>(BrokerType.ResponseExpire);
+        return response.v;
+    }
+
+    /**
+     * Returns the remaining time to live in seconds, or undefined if the key does not exist or has no expiration.
+     */
+    public async getTTL(): Promise<number | undefined> {
+        const response = await this.client.sendMessage<brokerGetTTL>(BrokerType.GetTTL, { n: this.key })
+            .firstThenClose<brokerResponseGetTTL>(BrokerType.ResponseGetTTL);
+        return response.v;
+    }
+
     public async get(): Promise<T> {
         const v = await this.getOrUndefined();
         if (v !== undefined) return v;
@@ -143,6 +384,8 @@ export class BrokerKeyValue<T> {
 
 export class BrokerClient extends RpcBaseClient {
     protected activeChannels = new Map<string, BrokerChannel<any>>();
+    protected activeQueues = new Map<string, BrokerQueue<any>>();
+    protected activePatterns = new Map<string, BrokerPatternChannel<any>>();
     protected knownEntityFields = new Map<string, string[]>();
     protected publishedEntityFields = new Map<string, Map<string, number>>();
 
@@ -192,6 +435,16 @@ export class BrokerClient extends RpcBaseClient {
                 const channel = this.activeChannels.get(body.c);
                 if (!channel) return;
                 channel.next(body.v);
+            } else if (message.type === BrokerType.ResponseSubscribePatternMessage) {
+                const body = message.parseBody<brokerResponseSubscribePatternMessage>();
+                const patternChannel = this.activePatterns.get(body.p);
+                if (!patternChannel) return;
+                patternChannel.next(body.c, body.v);
+            } else if (message.type === BrokerType.QueueMessage) {
+                const body = message.parseBody<brokerQueueMessage>();
+                const queue = this.activeQueues.get(body.c);
+                if (!queue) return;
+                queue.handle(body);
             }
         } else {
             super.onMessage(message);
@@ -313,6 +566,47 @@ export class BrokerClient extends RpcBaseClient {
         return brokerChannel;
     }
 
+    public patternChannel<T>(pattern: string, type?: ReceiveType<T>): BrokerPatternChannel<T> {
+        let patternChannel = this.activePatterns.get(pattern);
+        if (!patternChannel) {
+            patternChannel = new BrokerPatternChannel(pattern, resolveReceiveType(type), this);
+            this.activePatterns.set(pattern, patternChannel);
+        }
+
+        return patternChannel;
+    }
+
+    /**
+     * Subscribes to all channels matching the pattern. Channel names are separated in segments by `.` or `/`,
+     * `*` matches exactly one segment and `**` any number of segments.
+     *
+     * @example
+     * ```typescript
+     * await client.subscribePattern<UserEvent>('user.*.updated', (event, channel) => {
+     *     console.log('update in', channel, event);
+     * });
+     * ```
+     */
+    public async subscribePattern<T>(pattern: string, callback: (next: T, channel: string) => void, type?: ReceiveType<T>): Promise<AsyncSubscription> {
+        return this.patternChannel(pattern, type).subscribe(callback);
+    }
+
+    /**
+     * Returns the queue with the given name. Queues are cached by name, so options only need to be passed to the first call.
+     * Passing different options for an already created queue throws an error.
+     */
+    public queue<T>(name: string, options?: BrokerQueueOptions, type?: ReceiveType<T>): BrokerQueue<T> {
+        let queue = this.activeQueues.get(name);
+        if (!queue) {
+            queue = new BrokerQueue(name, resolveReceiveType(type), this, options);
+            this.activeQueues.set(name, queue);
+        } else if (options && !queue.hasOptions(options)) {
+            throw new Error(`Queue ${name} was already created with different options`);
+        }
+
+        return queue;
+    }
+
     public async getRawOrUndefined<T>(id: string): Promise<Uint8Array | undefined> {
         const first: RpcMessage = await this.sendMessage<brokerGet>(BrokerType.Get, { n: id }).firstThenClose(BrokerType.ResponseGet);
         if (first.buffer && first.buffer.byteLength > first.bodyOffset) {
@@ -328,8 +622,8 @@ export class BrokerClient extends RpcBaseClient {
         return v;
     }
 
-    public async setRaw<T>(id: string, data: Uint8Array): Promise<undefined> {
-        await this.sendMessage<brokerSet>(BrokerType.Set, { n: id, v: data })
+    public async setRaw<T>(id: string, data: Uint8Array, options: BrokerSetOptions = {}): Promise<undefined> {
+        await this.sendMessage<brokerSet>(BrokerType.Set, { n: id, v: data, ttl: options.ttl })
             .ackThenClose();
 
         return undefined;
@@ -345,8 +639,12 @@ export class BrokerClient extends RpcBaseClient {
         return view.getFloat64(0, true);
     }
 
-    public async increment<T>(id: string, value?: number): Promise<number> {
-        const response = await this.sendMessage<brokerIncrement>(BrokerType.Increment, { n: id, v: value })
+    /**
+     * Increments the counter by value (default 1) and returns the new value.
+     * The ttl of options is only applied when the counter is created by this call, in the same operation.
+     */
+    public async increment<T>(id: string, value?: number, options: BrokerSetOptions = {}): Promise<number> {
+        const response = await this.sendMessage<brokerIncrement>(BrokerType.Increment, { n: id, v: value, ttl: options.ttl })
             .waitNext<brokerResponseIncrement>(BrokerType.ResponseIncrement);
 
         return response.v;
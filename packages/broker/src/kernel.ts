@@ -11,23 +11,63 @@
 import { arrayRemoveItem, ProcessLock, ProcessLocker } from '@deepkit/core';
 import { createRpcMessage, RpcConnectionWriter, RpcKernel, RpcKernelBaseConnection, RpcKernelConnections, RpcMessage, RpcMessageBuilder, RpcMessageRouteType } from '@deepkit/rpc';
 import {
+    brokerCompareAndSet,
     brokerDelete,
     brokerEntityFields,
+    brokerExpire,
     brokerGet,
+    brokerGetTTL,
     brokerIncrement,
     brokerLock,
     brokerLockId,
     brokerPublish,
+    brokerQueueAck,
+    brokerQueueMessage,
+    brokerQueuePublish,
+    brokerQueueSubscribe,
+    brokerResponseExpire,
+    brokerResponseGetTTL,
     brokerResponseIncrement,
     brokerResponseIsLock,
+    brokerResponseSetResult,
     brokerResponseSubscribeMessage,
+    brokerResponseSubscribePatternMessage,
     brokerSet,
     brokerSubscribe,
+    brokerSubscribePattern,
     BrokerType
 } from './model';
+import { BrokerStorage, BrokerStorageOperation, BrokerStorageOperationType } from './storage';
+
+/**
+ * Converts a channel pattern to a regular expression. Channel names are separated in segments by `.` or `/`.
+ * `*` matches exactly one segment, `**` matches any number of segments.
+ *
+ * @example
+ * ```
+ * channelPatternToRegExp('user.*.updated').test('user.24.updated'); //true
+ * channelPatternToRegExp('dk/e/**').test('dk/e/user'); //true
+ * ```
+ */
+export function channelPatternToRegExp(pattern: string): RegExp {
+    const source = pattern.split('**').map(part => {
+        return part.split('*').map(v => v.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^./]+');
+    }).join('.*');
+    return new RegExp('^' + source + '$');
+}
+
+function bufferEquals(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.byteLength !== b.byteLength) return false;
+    for (let i = 0; i < a.byteLength; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
 
 export class BrokerConnection extends RpcKernelBaseConnection {
     protected subscribedChannels: string[] = [];
+    protected subscribedPatterns: string[] = [];
+    protected subscribedQueues: string[] = [];
     protected locks = new Map<number, ProcessLock>();
     protected replies = new Map<number, ((message: RpcMessage) => void)>();
 
@@ -45,6 +85,12 @@ export class BrokerConnection extends RpcKernelBaseConnection {
         for (const c of this.subscribedChannels) {
             this.state.unsubscribe(c, this);
         }
+        for (const p of this.subscribedPatterns) {
+            this.state.unsubscribePattern(p, this);
+        }
+        for (const c of this.subscribedQueues) {
+            this.state.queueUnsubscribe(c, this);
+        }
         for (const lock of this.locks.values()) {
             lock.unlock();
         }
@@ -149,21 +195,89 @@ export class BrokerConnection extends RpcKernelBaseConnection {
                 response.ack();
                 break;
             }
+            case BrokerType.SubscribePattern: {
+                const body = message.parseBody<brokerSubscribePattern>();
+                this.state.subscribePattern(body.p, this);
+                this.subscribedPatterns.push(body.p);
+                response.ack();
+                break;
+            }
+            case BrokerType.UnsubscribePattern: {
+                const body = message.parseBody<brokerSubscribePattern>();
+                this.state.unsubscribePattern(body.p, this);
+                arrayRemoveItem(this.subscribedPatterns, body.p);
+                response.ack();
+                break;
+            }
             case BrokerType.Publish: {
                 const body = message.parseBody<brokerPublish>();
                 this.state.publish(body.c, body.v);
                 response.ack();
                 break;
             }
+            case BrokerType.QueuePublish: {
+                const body = message.parseBody<brokerQueuePublish>();
+                this.state.queuePublish(body);
+                response.ack();
+                break;
+            }
+            case BrokerType.QueueSubscribe: {
+                const body = message.parseBody<brokerQueueSubscribe>();
+                this.subscribedQueues.push(body.c);
+                this.state.queueSubscribe(body.c, this, body.maxParallel);
+                response.ack();
+                break;
+            }
+            case BrokerType.QueueUnsubscribe: {
+                const body = message.parseBody<brokerQueueSubscribe>();
+                arrayRemoveItem(this.subscribedQueues, body.c);
+                this.state.queueUnsubscribe(body.c, this);
+                response.ack();
+                break;
+            }
+            case BrokerType.QueueAck: {
+                const body = message.parseBody<brokerQueueAck>();
+                this.state.queueAck(body.c, body.id, body.attempt, this);
+                response.ack();
+                break;
+            }
+            case BrokerType.QueueNack: {
+                const body = message.parseBody<brokerQueueAck>();
+                this.state.queueNack(body.c, body.id, body.attempt, this);
+                response.ack();
+                break;
+            }
             case BrokerType.Set: {
                 const body = message.parseBody<brokerSet>();
-                this.state.set(body.n, body.v);
+                this.state.set(body.n, body.v, body.ttl);
                 response.ack();
                 break;
             }
+            case BrokerType.SetIfAbsent: {
+                const body = message.parseBody<brokerSet>();
+                const set = this.state.setIfAbsent(body.n, body.v, body.ttl);
+                response.reply<brokerResponseSetResult>(BrokerType.ResponseSetResult, { v: set });
+                break;
+            }
+            case BrokerType.CompareAndSet: {
+                const body = message.parseBody<brokerCompareAndSet>();
+                const set = this.state.compareAndSet(body.n, body.e, body.v, body.ttl);
+                response.reply<brokerResponseSetResult>(BrokerType.ResponseSetResult, { v: set });
+                break;
+            }
+            case BrokerType.Expire: {
+                const body = message.parseBody<brokerExpire>();
+                response.reply<brokerResponseExpire>(BrokerType.ResponseExpire, { v: this.state.expire(body.n, body.ttl) });
+                break;
+            }
+            case BrokerType.GetTTL: {
+                const body = message.parseBody<brokerGetTTL>();
+                response.reply<brokerResponseGetTTL>(BrokerType.ResponseGetTTL, { v: this.state.getTTL(body.n) });
+                break;
+            }
             case BrokerType.Increment: {
                 const body = message.parseBody<brokerIncrement>();
-                const newValue = this.state.increment(body.n, body.v);
+                const newValue = this.state.increment(body.n, body.v, body.ttl);
                 response.reply<brokerResponseIncrement>(BrokerType.ResponseIncrement, { v: newValue });
                 break;
             }
@@ -182,13 +296,224 @@ export class BrokerConnection extends RpcKernelBaseConnection {
     }
 }
 
+export interface BrokerQueueEntry {
+    id: number;
+    v: Uint8Array;
+    attempt: number;
+    ackTimeout: number;
+    maxAttempts: number;
+    deadLetter?: string;
+
+    /**
+     * The current delivery. Undefined while the message is pending.
+     */
+    delivery?: BrokerQueueDelivery;
+}
+
+/**
+ * A single delivery attempt of a message to a consumer.
+ */
+export interface BrokerQueueDelivery {
+    entry: BrokerQueueEntry;
+    attempt: number;
+    consumer: BrokerQueueConsumer;
+    ackTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface BrokerQueueConsumer {
+    connection: BrokerConnection;
+    maxParallel: number;
+
+    /**
+     * Deliveries the consumer has not acknowledged yet. Timed out deliveries stay here
+     * until the consumer acks or nacks them, since it's still working on them.
+     */
+    deliveries: BrokerQueueDelivery[];
+}
+
+/**
+ * A durable queue. Messages are kept until a consumer acknowledged them
+ * and each message is delivered to exactly one consumer at a time.
+ */
+export class BrokerQueueState {
+    protected lastId: number = 0;
+
+    /**
+     * Messages waiting for a consumer.
+     */
+    public pending: BrokerQueueEntry[] = [];
+
+    /**
+     * Messages delivered to a consumer, but not yet acknowledged.
+     */
+    public inFlight = new Map<number, BrokerQueueEntry>();
+
+    public consumers: BrokerQueueConsumer[] = [];
+    protected nextConsumer: number = 0;
+
+    constructor(public readonly name: string) {
+    }
+
+    public add(message: brokerQueuePublish, id: number = this.lastId + 1): BrokerQueueEntry {
+        if (id > this.lastId) this.lastId = id;
+        const entry: BrokerQueueEntry = {
+            id, v: message.v, attempt: 0,
+            ackTimeout: message.ackTimeout || 0, maxAttempts: message.maxAttempts || 0, deadLetter: message.deadLetter,
+        };
+        this.pending.push(entry);
+        return entry;
+    }
+
+    public remove(id: number) {
+        const index = this.pending.findIndex(v => v.id === id);
+        if (index !== -1) this.pending.splice(index, 1);
+    }
+
+    public findConsumer(connection: BrokerConnection): BrokerQueueConsumer | undefined {
+        for (const consumer of this.consumers) {
+            if (consumer.connection === connection) return consumer;
+        }
+        return;
+    }
+
+    /**
+     * Returns the next consumer that has capacity left, round-robin.
+     */
+    public nextFreeConsumer(): BrokerQueueConsumer | undefined {
+        for (let i = 0; i < this.consumers.length; i++) {
+            const index = (this.nextConsumer + i) % this.consumers.length;
+            const consumer = this.consumers[index];
+            if (consumer.deliveries.length < consumer.maxParallel) {
+                this.nextConsumer = index + 1;
+                return consumer;
+            }
+        }
+        return;
+    }
+}
+
 export class BrokerState {
     public setStore = new Map<string, Uint8Array>();
+
+    /**
+     * Keys with a ttl and their expiration timestamp in milliseconds.
+     */
+    public expires = new Map<string, number>();
+
+    /**
+     * Interval in milliseconds in which expired keys are evicted.
+     * Expired keys are additionally evicted lazily when they are accessed.
+     */
+    public expirationInterval: number = 1000;
+    protected expirationTimer?: ReturnType<typeof setInterval>;
+
     public subscriptions = new Map<string, BrokerConnection[]>();
+    public patternSubscriptions = new Map<string, { regExp: RegExp, connections: BrokerConnection[] }>();
     public entityFields = new Map<string, Map<string, number>>();
+    public queues = new Map<string, BrokerQueueState>();
 
     public locker = new ProcessLocker();
 
+    protected storage?: BrokerStorage;
+    protected operationsSinceCompaction: number = 0;
+
+    /**
+     * Amount of persisted operations after which the storage is compacted into a snapshot of the current state.
+     */
+    public compactionThreshold: number = 10_000;
+
+    /**
+     * Replays all operations of the storage and persists all further changes of key-value data and queues to it.
+     * Messages that were in-flight when the broker stopped are delivered again.
+     */
+    public restore(storage: BrokerStorage) {
+        this.storage = undefined;
+        for (const operation of storage.load()) {
+            this.apply(operation);
+        }
+        this.evictExpired();
+        this.storage = storage;
+        this.compact();
+    }
+
+    /**
+     * Replaces the persisted operation log with a snapshot of the current state.
+     */
+    public compact() {
+        if (!this.storage) return;
+        this.storage.compact(this.snapshot());
+        this.operationsSinceCompaction = 0;
+    }
+
+    protected snapshot(): BrokerStorageOperation[] {
+        const operations: BrokerStorageOperation[] = [];
+        for (const [n, v] of this.setStore.entries()) {
+            operations.push({ t: BrokerStorageOperationType.set, n, v, e: this.expires.get(n) });
+        }
+        for (const queue of this.queues.values()) {
+            const entries = [...queue.inFlight.values(), ...queue.pending].sort((a, b) => a.id - b.id);
+            for (const entry of entries) {
+                operations.push(this.queueAddOperation(queue.name, entry));
+            }
+        }
+        return operations;
+    }
+
+    protected apply(operation: BrokerStorageOperation) {
+        switch (operation.t) {
+            case BrokerStorageOperationType.set: {
+                if (!operation.v) break;
+                //restored values are views into the whole storage buffer, so they are copied
+                this.setStore.set(operation.n, new Uint8Array(operation.v));
+                if (operation.e) {
+                    this.expires.set(operation.n, operation.e);
+                } else {
+                    this.expires.delete(operation.n);
+                }
+                break;
+            }
+            case BrokerStorageOperationType.delete: {
+                this.setStore.delete(operation.n);
+                this.expires.delete(operation.n);
+                break;
+            }
+            case BrokerStorageOperationType.expire: {
+                if (operation.e) {
+                    this.expires.set(operation.n, operation.e);
+                } else {
+                    this.expires.delete(operation.n);
+                }
+                break;
+            }
+            case BrokerStorageOperationType.queueAdd: {
+                if (!operation.v) break;
+                this.getQueue(operation.n).add({
+                    c: operation.n, v: operation.v,
+                    ackTimeout: operation.ackTimeout, maxAttempts: operation.maxAttempts, deadLetter: operation.deadLetter
+                }, operation.id);
+                break;
+            }
+            case BrokerStorageOperationType.queueRemove: {
+                if (operation.id === undefined) break;
+                this.queues.get(operation.n)?.remove(operation.id);
+                break;
+            }
+        }
+    }
+
+    protected persist(operation: BrokerStorageOperation) {
+        if (!this.storage) return;
+        this.storage.append(operation);
+        if (++this.operationsSinceCompaction >= this.compactionThreshold) this.compact();
+    }
+
+    protected queueAddOperation(name: string, entry: BrokerQueueEntry): BrokerStorageOperation {
+        return {
+            t: BrokerStorageOperationType.queueAdd, n: name, id: entry.id, v: entry.v,
+            ackTimeout: entry.ackTimeout || undefined, maxAttempts: entry.maxAttempts || undefined, deadLetter: entry.deadLetter
+        };
+    }
+
     public getEntityFields(name: string): string[] {
         return Array.from(this.entityFields.get(name)?.keys() || []);
     }
@@ -257,43 +582,323 @@ export class BrokerState {
         subscriptions.push(connection);
     }
 
+    public unsubscribePattern(pattern: string, connection: BrokerConnection) {
+        const subscription = this.patternSubscriptions.get(pattern);
+        if (!subscription) return;
+        arrayRemoveItem(subscription.connections, connection);
+        if (!subscription.connections.length) this.patternSubscriptions.delete(pattern);
+    }
+
+    public subscribePattern(pattern: string, connection: BrokerConnection) {
+        let subscription = this.patternSubscriptions.get(pattern);
+        if (!subscription) {
+            subscription = { regExp: channelPatternToRegExp(pattern), connections: [] };
+            this.patternSubscriptions.set(pattern, subscription);
+        }
+        subscription.connections.push(connection);
+    }
+
     public publish(channel: string, v: Uint8Array) {
         const subscriptions = this.subscriptions.get(channel);
-        if (!subscriptions) return;
-        const message = createRpcMessage<brokerResponseSubscribeMessage>(
-            0, BrokerType.ResponseSubscribeMessage,
-            { c: channel, v: v }, RpcMessageRouteType.server
-        );
+        if (subscriptions && subscriptions.length) {
+            const message = createRpcMessage<brokerResponseSubscribeMessage>(
+                0, BrokerType.ResponseSubscribeMessage,
+                { c: channel, v: v }, RpcMessageRouteType.server
+            );
+
+            for (const connection of subscriptions) {
+                connection.writer.write(message);
+            }
+        }
+
+        for (const [pattern, subscription] of this.patternSubscriptions.entries()) {
+            if (!subscription.regExp.test(channel)) continue;
+            const message = createRpcMessage<brokerResponseSubscribePatternMessage>(
+                0, BrokerType.ResponseSubscribePatternMessage,
+                { p: pattern, c: channel, v: v }, RpcMessageRouteType.server
+            );
+
+            for (const connection of subscription.connections) {
+                connection.writer.write(message);
+            }
+        }
+    }
+
+    protected getQueue(name: string): BrokerQueueState {
+        let queue = this.queues.get(name);
+        if (!queue) {
+            queue = new BrokerQueueState(name);
+            this.queues.set(name, queue);
+        }
+        return queue;
+    }
+
+    public queuePublish(message: brokerQueuePublish) {
+        const queue = this.getQueue(message.c);
+        const entry = queue.add(message);
+        this.persist(this.queueAddOperation(queue.name, entry));
+        this.queueDispatch(queue);
+    }
+
+    public queueSubscribe(name: string, connection: BrokerConnection, maxParallel: number = 1) {
+        const queue = this.getQueue(name);
+        if (queue.findConsumer(connection)) return;
+        queue.consumers.push({ connection, maxParallel: Math.max(1, maxParallel), deliveries: [] });
+        this.queueDispatch(queue);
+    }
+
+    /**
+     * Removes the consumer from the queue. Messages it has not acknowledged yet count as failed and are redelivered.
+     */
+    public queueUnsubscribe(name: string, connection: BrokerConnection) {
+        const queue = this.queues.get(name);
+        if (!queue) return;
+        const consumer = queue.findConsumer(connection);
+        if (!consumer) return;
+        arrayRemoveItem(queue.consumers, consumer);
+
+        for (const delivery of consumer.deliveries.slice()) {
+            this.queueRelease(delivery);
+            if (delivery.entry.delivery === delivery) this.queueFail(queue, delivery.entry);
+        }
+        this.queueDispatch(queue);
+    }
+
+    /**
+     * Returns the delivery of the given attempt, if the connection is its consumer.
+     */
+    protected queueDelivery(name: string, id: number, attempt: number, connection: BrokerConnection): BrokerQueueDelivery | undefined {
+        const queue = this.queues.get(name);
+        if (!queue) return;
+        const consumer = queue.findConsumer(connection);
+        if (!consumer) return;
+        for (const delivery of consumer.deliveries) {
+            if (delivery.entry.id === id && delivery.attempt === attempt) return delivery;
+        }
+        return;
+    }
+
+    /**
+     * Acknowledges a delivery. When the delivery timed out already, the message was redelivered
+     * and only the consumer's slot is freed, so the new delivery is not acknowledged by accident.
+     */
+    public queueAck(name: string, id: number, attempt: number, connection: BrokerConnection) {
+        const delivery = this.queueDelivery(name, id, attempt, connection);
+        if (!delivery) return;
+        const queue = this.getQueue(name);
+
+        this.queueRelease(delivery);
+        if (delivery.entry.delivery === delivery) {
+            delivery.entry.delivery = undefined;
+            queue.inFlight.delete(id);
+            this.persist({ t: BrokerStorageOperationType.queueRemove, n: queue.name, id });
+        }
+        this.queueDispatch(queue);
+    }
+
+    public queueNack(name: string, id: number, attempt: number, connection: BrokerConnection) {
+        const delivery = this.queueDelivery(name, id, attempt, connection);
+        if (!delivery) return;
+        const queue = this.getQueue(name);
+
+        this.queueRelease(delivery);
+        if (delivery.entry.delivery === delivery) this.queueFail(queue, delivery.entry);
+        this.queueDispatch(queue);
+    }
+
+    /**
+     * Frees the consumer's slot of the delivery.
+     */
+    protected queueRelease(delivery: BrokerQueueDelivery) {
+        if (delivery.ackTimer) clearTimeout(delivery.ackTimer);
+        delivery.ackTimer = undefined;
+        arrayRemoveItem(delivery.consumer.deliveries, delivery);
+    }
+
+    /**
+     * A delivered message was not processed successfully. It's either redelivered
+     * or, when maxAttempts is reached, moved to its dead-letter queue (or dropped if there is none).
+     * The dead-letter queue receives the message with the same ackTimeout and maxAttempts.
+     */
+    protected queueFail(queue: BrokerQueueState, entry: BrokerQueueEntry) {
+        entry.delivery = undefined;
+        queue.inFlight.delete(entry.id);
+
+        if (entry.maxAttempts && entry.attempt >= entry.maxAttempts) {
+            this.persist({ t: BrokerStorageOperationType.queueRemove, n: queue.name, id: entry.id });
+            if (entry.deadLetter) {
+                this.queuePublish({
+                    c: entry.deadLetter, v: entry.v,
+                    ackTimeout: entry.ackTimeout || undefined, maxAttempts: entry.maxAttempts || undefined
+                });
+            }
+            return;
+        }
+
+        queue.pending.unshift(entry);
+    }
 
-        for (const connection of subscriptions) {
-            connection.writer.write(message);
+    protected queueDispatch(queue: BrokerQueueState) {
+        while (queue.pending.length) {
+            const consumer = queue.nextFreeConsumer();
+            if (!consumer) return;
+            const entry = queue.pending.shift()!;
+
+            entry.attempt++;
+            const delivery: BrokerQueueDelivery = { entry, attempt: entry.attempt, consumer };
+            entry.delivery = delivery;
+            consumer.deliveries.push(delivery);
+            queue.inFlight.set(entry.id, entry);
+
+            if (entry.ackTimeout) {
+                //the consumer keeps the slot until it acks or nacks, so maxParallel is not exceeded
+                delivery.ackTimer = setTimeout(() => {
+                    delivery.ackTimer = undefined;
+                    if (entry.delivery !== delivery) return;
+                    this.queueFail(queue, entry);
+                    this.queueDispatch(queue);
+                }, entry.ackTimeout * 1000);
+            }
+
+            consumer.connection.writer.write(createRpcMessage<brokerQueueMessage>(
+                0, BrokerType.QueueMessage,
+                { c: queue.name, id: entry.id, attempt: entry.attempt, v: entry.v }, RpcMessageRouteType.server
+            ));
         }
     }
 
-    public set(id: string, data: Uint8Array) {
+    public set(id: string, data: Uint8Array, ttl?: number) {
         this.setStore.set(id, data);
+        this.setExpiration(id, ttl);
+        this.persist({ t: BrokerStorageOperationType.set, n: id, v: data, e: this.expires.get(id) });
+    }
+
+    /**
+     * Sets the value only if the key does not exist yet. Returns true if the value has been set.
+     */
+    public setIfAbsent(id: string, data: Uint8Array, ttl?: number): boolean {
+        if (this.has(id)) return false;
+        this.set(id, data, ttl);
+        return true;
+    }
+
+    /**
+     * Sets the value only if the current value is byte-wise equal to `expected`. Returns true if the value has been set.
+     */
+    public compareAndSet(id: string, expected: Uint8Array, data: Uint8Array, ttl?: number): boolean {
+        const current = this.get(id);
+        if (!current || !bufferEquals(current, expected)) return false;
+        this.set(id, data, ttl);
+        return true;
     }
 
-    public increment(id: string, v?: number): number {
-        const buffer = this.setStore.get(id);
-        const float64 = buffer ? new Float64Array(buffer.buffer, buffer.byteOffset) : new Float64Array(1);
+    /**
+     * Increments the counter by v (default 1). The ttl in seconds is only set when the counter is created by this call.
+     */
+    public increment(id: string, v?: number, ttl?: number): number {
+        const buffer = this.get(id);
+        const float64 = new Float64Array(1);
+        if (buffer) float64[0] = new DataView(buffer.buffer, buffer.byteOffset, 8).getFloat64(0, true);
         float64[0] += v || 1;
-        if (!buffer) this.setStore.set(id, new Uint8Array(float64.buffer));
+        this.setStore.set(id, new Uint8Array(float64.buffer));
+        if (!buffer) this.setExpiration(id, ttl);
+        this.persist({ t: BrokerStorageOperationType.set, n: id, v: this.setStore.get(id), e: this.expires.get(id) });
         return float64[0];
     }
 
+    public has(id: string): boolean {
+        this.evictIfExpired(id);
+        return this.setStore.has(id);
+    }
+
     public get(id: string): Uint8Array | undefined {
+        this.evictIfExpired(id);
         return this.setStore.get(id);
     }
 
     public delete(id: string) {
-        this.setStore.delete(id);
+        this.expires.delete(id);
+        if (this.setStore.delete(id)) {
+            this.persist({ t: BrokerStorageOperationType.delete, n: id });
+        }
+    }
+
+    /**
+     * Sets the ttl in seconds of an existing key. A ttl of 0 removes the expiration, so the key lives forever.
+     * Returns false if the key does not exist.
+     */
+    public expire(id: string, ttl: number): boolean {
+        if (!this.has(id)) return false;
+        this.setExpiration(id, ttl);
+        this.persist({ t: BrokerStorageOperationType.expire, n: id, e: this.expires.get(id) });
+        return true;
+    }
+
+    /**
+     * Returns the remaining time to live in seconds, or undefined if the key does not exist or has no expiration.
+     */
+    public getTTL(id: string): number | undefined {
+        if (!this.has(id)) return;
+        const expiresAt = this.expires.get(id);
+        if (expiresAt === undefined) return;
+        return (expiresAt - Date.now()) / 1000;
+    }
+
+    /**
+     * Removes all keys whose ttl has been reached.
+     */
+    public evictExpired() {
+        const now = Date.now();
+        for (const [id, expiresAt] of this.expires.entries()) {
+            if (expiresAt <= now) this.delete(id);
+        }
+        if (this.expires.size) {
+            this.startExpirationTimer();
+        } else {
+            this.stopExpirationTimer();
+        }
+    }
+
+    protected evictIfExpired(id: string) {
+        const expiresAt = this.expires.get(id);
+        if (expiresAt !== undefined && expiresAt <= Date.now()) this.delete(id);
+    }
+
+    protected setExpiration(id: string, ttl?: number) {
+        if (ttl) {
+            this.expires.set(id, Date.now() + ttl * 1000);
+            this.startExpirationTimer();
+        } else {
+            this.expires.delete(id);
+        }
+    }
+
+    protected startExpirationTimer() {
+        if (this.expirationTimer) return;
+        this.expirationTimer = setInterval(() => this.evictExpired(), this.expirationInterval);
+        //pending expirations should not keep the process alive
+        if (this.expirationTimer.unref) this.expirationTimer.unref();
+    }
+
+    protected stopExpirationTimer() {
+        if (!this.expirationTimer) return;
+        clearInterval(this.expirationTimer);
+        this.expirationTimer = undefined;
     }
 }
 
 export class BrokerKernel extends RpcKernel {
     protected state: BrokerState = new BrokerState;
 
+    /**
+     * Replays the persisted state from the given storage and persists all further changes to it.
+     * Call it before the kernel accepts connections.
+     */
+    public useStorage(storage: BrokerStorage, compactionThreshold?: number) {
+        if (compactionThreshold) this.state.compactionThreshold = compactionThreshold;
+        this.state.restore(storage);
+    }
+
     createConnection(writer: RpcConnectionWriter): BrokerConnection {
         return new BrokerConnection(writer, this.connections, this.state);
     }
@@ -39,6 +39,25 @@ export enum BrokerType {
     AllEntityFields, //clients requests all available entity-fields
 
     EntityFields,
+
+    Expire, //expire a key after given ttl, or persist it again with ttl=0
+    ResponseExpire,
+    GetTTL,
+    ResponseGetTTL,
+    CompareAndSet, //atomically set a key when its current value equals the expected value
+    SetIfAbsent, //atomically set a key when it does not exist yet
+    ResponseSetResult,
+
+    QueuePublish, //adds a message to a durable queue
+    QueueSubscribe, //registers the connection as consumer of a queue
+    QueueUnsubscribe,
+    QueueMessage, //a queue message delivered to exactly one consumer
+    QueueAck, //consumer processed the message successfully
+    QueueNack, //consumer failed to process the message, so it will be redelivered or dead-lettered
+
+    SubscribePattern, //subscribes to all channels matching a pattern like `user.*.updated`
+    UnsubscribePattern,
+    ResponseSubscribePatternMessage, //on each new message published to a channel matching a subscribed pattern
 }
 
 export interface brokerDelete {
@@ -47,7 +66,8 @@ export interface brokerDelete {
 
 export interface brokerIncrement {
     n: string,
-    v?: number
+    v?: number,
+    ttl?: number,
 }
 
 export interface brokerResponseIncrement {
@@ -57,6 +77,35 @@ export interface brokerResponseIncrement {
 export interface brokerSet {
     n: string,
     v: Uint8Array,
+    ttl?: number,
+}
+
+export interface brokerExpire {
+    n: string,
+    ttl: number,
+}
+
+export interface brokerResponseExpire {
+    v: boolean;
+}
+
+export interface brokerGetTTL {
+    n: string;
+}
+
+export interface brokerResponseGetTTL {
+    v?: number;
+}
+
+export interface brokerCompareAndSet {
+    n: string,
+    e: Uint8Array,
+    v: Uint8Array,
+    ttl?: number,
+}
+
+export interface brokerResponseSetResult {
+    v: boolean;
 }
 
 export interface brokerResponseGet {
@@ -81,6 +130,16 @@ export interface brokerResponseSubscribeMessage {
     v: Uint8Array,
 }
 
+export interface brokerSubscribePattern {
+    p: string;
+}
+
+export interface brokerResponseSubscribePatternMessage {
+    p: string,
+    c: string,
+    v: Uint8Array,
+}
+
 export interface brokerLockId {
     id: string;
 }
@@ -99,3 +158,29 @@ export interface brokerEntityFields {
     name: string,
     fields: string[],
 }
+
+export interface brokerQueuePublish {
+    c: string,
+    v: Uint8Array,
+    ackTimeout?: number,
+    maxAttempts?: number,
+    deadLetter?: string,
+}
+
+export interface brokerQueueSubscribe {
+    c: string,
+    maxParallel?: number,
+}
+
+export interface brokerQueueMessage {
+    c: string,
+    id: number,
+    attempt: number,
+    v: Uint8Array,
+}
+
+export interface brokerQueueAck {
+    c: string,
+    id: number,
+    attempt: number,
+}
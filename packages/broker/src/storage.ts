@@ -0,0 +1,159 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { getBSONDeserializer, getBSONSerializer } from '@deepkit/bson';
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, truncateSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+export enum BrokerStorageOperationType {
+    set,
+    delete,
+    expire,
+    queueAdd,
+    queueRemove,
+}
+
+export interface BrokerStorageOperation {
+    t: BrokerStorageOperationType,
+
+    /**
+     * Key or queue name.
+     */
+    n: string,
+    v?: Uint8Array,
+
+    /**
+     * Expiration timestamp of a key in milliseconds.
+     */
+    e?: number,
+
+    /**
+     * Queue message id.
+     */
+    id?: number,
+    ackTimeout?: number,
+    maxAttempts?: number,
+    deadLetter?: string,
+}
+
+/**
+ * Persists the state of the broker (key-value data and queues) as a log of operations.
+ * BrokerState appends each change and regularly replaces the log with a compact snapshot of its current state.
+ */
+export interface BrokerStorage {
+    /**
+     * Returns all persisted operations in the order they were appended.
+     */
+    load(): BrokerStorageOperation[];
+
+    append(operation: BrokerStorageOperation): void;
+
+    /**
+     * Replaces all persisted operations with the given snapshot.
+     */
+    compact(snapshot: BrokerStorageOperation[]): void;
+
+    close(): void;
+}
+
+export class BrokerMemoryStorage implements BrokerStorage {
+    public operations: BrokerStorageOperation[] = [];
+
+    load(): BrokerStorageOperation[] {
+        return this.operations.slice();
+    }
+
+    append(operation: BrokerStorageOperation): void {
+        this.operations.push(operation);
+    }
+
+    compact(snapshot: BrokerStorageOperation[]): void {
+        this.operations = snapshot.slice();
+    }
+
+    close(): void {
+    }
+}
+
+/**
+ * Stores all operations BSON encoded in an append-only file (write-ahead log).
+ * Compaction writes the snapshot into a temporary file which atomically replaces the log.
+ */
+export class BrokerAppendOnlyFileStorage implements BrokerStorage {
+    protected fd?: number;
+
+    protected serializer = getBSONSerializer<BrokerStorageOperation>();
+    protected deserializer = getBSONDeserializer<BrokerStorageOperation>();
+
+    /**
+     * When true each appended operation is flushed to disk before the broker continues.
+     * Survives power losses, but is considerably slower.
+     */
+    public fsync: boolean = false;
+
+    constructor(public readonly path: string) {
+    }
+
+    load(): BrokerStorageOperation[] {
+        const operations: BrokerStorageOperation[] = [];
+        if (!existsSync(this.path)) return operations;
+
+        const buffer = readFileSync(this.path);
+        let offset = 0;
+        while (offset + 4 <= buffer.byteLength) {
+            const size = buffer.readInt32LE(offset);
+            //an incomplete operation at the end happens when the process crashed while writing
+            if (size < 5 || offset + size > buffer.byteLength) break;
+            operations.push(this.deserializer(buffer, offset));
+            offset += size;
+        }
+
+        if (offset < buffer.byteLength) {
+            truncateSync(this.path, offset);
+        }
+
+        return operations;
+    }
+
+    append(operation: BrokerStorageOperation): void {
+        const fd = this.open();
+        writeSync(fd, this.serializer(operation));
+        if (this.fsync) fsyncSync(fd);
+    }
+
+    compact(snapshot: BrokerStorageOperation[]): void {
+        const path = this.path + '.compact';
+        mkdirSync(dirname(path), { recursive: true });
+        const fd = openSync(path, 'w');
+        try {
+            for (const operation of snapshot) {
+                writeSync(fd, this.serializer(operation));
+            }
+            fsyncSync(fd);
+        } finally {
+            closeSync(fd);
+        }
+
+        this.close();
+        renameSync(path, this.path);
+    }
+
+    close(): void {
+        if (this.fd === undefined) return;
+        closeSync(this.fd);
+        this.fd = undefined;
+    }
+
+    protected open(): number {
+        if (this.fd !== undefined) return this.fd;
+        mkdirSync(dirname(this.path), { recursive: true });
+        return this.fd = openSync(this.path, 'a');
+    }
+}
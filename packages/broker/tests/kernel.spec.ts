@@ -2,8 +2,8 @@ import { sleep } from '@deepkit/core';
 import { AsyncSubscription } from '@deepkit/core-rxjs';
 import { expect, test } from '@jest/globals';
 import { BehaviorSubject } from 'rxjs';
-import { BrokerDirectClient } from '../src/client';
-import { BrokerKernel } from '../src/kernel';
+import { BrokerDirectClient, BrokerQueue } from '../src/client';
+import { BrokerKernel, channelPatternToRegExp } from '../src/kernel';
 
 Error.stackTraceLimit = 1000;
 
@@ -50,6 +50,92 @@ test('basics', async () => {
     }
 });
 
+test('key ttl', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    interface schema {
+        token: string;
+    }
+
+    const key = client.key<schema>('token');
+    await key.set({ token: 'abc' }, { ttl: 0.1 });
+    expect(await key.get()).toEqual({ token: 'abc' });
+    const ttl = await key.getTTL();
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(0.1);
+
+    await sleep(0.15);
+    expect(await key.getOrUndefined()).toBe(undefined);
+    expect(await key.getTTL()).toBe(undefined);
+
+    await key.set({ token: 'abc' });
+    expect(await key.getTTL()).toBe(undefined);
+    expect(await key.expire(0.1)).toBe(true);
+    expect(await key.getTTL()).toBeGreaterThan(0);
+    expect(await key.expire(0)).toBe(true);
+    expect(await key.getTTL()).toBe(undefined);
+
+    expect(await client.key<schema>('unknown').expire(10)).toBe(false);
+});
+
+test('increment ttl', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    expect(await client.increment('counter', 1, { ttl: 0.1 })).toBe(1);
+    //the ttl of an existing counter is kept
+    expect(await client.increment('counter', 1, { ttl: 10 })).toBe(2);
+    expect(await client.key<number>('counter').getTTL()).toBeLessThanOrEqual(0.1);
+
+    await sleep(0.15);
+    expect(await client.increment('counter', 1)).toBe(1);
+    expect(await client.key<number>('counter').getTTL()).toBe(undefined);
+});
+
+test('key ttl eviction timer', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+    const state = (kernel as any).state;
+    state.expirationInterval = 20;
+
+    interface schema {
+        v: string;
+    }
+
+    await client.key<schema>('a').set({ v: 'a' }, { ttl: 0.05 });
+    await client.key<schema>('b').set({ v: 'b' });
+    expect(state.setStore.size).toBe(2);
+
+    await sleep(0.1);
+    expect(state.setStore.size).toBe(1);
+    expect(state.expires.size).toBe(0);
+    expect(await client.key<schema>('b').get()).toEqual({ v: 'b' });
+});
+
+test('compare-and-set', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    interface schema {
+        version: number;
+    }
+
+    const key = client.key<schema>('cas');
+    expect(await key.compareAndSet({ version: 1 }, { version: 2 })).toBe(false);
+    expect(await key.setIfAbsent({ version: 1 })).toBe(true);
+    expect(await key.setIfAbsent({ version: 5 })).toBe(false);
+    expect(await key.get()).toEqual({ version: 1 });
+
+    expect(await key.compareAndSet({ version: 1 }, { version: 2 })).toBe(true);
+    expect(await key.get()).toEqual({ version: 2 });
+
+    expect(await key.compareAndSet({ version: 2 }, { version: 3 }, { ttl: 0.05 })).toBe(true);
+    await sleep(0.1);
+    expect(await key.setIfAbsent({ version: 10 })).toBe(true);
+    expect(await key.get()).toEqual({ version: 10 });
+});
+
 test('pub-sub', async () => {
     const kernel = new BrokerKernel();
     const client = new BrokerDirectClient(kernel);
@@ -115,6 +201,49 @@ test('pub-sub', async () => {
     }
 });
 
+test('channel pattern', () => {
+    expect(channelPatternToRegExp('user.*.updated').test('user.24.updated')).toBe(true);
+    expect(channelPatternToRegExp('user.*.updated').test('user.24.5.updated')).toBe(false);
+    expect(channelPatternToRegExp('user.*.updated').test('user.24.updated.2')).toBe(false);
+    expect(channelPatternToRegExp('user.*.updated').test('userX24Xupdated')).toBe(false);
+    expect(channelPatternToRegExp('user.**').test('user.24.updated')).toBe(true);
+    expect(channelPatternToRegExp('dk/e/*').test('dk/e/user')).toBe(true);
+    expect(channelPatternToRegExp('dk/e/*').test('dk/e/user/5')).toBe(false);
+    expect(channelPatternToRegExp('a+b').test('a+b')).toBe(true);
+});
+
+test('pub-sub pattern', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+    const publisher = new BrokerDirectClient(kernel);
+
+    interface UserEvent {
+        id: number;
+    }
+
+    const received: [UserEvent, string][] = [];
+    const subscription = await client.subscribePattern<UserEvent>('user.*.updated', (event, channel) => {
+        received.push([event, channel]);
+    });
+
+    await publisher.channel<UserEvent>('user.1.updated').publish({ id: 1 });
+    await publisher.channel<UserEvent>('user.2.updated').publish({ id: 2 });
+    await publisher.channel<UserEvent>('user.2.created').publish({ id: 2 });
+    await sleep(0.01);
+    expect(received).toEqual([[{ id: 1 }, 'user.1.updated'], [{ id: 2 }, 'user.2.updated']]);
+
+    const strings: string[] = [];
+    await client.subscribePattern<string>('log.**', (v, channel) => strings.push(channel + ':' + v));
+    await publisher.channel<string>('log.app.error').publish('failed');
+    await sleep(0.01);
+    expect(strings).toEqual(['log.app.error:failed']);
+
+    await subscription.unsubscribe();
+    await publisher.channel<UserEvent>('user.3.updated').publish({ id: 3 });
+    await sleep(0.01);
+    expect(received.length).toBe(2);
+});
+
 test('lock', async () => {
     const kernel = new BrokerKernel();
     const client = new BrokerDirectClient(kernel);
@@ -191,3 +320,178 @@ test('entity-fields', async () => {
         expect(await client2.getEntityFields('model')).toEqual([]);
     }
 });
+
+test('queue', async () => {
+    const kernel = new BrokerKernel();
+    const producer = new BrokerDirectClient(kernel);
+    const consumer1 = new BrokerDirectClient(kernel);
+    const consumer2 = new BrokerDirectClient(kernel);
+
+    interface Job {
+        id: number;
+    }
+
+    //messages are kept until a consumer is connected
+    await producer.queue<Job>('jobs').publish({ id: 1 });
+    await producer.queue<Job>('jobs').publish({ id: 2 });
+
+    const received1: number[] = [];
+    const received2: number[] = [];
+    await consumer1.queue<Job>('jobs').consume(message => {
+        received1.push(message.data.id);
+    });
+    await consumer2.queue<Job>('jobs').consume(message => {
+        received2.push(message.data.id);
+    });
+
+    for (let i = 3; i <= 6; i++) await producer.queue<Job>('jobs').publish({ id: i });
+    await sleep(0.05);
+
+    //each message is delivered exactly once
+    expect([...received1, ...received2].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(received2.length).toBeGreaterThan(0);
+
+    const state = (kernel as any).state;
+    expect(state.queues.get('jobs').pending.length).toBe(0);
+    expect(state.queues.get('jobs').inFlight.size).toBe(0);
+});
+
+test('queue primitive', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    const subject = new BehaviorSubject<any>(undefined);
+    await client.queue<string>('strings').consume(message => subject.next(message.data));
+    await client.queue<string>('strings').publish('hello');
+    await sleep(0.01);
+    expect(subject.value).toBe('hello');
+});
+
+test('queue redelivery', async () => {
+    const kernel = new BrokerKernel();
+    const producer = new BrokerDirectClient(kernel);
+
+    interface Job {
+        id: number;
+    }
+
+    //failing consumer
+    const attempts: number[] = [];
+    const failing = await producer.queue<Job>('jobs', { maxAttempts: 2, deadLetterQueue: 'jobs-dead' }).consume(message => {
+        attempts.push(message.attempt);
+        throw new Error('failed');
+    });
+    await producer.queue<Job>('jobs').publish({ id: 1 });
+    await sleep(0.05);
+    expect(attempts).toEqual([1, 2]);
+
+    //options of a cached queue can't be changed
+    expect(() => producer.queue<Job>('jobs', { maxAttempts: 3 })).toThrow('Queue jobs was already created with different options');
+    expect(producer.queue<Job>('jobs', { maxAttempts: 2, deadLetterQueue: 'jobs-dead' })).toBeInstanceOf(BrokerQueue);
+    await failing.unsubscribe();
+
+    const deadLetter: number[] = [];
+    await producer.queue<Job>('jobs-dead').consume(message => {
+        deadLetter.push(message.data.id);
+    });
+    await sleep(0.01);
+    expect(deadLetter).toEqual([1]);
+
+    //disconnecting consumer
+    const consumer1 = new BrokerDirectClient(kernel);
+    let started = 0;
+    await consumer1.queue<Job>('slow').consume(async () => {
+        started++;
+        await sleep(10);
+    });
+    await producer.queue<Job>('slow').publish({ id: 2 });
+    await sleep(0.01);
+    expect(started).toBe(1);
+    consumer1.disconnect();
+
+    const consumer2 = new BrokerDirectClient(kernel);
+    const received: { data: Job, attempt: number }[] = [];
+    await consumer2.queue<Job>('slow').consume(message => {
+        received.push(message);
+    });
+    await sleep(0.01);
+    expect(received.length).toBe(1);
+    expect(received[0].data).toEqual({ id: 2 });
+    expect(received[0].attempt).toBe(2);
+});
+
+test('queue ack timeout', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    interface Job {
+        id: number;
+    }
+
+    const attempts: number[] = [];
+    await client.queue<Job>('jobs', { ackTimeout: 0.05 }).consume(async message => {
+        attempts.push(message.attempt);
+        if (message.attempt === 1) await sleep(0.2);
+    }, 2);
+    await client.queue<Job>('jobs').publish({ id: 1 });
+    await sleep(0.1);
+    expect(attempts).toEqual([1, 2]);
+
+    const state = (kernel as any).state;
+    expect(state.queues.get('jobs').inFlight.size).toBe(0);
+    //the timed out delivery is still processed, so it occupies a slot
+    expect(state.queues.get('jobs').consumers[0].deliveries.length).toBe(1);
+    await sleep(0.15);
+    expect(state.queues.get('jobs').consumers[0].deliveries.length).toBe(0);
+});
+
+test('queue ack timeout respects maxParallel', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    interface Job {
+        id: number;
+    }
+
+    let running = 0;
+    let maxRunning = 0;
+    const attempts: number[] = [];
+    await client.queue<Job>('jobs', { ackTimeout: 0.05 }).consume(async message => {
+        attempts.push(message.attempt);
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        if (message.attempt === 1) await sleep(0.15);
+        running--;
+    });
+    await client.queue<Job>('jobs').publish({ id: 1 });
+    await sleep(0.1);
+    //timed out, but the consumer is still busy with the first attempt
+    expect(attempts).toEqual([1]);
+
+    await sleep(0.1);
+    //the late ack of attempt 1 does not acknowledge the redelivery, so it's delivered again
+    expect(attempts).toEqual([1, 2]);
+    expect(maxRunning).toBe(1);
+
+    const state = (kernel as any).state;
+    expect(state.queues.get('jobs').inFlight.size).toBe(0);
+    expect(state.queues.get('jobs').pending.length).toBe(0);
+});
+
+test('queue dead-letter keeps options', async () => {
+    const kernel = new BrokerKernel();
+    const client = new BrokerDirectClient(kernel);
+
+    const failing = await client.queue<string>('jobs', { maxAttempts: 1, ackTimeout: 5, deadLetterQueue: 'jobs-dead' }).consume(() => {
+        throw new Error('failed');
+    });
+    await client.queue<string>('jobs').publish('a');
+    await sleep(0.01);
+    await failing.unsubscribe();
+
+    const state = (kernel as any).state;
+    const entry = state.queues.get('jobs-dead').pending[0];
+    expect(entry.maxAttempts).toBe(1);
+    expect(entry.ackTimeout).toBe(5);
+    expect(entry.deadLetter).toBe(undefined);
+});
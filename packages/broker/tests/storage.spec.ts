@@ -0,0 +1,150 @@
+import { sleep } from '@deepkit/core';
+import { expect, test } from '@jest/globals';
+import { existsSync, mkdtempSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BrokerDirectClient } from '../src/client';
+import { BrokerKernel } from '../src/kernel';
+import { BrokerAppendOnlyFileStorage, BrokerMemoryStorage, BrokerStorageOperationType } from '../src/storage';
+
+interface schema {
+    v: number;
+}
+
+test('memory storage replay', async () => {
+    const storage = new BrokerMemoryStorage();
+
+    {
+        const kernel = new BrokerKernel();
+        kernel.useStorage(storage);
+        const client = new BrokerDirectClient(kernel);
+
+        await client.key<schema>('a').set({ v: 1 });
+        await client.key<schema>('b').set({ v: 2 });
+        await client.key<schema>('c').set({ v: 3 }, { ttl: 0.05 });
+        await client.key<schema>('b').delete();
+        await client.increment('inc', 5);
+        await client.increment('inc', 2);
+        await client.queue<schema>('jobs').publish({ v: 10 });
+        await client.queue<schema>('jobs').publish({ v: 11 });
+        expect(storage.operations.map(v => v.t)).toEqual([
+            BrokerStorageOperationType.set,
+            BrokerStorageOperationType.set,
+            BrokerStorageOperationType.set,
+            BrokerStorageOperationType.delete,
+            BrokerStorageOperationType.set,
+            BrokerStorageOperationType.set,
+            BrokerStorageOperationType.queueAdd,
+            BrokerStorageOperationType.queueAdd,
+        ]);
+    }
+
+    await sleep(0.1);
+
+    {
+        const kernel = new BrokerKernel();
+        kernel.useStorage(storage);
+        const client = new BrokerDirectClient(kernel);
+
+        expect(await client.key<schema>('a').get()).toEqual({ v: 1 });
+        expect(await client.key<schema>('b').getOrUndefined()).toBe(undefined);
+        expect(await client.key<schema>('c').getOrUndefined()).toBe(undefined);
+        expect(await client.getIncrement('inc')).toBe(7);
+
+        //replay compacted the log
+        expect(storage.operations.length).toBe(4);
+
+        const received: number[] = [];
+        await client.queue<schema>('jobs').consume(message => {
+            received.push(message.data.v);
+        });
+        await sleep(0.01);
+        expect(received).toEqual([10, 11]);
+        expect(storage.operations.map(v => v.t).filter(v => v === BrokerStorageOperationType.queueRemove).length).toBe(2);
+    }
+});
+
+test('append-only file storage', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'deepkit-broker-'));
+    const path = join(dir, 'broker.aof');
+
+    {
+        const kernel = new BrokerKernel();
+        kernel.useStorage(new BrokerAppendOnlyFileStorage(path), 3);
+        const client = new BrokerDirectClient(kernel);
+
+        await client.key<schema>('a').set({ v: 1 });
+        await client.key<schema>('a').set({ v: 2 });
+        await client.key<schema>('b').set({ v: 3 });
+        await client.key<schema>('c').set({ v: 4 });
+        await client.key<schema>('a').expire(100);
+        expect(existsSync(path + '.compact')).toBe(false);
+    }
+
+    //simulate a crash while writing the last operation
+    const size = statSync(path).size;
+    writeFileSync(path, Buffer.concat([readFileSync(path), Buffer.from([100, 0, 0, 0, 3])]));
+
+    {
+        const kernel = new BrokerKernel();
+        const storage = new BrokerAppendOnlyFileStorage(path);
+        //compaction after 3 operations merged both sets of `a`
+        expect(storage.load().length).toBe(4);
+        expect(statSync(path).size).toBe(size);
+
+        kernel.useStorage(storage);
+        const client = new BrokerDirectClient(kernel);
+        expect(await client.key<schema>('a').get()).toEqual({ v: 2 });
+        expect(await client.key<schema>('a').getTTL()).toBeGreaterThan(99);
+        expect(await client.key<schema>('b').get()).toEqual({ v: 3 });
+        expect(await client.key<schema>('c').get()).toEqual({ v: 4 });
+        storage.close();
+    }
+});
+
+test('append-only file storage increment after restart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'deepkit-broker-'));
+    const path = join(dir, 'broker.aof');
+
+    {
+        const kernel = new BrokerKernel();
+        const storage = new BrokerAppendOnlyFileStorage(path);
+        kernel.useStorage(storage);
+        const client = new BrokerDirectClient(kernel);
+
+        //other values before the counter, so it is stored at an unaligned offset
+        await client.key<schema>('a').set({ v: 1 });
+        await client.setRaw('b', new Uint8Array([1, 2, 3]));
+        expect(await client.increment('counter', 5)).toBe(5);
+        await client.key<schema>('c').set({ v: 2 });
+        storage.close();
+    }
+
+    {
+        const kernel = new BrokerKernel();
+        const storage = new BrokerAppendOnlyFileStorage(path);
+        kernel.useStorage(storage);
+        const client = new BrokerDirectClient(kernel);
+
+        expect(await client.getIncrement('counter')).toBe(5);
+        expect(await client.increment('counter', 2)).toBe(7);
+        expect(await client.getIncrement('counter')).toBe(7);
+        expect(await client.key<schema>('c').get()).toEqual({ v: 2 });
+        storage.close();
+    }
+
+    //storages may restore values as views into a larger buffer
+    {
+        const buffer = new Uint8Array(32);
+        const value = new Float64Array([3]);
+        buffer.set(new Uint8Array(value.buffer), 3);
+        const storage = new BrokerMemoryStorage();
+        storage.operations.push({ t: BrokerStorageOperationType.set, n: 'counter', v: buffer.subarray(3, 11) });
+
+        const kernel = new BrokerKernel();
+        kernel.useStorage(storage);
+        const client = new BrokerDirectClient(kernel);
+        expect(await client.increment('counter')).toBe(4);
+        expect(await client.getIncrement('counter')).toBe(4);
+    }
+});
@@ -12,6 +12,8 @@ export * from './src/session';
 export * from './src/application-server';
 export * from './src/worker';
 export * from './src/database/database-listener';
+export * from './src/database/workflow-persistence';
+export * from './src/database/session-store';
 // export * from './src/database/live-database';
 export * from './src/orm-browser/controller';
 export * from './src/rpc';
@@ -21,3 +23,5 @@ export * from './src/crud';
 export * from './src/testing';
 export * from './src/broker/broker';
 export * from './src/broker/broker.config';
+export * from './src/broker/rate-limit-store';
+export * from './src/broker/session-store';
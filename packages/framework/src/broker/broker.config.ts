@@ -23,4 +23,14 @@ export class BrokerConfig {
      * @description Automatically starts a single broker in the main process. Disable it if you have a custom broker node.
      */
     startOnBootstrap: boolean = false;
+
+    /**
+     * @description Path of an append-only file the broker server persists key-value data and queues to, so they survive a restart. Empty disables persistence.
+     */
+    storage: string = '';
+
+    /**
+     * @description Amount of operations appended to the storage file after which it is compacted into a snapshot.
+     */
+    storageCompactionThreshold: number = 10_000;
 }
@@ -15,6 +15,8 @@ import { onServerMainBootstrap, onServerMainShutdown } from '../application-serv
 import { BrokerConfig } from './broker.config';
 import { Broker, BrokerServer } from './broker';
 import { LoggerInterface } from '@deepkit/logger';
+import { BrokerRateLimitStore } from './rate-limit-store';
+import { BrokerSessionStore } from './session-store';
 
 export class BrokerListener {
     constructor(
@@ -52,11 +54,15 @@ export class BrokerModule extends createModule({
         Broker,
         AppLocker,
         BrokerServer,
+        { provide: BrokerRateLimitStore, useFactory: (broker: Broker) => new BrokerRateLimitStore(broker) },
+        { provide: BrokerSessionStore, useFactory: (broker: Broker) => new BrokerSessionStore(broker) },
     ],
     exports: [
         Broker,
         AppLocker,
         BrokerServer,
+        BrokerRateLimitStore,
+        BrokerSessionStore,
     ]
 }, 'broker') {
 }
@@ -8,7 +8,7 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-import { BrokerChannel, BrokerClient, BrokerKernel } from '@deepkit/broker';
+import { BrokerAppendOnlyFileStorage, BrokerChannel, BrokerClient, BrokerKernel } from '@deepkit/broker';
 import { ClassType } from '@deepkit/core';
 import { IdInterface, RpcDirectClientAdapter } from '@deepkit/rpc';
 import { BrokerConfig } from './broker.config';
@@ -109,15 +109,25 @@ export class DirectBroker extends BaseBroker {
 export class BrokerServer extends TcpRpcServer {
     protected kernel: BrokerKernel = new BrokerKernel;
 
-    constructor(protected listen: BrokerConfig['listen']) {
+    constructor(
+        protected listen: BrokerConfig['listen'],
+        storage: BrokerConfig['storage'] = '',
+        storageCompactionThreshold: BrokerConfig['storageCompactionThreshold'] = 10_000,
+    ) {
         super(new BrokerKernel, listen);
+        if (storage) this.kernel.useStorage(new BrokerAppendOnlyFileStorage(storage), storageCompactionThreshold);
     }
 }
 
 export class NetBrokerServer extends NetTcpRpcServer {
     protected kernel: BrokerKernel = new BrokerKernel;
 
-    constructor(listen: BrokerConfig['listen']) {
+    constructor(
+        listen: BrokerConfig['listen'],
+        storage: BrokerConfig['storage'] = '',
+        storageCompactionThreshold: BrokerConfig['storageCompactionThreshold'] = 10_000,
+    ) {
         super(new BrokerKernel, listen);
+        if (storage) this.kernel.useStorage(new BrokerAppendOnlyFileStorage(storage), storageCompactionThreshold);
     }
 }
@@ -0,0 +1,48 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { BrokerClient, BrokerKeyValue } from '@deepkit/broker';
+import { RateLimitBucket, RateLimitStore } from '@deepkit/rate-limit';
+
+/**
+ * Keeps rate limit counters in the broker, so limits hold across workers, processes, and nodes.
+ */
+export class BrokerRateLimitStore extends RateLimitStore {
+    constructor(protected broker: BrokerClient) {
+        super();
+    }
+
+    /**
+     * How often update() retries when the bucket has been changed concurrently.
+     */
+    public maxUpdateAttempts: number = 100;
+
+    async increment(key: string, value: number, ttl: number): Promise<number> {
+        return await this.broker.increment('ratelimit:' + key, value, { ttl });
+    }
+
+    async get(key: string): Promise<number | undefined> {
+        const v = await this.broker.getRawOrUndefined('ratelimit:' + key);
+        if (!v) return;
+        return new DataView(v.buffer, v.byteOffset, v.byteLength).getFloat64(0, true);
+    }
+
+    async update(key: string, updater: (bucket?: RateLimitBucket) => RateLimitBucket, ttl: number): Promise<RateLimitBucket> {
+        const kv = this.broker.key<RateLimitBucket>('ratelimit:' + key) as BrokerKeyValue<RateLimitBucket>;
+
+        for (let attempt = 0; attempt < this.maxUpdateAttempts; attempt++) {
+            const current = await kv.getOrUndefined();
+            const next = updater(current);
+            const written = current ? await kv.compareAndSet(current, next, { ttl }) : await kv.setIfAbsent(next, { ttl });
+            if (written) return next;
+        }
+        throw new Error(`Rate limit bucket ${key} could not be updated after ${this.maxUpdateAttempts} attempts due to concurrent updates`);
+    }
+}
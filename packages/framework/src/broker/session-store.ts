@@ -0,0 +1,37 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { BrokerClient, BrokerKeyValue } from '@deepkit/broker';
+import { SessionRecord, SessionStore } from '../session';
+
+/**
+ * Keeps sessions in the broker key-value store, so they are shared across workers, processes, and nodes.
+ */
+export class BrokerSessionStore extends SessionStore {
+    constructor(protected broker: BrokerClient) {
+        super();
+    }
+
+    protected key(id: string): BrokerKeyValue<SessionRecord> {
+        return this.broker.key<SessionRecord>('session:' + id) as BrokerKeyValue<SessionRecord>;
+    }
+
+    async load(id: string): Promise<SessionRecord | undefined> {
+        return await this.key(id).getOrUndefined();
+    }
+
+    async save(record: SessionRecord, ttl: number): Promise<void> {
+        await this.key(record.id).set(record, { ttl });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.key(id).delete();
+    }
+}
@@ -0,0 +1,39 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { arg, cli, Command, flag, ServiceContainer } from '@deepkit/app';
+import { EventDispatcher } from '@deepkit/event';
+
+@cli.controller('debug:workflow', {
+    description: 'Prints a workflow as Mermaid (default) or Graphviz DOT diagram',
+})
+export class DebugWorkflowCommand implements Command {
+    constructor(
+        protected serviceContainer: ServiceContainer,
+        protected eventDispatcher: EventDispatcher,
+    ) {
+    }
+
+    async execute(
+        @arg name: string,
+        @flag dot: boolean = false,
+        @flag highlightUnhandled: boolean = false,
+    ): Promise<void> {
+        const workflow = this.serviceContainer.workflowRegistry.get(name);
+        const highlight: string[] = [];
+        if (highlightUnhandled) {
+            for (const [place, token] of Object.entries(workflow.tokens)) {
+                if (!this.eventDispatcher.getListeners(token!).length) highlight.push(place);
+            }
+        }
+
+        process.stdout.write(dot ? workflow.toDot({ highlight }) : workflow.toMermaid({ highlight }));
+    }
+}
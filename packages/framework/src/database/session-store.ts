@@ -0,0 +1,86 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { Database } from '@deepkit/orm';
+import { entity, Index, PrimaryKey } from '@deepkit/type';
+import { SessionRecord, SessionStore } from '../session';
+
+@entity.name('deepkit_session')
+export class SessionEntity {
+    username?: string;
+    groups: string[] = [];
+    data: { [name: string]: any } = {};
+    createdAt: Date = new Date;
+    lastActivityAt: Date = new Date;
+    expiresAt?: Date & Index;
+
+    constructor(public id: string & PrimaryKey) {
+    }
+}
+
+/**
+ * Stores sessions in a database. SessionEntity needs to be registered in the database, e.g.
+ *
+ * ```typescript
+ * class MyDatabase extends Database {
+ *     constructor() {
+ *         super(adapter, [SessionEntity]);
+ *     }
+ * }
+ *
+ * new App({
+ *     providers: [MyDatabase, { provide: SessionStore, useFactory: (db: MyDatabase) => new DatabaseSessionStore(db) }],
+ * });
+ * ```
+ */
+export class DatabaseSessionStore extends SessionStore {
+    constructor(protected database: Database) {
+        super();
+    }
+
+    async load(id: string): Promise<SessionRecord | undefined> {
+        const entity = await this.database.query(SessionEntity).filter({ id }).findOneOrUndefined();
+        if (!entity) return;
+        if (entity.expiresAt && entity.expiresAt.getTime() <= Date.now()) {
+            await this.delete(id);
+            return;
+        }
+
+        return {
+            id, username: entity.username, groups: entity.groups, data: entity.data,
+            createdAt: entity.createdAt, lastActivityAt: entity.lastActivityAt,
+        };
+    }
+
+    async save(record: SessionRecord, ttl: number): Promise<void> {
+        const session = this.database.createSession();
+        const entity = await session.query(SessionEntity).filter({ id: record.id }).findOneOrUndefined() || new SessionEntity(record.id);
+        entity.username = record.username;
+        entity.groups = record.groups;
+        entity.data = record.data;
+        entity.createdAt = record.createdAt;
+        entity.lastActivityAt = record.lastActivityAt;
+        entity.expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : undefined;
+        session.add(entity);
+        await session.commit();
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.database.query(SessionEntity).filter({ id }).deleteMany();
+    }
+
+    /**
+     * Removes all expired sessions and returns their count. Expired sessions are otherwise only removed when loaded.
+     */
+    async removeExpired(): Promise<number> {
+        const result = await this.database.query(SessionEntity).filter({ expiresAt: { $lt: new Date } }).deleteMany();
+        return result.primaryKeys.length;
+    }
+}
@@ -0,0 +1,100 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { Database, UniqueConstraintFailure } from '@deepkit/orm';
+import { AutoIncrement, entity, Index, PrimaryKey } from '@deepkit/type';
+import { WorkflowConflictError, WorkflowInstanceRecord, WorkflowPersistence, WorkflowTransitionRecord } from '@deepkit/workflow';
+
+@entity.name('deepkit_workflow_instance').index(['workflow', 'instanceId'], { unique: true })
+export class WorkflowInstanceEntity {
+    id: number & PrimaryKey & AutoIncrement = 0;
+
+    createdAt: Date = new Date;
+    updatedAt: Date = new Date;
+
+    constructor(
+        public workflow: string & Index,
+        public instanceId: string & Index,
+        public state: string,
+    ) {
+    }
+}
+
+@entity.name('deepkit_workflow_transition')
+export class WorkflowTransitionEntity {
+    id: number & PrimaryKey & AutoIncrement = 0;
+
+    event?: { [name: string]: any };
+
+    constructor(
+        public workflow: string & Index,
+        public instanceId: string & Index,
+        public from: string,
+        public to: string,
+        public date: Date,
+    ) {
+    }
+}
+
+/**
+ * Stores workflow instances and their transition history in a database.
+ *
+ * WorkflowInstanceEntity and WorkflowTransitionEntity need to be registered in the database, e.g.
+ *
+ * ```typescript
+ * const database = new Database(adapter, [WorkflowInstanceEntity, WorkflowTransitionEntity]);
+ * const workflow = await orderWorkflow.resume(new DatabaseWorkflowPersistence(database), orderId, eventDispatcher);
+ * ```
+ */
+export class DatabaseWorkflowPersistence implements WorkflowPersistence {
+    constructor(protected database: Database) {
+    }
+
+    async load(workflow: string, id: string): Promise<WorkflowInstanceRecord | undefined> {
+        const instance = await this.database.query(WorkflowInstanceEntity).filter({ workflow, instanceId: id }).findOneOrUndefined();
+        if (!instance) return;
+
+        const transitions = await this.database.query(WorkflowTransitionEntity).filter({ workflow, instanceId: id }).orderBy('id').find();
+        return {
+            id, workflow, state: instance.state,
+            history: transitions.map(v => ({ from: v.from, to: v.to, date: v.date, event: v.event })),
+        };
+    }
+
+    async create(instance: WorkflowInstanceRecord): Promise<boolean> {
+        //the unique index makes concurrent starts of the same instance fail
+        try {
+            await this.database.persist(new WorkflowInstanceEntity(instance.workflow, instance.id, instance.state));
+            return true;
+        } catch (error) {
+            if (error instanceof UniqueConstraintFailure) return false;
+            throw error;
+        }
+    }
+
+    async save(instance: WorkflowInstanceRecord, transitions: WorkflowTransitionRecord[]): Promise<void> {
+        if (!transitions.length) return;
+        const expectedState = transitions[0].from;
+
+        await this.database.transaction(async (session) => {
+            //only updates when no other process advanced the instance in the meantime
+            const result = await session.query(WorkflowInstanceEntity)
+                .filter({ workflow: instance.workflow, instanceId: instance.id, state: expectedState })
+                .patchOne({ state: instance.state, updatedAt: new Date });
+            if (!result.modified) throw WorkflowConflictError.forInstance(instance, expectedState);
+
+            for (const transition of transitions) {
+                const item = new WorkflowTransitionEntity(instance.workflow, instance.id, transition.from, transition.to, transition.date);
+                item.event = transition.event;
+                session.add(item);
+            }
+        });
+    }
+}
@@ -10,6 +10,38 @@
 
 const isWindows = 'undefined' !== typeof process ? process.platform === 'win32' : false;
 
+export class SessionConfig {
+    /**
+     * @description Secret the session cookie is signed with. Sessions are loaded and saved in the http workflow when set.
+     */
+    secret: string = '';
+
+    cookieName: string = 'deepkit-session';
+
+    cookiePath: string = '/';
+
+    cookieDomain?: string;
+
+    cookieSecure: boolean = false;
+
+    cookieSameSite: 'strict' | 'lax' | 'none' = 'lax';
+
+    /**
+     * @description Seconds without requests after which a session expires. 0 disables it.
+     */
+    idleTimeout: number = 60 * 60 * 24;
+
+    /**
+     * @description Seconds after creation (or regeneration) after which a session expires regardless of activity. 0 disables it.
+     */
+    absoluteTimeout: number = 60 * 60 * 24 * 30;
+
+    /**
+     * @description Where sessions are kept. auto uses the broker when workers are used or the broker is started on bootstrap, otherwise the memory of the process.
+     */
+    store: 'auto' | 'memory' | 'broker' = 'auto';
+}
+
 export class FrameworkConfig {
     host: string = '0.0.0.0'; //binding to localhost is roughly 20% faster.
     port: number = 8080;
@@ -32,6 +64,11 @@ export class FrameworkConfig {
      */
     workers: number = 0;
 
+    /**
+     * @description Where rate limit counters of http routes and rpc actions are kept. auto uses the broker when workers are used or the broker is started on bootstrap, otherwise the memory of the process.
+     */
+    rateLimitStore: 'auto' | 'memory' | 'broker' = 'auto';
+
     /**
      * @description Enables HTTPS server.
      */
@@ -67,8 +104,16 @@ export class FrameworkConfig {
      */
     server?: any;
 
+    /**
+     * @description Maximum size in bytes of a request body sent to rpcHttpPath. Larger bodies are rejected with 413.
+     */
     maxPayload?: number;
 
+    /**
+     * @description When set, RPC clients can connect via HTTP long-polling (RpcHttpClient) at this path, e.g. /rpc. Useful when WebSockets are blocked.
+     */
+    rpcHttpPath?: string;
+
     /**
      * @description A path to a folder that should be served per default. Relative to cwd.
      */
@@ -102,10 +147,7 @@ export class FrameworkConfig {
      */
     httpLog: boolean = true;
 
-    /**
-     * @description The session ClassType
-     */
-    session?: any;
+    session: SessionConfig = new SessionConfig;
 
     /**
      * @description Whether all registered database should be migrated automatically on startup.
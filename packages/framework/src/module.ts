@@ -9,12 +9,16 @@
  */
 
 import { ClassType, isClass, isPrototypeOfBase, ProcessLocker } from '@deepkit/core';
+import { RateLimiter } from '@deepkit/rate-limit';
 import { mkdirSync } from 'fs';
 import { join } from 'path';
 import { ApplicationServer, ApplicationServerListener } from './application-server';
 import { BrokerModule } from './broker/broker.module';
+import { BrokerRateLimitStore } from './broker/rate-limit-store';
+import { BrokerSessionStore } from './broker/session-store';
 import { DebugRouterController } from './cli/debug-router';
 import { DebugDIController } from './cli/debug-di';
+import { DebugWorkflowCommand } from './cli/debug-workflow';
 import { ServerStartController } from './cli/server-start';
 import { DebugController } from './debug/debug.controller';
 import { registerDebugHttpController } from './debug/http-debug.controller';
@@ -22,7 +26,7 @@ import { HttpLogger, HttpModule, HttpRequest, serveStaticListener } from '@deepk
 import { InjectorContext, injectorReference, ProviderWithScope, Token } from '@deepkit/injector';
 import { FrameworkConfig } from './module.config';
 import { ConsoleTransport, Logger, LoggerInterface } from '@deepkit/logger';
-import { SessionHandler } from './session';
+import { HttpSessionListener, MemorySessionStore, Session, SessionHandler, SessionStore } from './session';
 import { RpcServer, WebWorkerFactory } from './worker';
 import { Stopwatch } from '@deepkit/stopwatch';
 import { OrmBrowserController } from './orm-browser/controller';
@@ -31,7 +35,7 @@ import { Database, DatabaseRegistry } from '@deepkit/orm';
 import { MigrationCreateController, MigrationDownCommand, MigrationPendingCommand, MigrationProvider, MigrationUpCommand } from '@deepkit/sql/commands';
 import { FileStopwatchStore } from './debug/stopwatch/store';
 import { DebugDebugFramesCommand } from './cli/debug-debug-frames';
-import { ConnectionWriter, rpcClass, RpcKernel, RpcKernelBaseConnection, RpcKernelConnection, RpcKernelSecurity, SessionState } from '@deepkit/rpc';
+import { ConnectionWriter, getActionMiddlewares, getActions, rpcClass, RpcKernel, RpcKernelBaseConnection, RpcKernelConnection, RpcKernelSecurity, SessionState } from '@deepkit/rpc';
 import { AppConfigController } from './cli/app-config';
 import { Zone } from './zone';
 import { DebugBroker, DebugBrokerListener } from './debug/broker';
@@ -55,9 +59,10 @@ export class FrameworkModule extends createModule({
         { provide: DatabaseRegistry, useFactory: (ic: InjectorContext) => new DatabaseRegistry(ic) },
         {
             provide: RpcKernel,
-            useFactory(rpcControllers: RpcControllers, injectorContext: InjectorContext, rpcKernelSecurity: RpcKernelSecurity, logger: LoggerInterface, stopwatch?: Stopwatch) {
+            useFactory(rpcControllers: RpcControllers, injectorContext: InjectorContext, rpcKernelSecurity: RpcKernelSecurity, logger: LoggerInterface, rateLimiter: RateLimiter, stopwatch?: Stopwatch) {
                 const classType = stopwatch ? RpcKernelWithStopwatch : RpcKernel;
                 const kernel: RpcKernel = new classType(injectorContext, rpcKernelSecurity, logger.scoped('rpc'));
+                kernel.rateLimiter = rateLimiter;
 
                 if (kernel instanceof RpcKernelWithStopwatch) {
                     kernel.stopwatch = stopwatch;
@@ -73,6 +78,7 @@ export class FrameworkModule extends createModule({
 
         //move to HttpModule?
         { provide: SessionHandler, scope: 'http' },
+        { provide: Session, scope: 'http', useFactory: (handler: SessionHandler) => handler.getOrCreateSession() },
 
         // { provide: LiveDatabase, scope: 'rpc' },
 
@@ -95,6 +101,7 @@ export class FrameworkModule extends createModule({
         ServerStartController,
         DebugRouterController,
         DebugDIController,
+        DebugWorkflowCommand,
         DebugDebugFramesCommand,
         AppConfigController,
 
@@ -116,6 +123,8 @@ export class FrameworkModule extends createModule({
 
         DatabaseRegistry,
         SessionHandler,
+        Session,
+        SessionStore,
 
         HttpRequest,
         RpcInjectorContext,
@@ -153,6 +162,19 @@ export class FrameworkModule extends createModule({
 
         this.setupProvider<Logger>().addTransport(injectorReference(ConsoleTransport));
 
+        const brokerConfig = this.getImportedModuleByClass(BrokerModule).getConfig();
+        const rateLimitBroker = this.config.rateLimitStore === 'auto' ? this.config.workers > 0 || brokerConfig.startOnBootstrap : this.config.rateLimitStore === 'broker';
+        if (rateLimitBroker) {
+            //counters need to be shared, otherwise each worker has its own limit
+            this.setupGlobalProvider<RateLimiter>().useStore(injectorReference(BrokerRateLimitStore));
+        }
+
+        const sessionBroker = this.config.session.store === 'auto' ? this.config.workers > 0 || brokerConfig.startOnBootstrap : this.config.session.store === 'broker';
+        this.addProvider(sessionBroker ? { provide: SessionStore, useExisting: BrokerSessionStore } : { provide: SessionStore, useClass: MemorySessionStore });
+        if (this.config.session.secret) {
+            this.addListener(HttpSessionListener);
+        }
+
         if (this.config.debug) {
             mkdirSync(join(this.config.varPath, this.config.debugStorePath), { recursive: true });
 
@@ -219,6 +241,11 @@ export class FrameworkModule extends createModule({
         if (!rpcConfig) return;
 
         if (!module.isProvided(controller)) module.addProvider({ provide: controller, scope: 'rpc' });
+        for (const action of getActions(controller).keys()) {
+            for (const config of getActionMiddlewares(controller, action)) {
+                if (isClass(config.middleware) && !module.isProvided(config.middleware)) module.addProvider({ provide: config.middleware, scope: 'rpc' });
+            }
+        }
         if (this.rpcControllers.controllers.has(rpcConfig.getPath())) {
             throw new Error(`Already an RPC controller with the name ${rpcConfig.getPath()} registered.`);
         }
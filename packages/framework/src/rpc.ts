@@ -63,7 +63,7 @@ export class RpcServerActionWithStopwatch extends RpcServerAction {
 }
 
 export class RpcKernelConnectionWithStopwatch extends RpcKernelConnection {
-    protected actionHandler = new RpcServerActionWithStopwatch(this.controllers, this.injector, this.security, this.sessionState);
+    protected actionHandler = new RpcServerActionWithStopwatch(this.controllers, this.injector, this.security, this.sessionState, this.rateLimiter, () => this.clientAddress(), this.middlewares);
     stopwatch?: Stopwatch;
 
     setStopwatch(stopwatch: Stopwatch) {
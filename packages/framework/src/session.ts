@@ -8,6 +8,11 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { eventDispatcher } from '@deepkit/event';
+import { CookieOptions, httpWorkflow, parseCookies } from '@deepkit/http';
+import { FrameworkConfig } from './module.config';
+
 /**
  * This is the default session object, that can be used in your application.
  *
@@ -16,15 +21,16 @@
  * If you simply want to check whether a session exists (user has a valid authenticaton token/cookie), use
  * SessionHandler.
  *
- * If you need more fields, you can create your own Session class. Make sure to
- * annotate all fields using `@t` of @deepkit/type, since the whole object is serialized
- * in a session storage (either memory, local file system, or external databases like redis/mysql/etc).
+ * All fields are serialized into the SessionStore (memory, broker, or database), so values in `data`
+ * need to be serializable.
 */
 export class Session {
     data: { [name: string]: any } = {};
 
     createdAt: Date = new Date;
 
+    lastActivityAt: Date = new Date;
+
     groups: string[] = [];
 
     constructor(
@@ -38,12 +44,104 @@ export class Session {
     }
 }
 
+export interface SessionRecord {
+    id: string;
+    username?: string;
+    groups: string[];
+    data: { [name: string]: any };
+    createdAt: Date;
+    lastActivityAt: Date;
+}
+
+export function createSessionId(): string {
+    return randomBytes(24).toString('hex');
+}
+
+function sessionToRecord(session: Session): SessionRecord {
+    return {
+        id: session.id, username: session.username, groups: session.groups, data: session.data,
+        createdAt: session.createdAt, lastActivityAt: session.lastActivityAt,
+    };
+}
+
+function recordToSession(record: SessionRecord): Session {
+    const session = new Session(record.id, record.username);
+    session.groups = record.groups;
+    session.data = record.data;
+    session.createdAt = new Date(record.createdAt);
+    session.lastActivityAt = new Date(record.lastActivityAt);
+    return session;
+}
+
+/**
+ * Persists sessions. Use `{provide: SessionStore, useFactory: (db: MyDatabase) => new DatabaseSessionStore(db)}`
+ * to replace the store configured via `FrameworkConfig.session.store`.
+ */
+export abstract class SessionStore {
+    abstract load(id: string): Promise<SessionRecord | undefined>;
+
+    /**
+     * The ttl in seconds after which the store can remove the session. 0 keeps it forever.
+     */
+    abstract save(record: SessionRecord, ttl: number): Promise<void>;
+
+    abstract delete(id: string): Promise<void>;
+}
+
+/**
+ * Keeps sessions in the memory of the current process (worker).
+ */
+export class MemorySessionStore extends SessionStore {
+    protected sessions = new Map<string, { record: SessionRecord, expires: number }>();
+
+    async load(id: string): Promise<SessionRecord | undefined> {
+        const entry = this.sessions.get(id);
+        if (!entry) return;
+        if (entry.expires <= Date.now()) {
+            this.sessions.delete(id);
+            return;
+        }
+        return this.copy(entry.record);
+    }
+
+    /**
+     * Changes of a request's session must not be visible to other requests until saved.
+     */
+    protected copy(record: SessionRecord): SessionRecord {
+        return { ...record, groups: record.groups.slice(), data: JSON.parse(JSON.stringify(record.data)) };
+    }
+
+    async save(record: SessionRecord, ttl: number): Promise<void> {
+        this.sessions.set(record.id, { record: this.copy(record), expires: ttl ? Date.now() + ttl * 1000 : Infinity });
+    }
+
+    async delete(id: string): Promise<void> {
+        this.sessions.delete(id);
+    }
+
+    removeExpired() {
+        const now = Date.now();
+        for (const [id, entry] of this.sessions.entries()) {
+            if (entry.expires <= now) this.sessions.delete(id);
+        }
+    }
+}
+
 /**
+ * Gives access to the session of the current http request.
  *
+ * The session is loaded from the signed session cookie before `onAuth` listeners run, and saved
+ * (including the cookie) before the response is sent.
  */
 export class SessionHandler {
     protected session?: Session;
 
+    /**
+     * The id of a valid session cookie sent by the client.
+     */
+    protected cookieId?: string;
+    protected snapshot?: string;
+
     public setSession(session: Session | undefined) {
         this.session = session;
     }
@@ -63,4 +161,164 @@ export class SessionHandler {
 
         return this.session;
     }
+
+    public getOrCreateSession(): Session {
+        if (!this.session) this.session = new Session(createSessionId());
+        return this.session;
+    }
+
+    /**
+     * Replaces the session with a new id, keeping its data and groups. Call this on login (and
+     * privilege changes) so a session id known before the login can not be used afterwards.
+     */
+    public regenerate(username?: string): Session {
+        const previous = this.session;
+        this.session = new Session(createSessionId(), username);
+        if (previous) {
+            this.session.data = previous.data;
+            this.session.groups = previous.groups;
+        }
+        return this.session;
+    }
+
+    /**
+     * Removes the session from the store and the cookie from the client, e.g. on logout.
+     */
+    public destroy(): void {
+        this.session = undefined;
+    }
+
+    /**
+     * @internal
+     */
+    public setCookieId(id: string, session?: Session): void {
+        this.cookieId = id;
+        this.session = session;
+        this.snapshot = session ? this.getSnapshot(session) : undefined;
+    }
+
+    /**
+     * @internal
+     */
+    public getCookieId(): string | undefined {
+        return this.cookieId;
+    }
+
+    protected getSnapshot(session: Session): string {
+        return JSON.stringify([session.username, session.groups, session.data]);
+    }
+
+    public isModified(): boolean {
+        if (!this.session) return this.cookieId !== undefined;
+        return this.session.id !== this.cookieId || this.snapshot !== this.getSnapshot(this.session);
+    }
+}
+
+function sign(value: string, secret: string): string {
+    return createHmac('sha256', secret).update(value).digest('hex');
+}
+
+export function signSessionId(id: string, secret: string): string {
+    return id + '.' + sign(id, secret);
+}
+
+/**
+ * Returns the session id of a signed cookie value, or undefined if the signature is invalid.
+ */
+export function verifySessionId(value: string, secret: string): string | undefined {
+    const separator = value.lastIndexOf('.');
+    if (separator === -1) return;
+    const id = value.slice(0, separator);
+    const signature = Buffer.from(value.slice(separator + 1));
+    const expected = Buffer.from(sign(id, secret));
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return;
+    return id;
+}
+
+/**
+ * Sessions are saved again without changes only after this many seconds, so not every request writes to the store.
+ */
+const activityUpdateInterval = 60;
+
+/**
+ * Loads and saves sessions of http requests, see FrameworkConfig.session.
+ */
+export class HttpSessionListener {
+    constructor(
+        protected store: SessionStore,
+        protected config: FrameworkConfig['session'],
+    ) {
+    }
+
+    protected isExpired(record: SessionRecord, now: number): boolean {
+        if (this.config.idleTimeout && new Date(record.lastActivityAt).getTime() + this.config.idleTimeout * 1000 <= now) return true;
+        return !!this.config.absoluteTimeout && new Date(record.createdAt).getTime() + this.config.absoluteTimeout * 1000 <= now;
+    }
+
+    protected getTtl(session: Session, now: number): number {
+        const ttls: number[] = [];
+        if (this.config.idleTimeout) ttls.push(this.config.idleTimeout);
+        if (this.config.absoluteTimeout) ttls.push(Math.max(1, Math.ceil((session.createdAt.getTime() + this.config.absoluteTimeout * 1000 - now) / 1000)));
+        return ttls.length ? Math.min(...ttls) : 0;
+    }
+
+    protected getCookieOptions(): CookieOptions {
+        return {
+            path: this.config.cookiePath,
+            domain: this.config.cookieDomain,
+            secure: this.config.cookieSecure,
+            httpOnly: true,
+            sameSite: this.config.cookieSameSite,
+        };
+    }
+
+    /**
+     * Runs after CORS and rate limits, but before auth listeners.
+     */
+    @eventDispatcher.listen(httpWorkflow.onAuth, -40)
+    async onAuth(event: typeof httpWorkflow.onAuth.event) {
+        if (event.sent) return;
+        const value = parseCookies(event.request.headers.cookie)[this.config.cookieName];
+        if (!value) return;
+        const id = verifySessionId(value, this.config.secret);
+        if (!id) return;
+
+        const handler = event.injectorContext.get(SessionHandler);
+        const record = await this.store.load(id);
+        if (!record || this.isExpired(record, Date.now())) {
+            handler.setCookieId(id);
+            return;
+        }
+        handler.setCookieId(id, recordToSession(record));
+    }
+
+    /**
+     * Runs before the response is written, so the cookie can be set.
+     */
+    @eventDispatcher.listen(httpWorkflow.onResponse, 50)
+    async onResponse(event: typeof httpWorkflow.onResponse.event) {
+        const handler = event.injectorContext.get(SessionHandler);
+        const session = handler.getSessionOrUndefined();
+        const cookieId = handler.getCookieId();
+        const now = Date.now();
+
+        //destroyed, regenerated, or expired
+        if (cookieId && (!session || session.id !== cookieId)) await this.store.delete(cookieId);
+
+        if (!session) {
+            if (cookieId && !event.response.headersSent) event.response.clearCookie(this.config.cookieName, this.getCookieOptions());
+            return;
+        }
+
+        const interval = this.config.idleTimeout ? Math.min(activityUpdateInterval, this.config.idleTimeout / 2) : activityUpdateInterval;
+        if (!handler.isModified() && session.lastActivityAt.getTime() + interval * 1000 > now) return;
+        session.lastActivityAt = new Date(now);
+        await this.store.save(sessionToRecord(session), this.getTtl(session, now));
+
+        if (session.id !== cookieId && !event.response.headersSent) {
+            event.response.setCookie(this.config.cookieName, signSessionId(session.id, this.config.secret), {
+                ...this.getCookieOptions(), maxAge: this.config.absoluteTimeout || undefined
+            });
+        }
+    }
 }
@@ -20,10 +20,13 @@ import { HttpKernel, HttpRequest, HttpResponse } from '@deepkit/http';
 import { InjectorContext } from '@deepkit/injector';
 import { RpcControllers, RpcInjectorContext } from './rpc';
 import { SecureContextOptions, TlsOptions } from 'tls';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
 
 // @ts-ignore
 import { join } from 'path';
 import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
 import { LoggerInterface } from '@deepkit/logger';
 
 export interface WebServerOptions {
@@ -79,6 +82,16 @@ export interface WebServerOptions {
      * Should not be used in production.
      */
     selfSigned?: boolean;
+
+    /**
+     * When set, RPC clients can connect via HTTP long-polling (RpcHttpClient) at this path, additionally to WebSockets.
+     */
+    rpcHttpPath?: string;
+
+    /**
+     * Maximum size in bytes of a request body sent to `rpcHttpPath`. Larger bodies are rejected with 413.
+     */
+    maxPayload?: number;
 }
 
 
@@ -92,6 +105,12 @@ export interface RpcServerCreateConnection {
 
 export interface RpcServerOptions {
     server?: http.Server | https.Server;
+
+    /**
+     * Upgrade requests for which this returns false are left to other upgrade listeners of the server,
+     * e.g. `@http.WEBSOCKET` routes.
+     */
+    shouldHandle?: (request: HttpRequest) => boolean;
 }
 
 export interface RpcServerInterface {
@@ -102,7 +121,14 @@ export class RpcServer implements RpcServerInterface {
     start(options: RpcServerOptions, createRpcConnection: RpcServerCreateConnection): RpcServerListener {
         const { Server }: { Server: { new(options: WebSocketServerOptions): WebSocketServer } } = ws;
 
-        const server = new Server(options);
+        const server = new Server({ noServer: true });
+        let closed = false;
+        const onUpgrade = (req: HttpRequest, socket: Duplex, head: Buffer) => {
+            if (closed) return;
+            if (options.shouldHandle && !options.shouldHandle(req)) return;
+            server.handleUpgrade(req, socket as Socket, head, (ws) => server.emit('connection', ws, req));
+        };
+        if (options.server) options.server.on('upgrade', onUpgrade);
 
         server.on('connection', (ws, req: HttpRequest) => {
             const connection = createRpcConnection({
@@ -131,12 +157,224 @@ export class RpcServer implements RpcServerInterface {
 
         return {
             close() {
+                closed = true;
                 server.close();
             }
         };
     }
 }
 
+interface RpcHttpConnection {
+    id: string;
+    connection: RpcKernelBaseConnection;
+    queue: Uint8Array[];
+    poll?: HttpResponse;
+    pollTimer?: ReturnType<typeof setTimeout>;
+    expireTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Server side of RpcHttpClientAdapter. Each connection has an id assigned by `POST {path}`, outgoing messages
+ * are queued until the client polls them via `GET {path}?id={id}`.
+ */
+export class RpcHttpServer {
+    protected connections = new Map<string, RpcHttpConnection>();
+
+    /**
+     * Seconds a poll request is held open when there are no messages.
+     */
+    public pollTimeout: number = 25;
+
+    /**
+     * Seconds after which a connection is closed when the client has no poll request open.
+     */
+    public connectionTimeout: number = 30;
+
+    constructor(
+        public path: string,
+        protected createRpcConnection: RpcServerCreateConnection,
+        public maxPayload?: number,
+    ) {
+    }
+
+    handles(request: HttpRequest): boolean {
+        const url = request.url || '/';
+        const query = url.indexOf('?');
+        return (query === -1 ? url : url.slice(0, query)) === this.path;
+    }
+
+    async handle(request: HttpRequest, response: HttpResponse): Promise<void> {
+        let id: string | null;
+        try {
+            id = new URL(request.url || '/', 'http://localhost').searchParams.get('id');
+        } catch (error) {
+            return this.respond(response, 400);
+        }
+
+        if (!id) {
+            if (request.method !== 'POST') return this.respond(response, 405);
+            const connection = this.open(request);
+            response.writeHead(200, { 'content-type': 'application/json' });
+            response.end(JSON.stringify({ id: connection.id }));
+            return;
+        }
+
+        const connection = this.connections.get(id);
+        if (!connection) return this.respond(response, 404);
+
+        if (request.method === 'GET') {
+            this.poll(connection, response);
+        } else if (request.method === 'POST') {
+            const body = await this.readBody(request);
+            if (!body) return this.respond(response, 413);
+            this.touch(connection);
+            try {
+                connection.connection.feed(body);
+            } catch (error) {
+                return this.respond(response, 400);
+            }
+            this.respond(response, 204);
+        } else if (request.method === 'DELETE') {
+            this.remove(connection);
+            connection.connection.close();
+            this.respond(response, 204);
+        } else {
+            this.respond(response, 405);
+        }
+    }
+
+    protected respond(response: HttpResponse, status: number) {
+        response.writeHead(status);
+        response.end();
+    }
+
+    /**
+     * Resolves undefined as soon as the body exceeds maxPayload. The rest of the body is discarded.
+     */
+    protected readBody(request: HttpRequest): Promise<Buffer | undefined> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            let tooLarge = false;
+
+            request.on('data', (chunk: Buffer) => {
+                if (tooLarge) return;
+                size += chunk.byteLength;
+                if (this.maxPayload !== undefined && size > this.maxPayload) {
+                    tooLarge = true;
+                    chunks.length = 0;
+                    resolve(undefined);
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            request.on('end', () => resolve(tooLarge ? undefined : Buffer.concat(chunks)));
+            request.on('error', reject);
+        });
+    }
+
+    protected open(request: HttpRequest): RpcHttpConnection {
+        const id = randomBytes(16).toString('hex');
+        const queue: Uint8Array[] = [];
+        //set after the connection is created, messages written before are sent with the first poll
+        let entry: RpcHttpConnection | undefined;
+
+        const connection = this.createRpcConnection({
+            write: (buffer) => {
+                queue.push(buffer);
+                if (entry) this.flush(entry);
+            },
+            close: () => {
+                if (!entry) return;
+                //remaining messages are sent with the pending poll, the next poll gets a 404
+                this.flush(entry, true);
+                this.remove(entry);
+            },
+            bufferedAmount(): number {
+                let size = 0;
+                for (const buffer of queue) size += buffer.byteLength;
+                return size;
+            },
+            clientAddress(): string {
+                return request.getRemoteAddress();
+            }
+        }, request);
+
+        entry = { id, queue, connection };
+        this.connections.set(id, entry);
+        this.touch(entry);
+        return entry;
+    }
+
+    protected poll(connection: RpcHttpConnection, response: HttpResponse) {
+        //a new poll replaces the previous one
+        this.flush(connection, true);
+
+        connection.poll = response;
+        if (connection.expireTimer) clearTimeout(connection.expireTimer);
+        connection.expireTimer = undefined;
+
+        response.on('close', () => {
+            if (connection.poll !== response) return;
+            if (connection.pollTimer) clearTimeout(connection.pollTimer);
+            connection.poll = undefined;
+            this.touch(connection);
+        });
+
+        if (connection.queue.length) {
+            this.flush(connection);
+        } else {
+            connection.pollTimer = setTimeout(() => this.flush(connection, true), this.pollTimeout * 1000);
+        }
+    }
+
+    /**
+     * Sends queued messages with the pending poll request. When force is true, the poll is answered even without messages.
+     */
+    protected flush(connection: RpcHttpConnection, force: boolean = false) {
+        if (!connection.poll || (!force && !connection.queue.length)) return;
+        const response = connection.poll;
+        connection.poll = undefined;
+        if (connection.pollTimer) clearTimeout(connection.pollTimer);
+        connection.pollTimer = undefined;
+
+        const body = Buffer.concat(connection.queue);
+        connection.queue.length = 0;
+        response.writeHead(200, { 'content-type': 'application/octet-stream', 'cache-control': 'no-store' });
+        response.end(body);
+        this.touch(connection);
+    }
+
+    /**
+     * Starts the expiration of connections without pending poll request.
+     */
+    protected touch(connection: RpcHttpConnection) {
+        if (connection.expireTimer) clearTimeout(connection.expireTimer);
+        connection.expireTimer = undefined;
+        if (connection.poll || !this.connections.has(connection.id)) return;
+
+        connection.expireTimer = setTimeout(() => {
+            this.remove(connection);
+            connection.connection.close();
+        }, this.connectionTimeout * 1000);
+    }
+
+    protected remove(connection: RpcHttpConnection) {
+        this.connections.delete(connection.id);
+        if (connection.pollTimer) clearTimeout(connection.pollTimer);
+        if (connection.expireTimer) clearTimeout(connection.expireTimer);
+        connection.pollTimer = connection.expireTimer = undefined;
+    }
+
+    close() {
+        for (const connection of [...this.connections.values()]) {
+            this.flush(connection, true);
+            this.remove(connection);
+            connection.connection.close();
+        }
+    }
+}
+
 export class WebWorkerFactory {
     constructor(
         protected httpKernel: HttpKernel,
@@ -175,6 +413,7 @@ export function createRpcConnection(rootScopedContext: InjectorContext, rpcKerne
 
 export class WebWorker {
     protected rpcListener?: RpcServerListener;
+    protected rpcHttpServer?: RpcHttpServer;
     protected server?: http.Server | https.Server;
     protected servers?: https.Server;
 
@@ -192,7 +431,8 @@ export class WebWorker {
     start() {
         if (this.options.server) {
             this.server = this.options.server as Server;
-            this.server.on('request', this.httpKernel.handleRequest.bind(this.httpKernel));
+            this.server.on('request', this.onRequest);
+            this.server.on('upgrade', this.onUpgrade);
         } else {
             if (this.options.ssl) {
                 const options = this.options.sslOptions || {};
@@ -222,8 +462,9 @@ export class WebWorker {
 
                 this.servers = new https.Server(
                     Object.assign({ IncomingMessage: HttpRequest, ServerResponse: HttpResponse, }, options),
-                    this.httpKernel.handleRequest.bind(this.httpKernel) as any //as any necessary since http.Server is not typed correctly
+                    this.onRequest as any //as any necessary since http.Server is not typed correctly
                 );
+                this.servers.on('upgrade', this.onUpgrade);
                 this.servers.listen(this.options.httpsPort || this.options.port, this.options.host);
                 if (this.options.keepAliveTimeout) this.servers.keepAliveTimeout = this.options.keepAliveTimeout;
 
@@ -233,18 +474,47 @@ export class WebWorker {
             if (startHttpServer) {
                 this.server = new http.Server(
                     { IncomingMessage: HttpRequest, ServerResponse: HttpResponse },
-                    this.httpKernel.handleRequest.bind(this.httpKernel) as any //as any necessary since http.Server is not typed correctly
+                    this.onRequest as any //as any necessary since http.Server is not typed correctly
                 );
                 if (this.options.keepAliveTimeout) this.server.keepAliveTimeout = this.options.keepAliveTimeout;
+                this.server.on('upgrade', this.onUpgrade);
                 this.server.listen(this.options.port, this.options.host);
             }
         }
         this.startRpc();
     }
 
+    /**
+     * Requests to `rpcHttpPath` are handled by the RPC HTTP transport, all others by the http kernel.
+     */
+    protected onRequest = (request: HttpRequest, response: HttpResponse) => {
+        if (this.rpcHttpServer && this.rpcHttpServer.handles(request)) {
+            return this.rpcHttpServer.handle(request, response).catch((error) => {
+                this.logger.error('RPC HTTP request failed', error);
+                if (!response.headersSent) response.writeHead(500);
+                response.end();
+            });
+        }
+        return this.httpKernel.handleRequest(request, response);
+    };
+
+    /**
+     * Upgrade requests of `@http.WEBSOCKET` routes are handled by the http kernel, all others by the RPC server.
+     */
+    protected onUpgrade = (request: HttpRequest, socket: Duplex, head: Buffer) => {
+        if (this.httpKernel.isWebSocketRequest(request)) this.httpKernel.handleUpgrade(request, socket, head);
+    };
+
     private startRpc() {
+        if (this.options.rpcHttpPath) {
+            this.rpcHttpServer = new RpcHttpServer(this.options.rpcHttpPath, (writer: RpcConnectionWriter, request?: HttpRequest) => {
+                return createRpcConnection(this.injectorContext, this.rpcKernel, writer, request);
+            }, this.options.maxPayload);
+        }
+
         if (this.server) {
-            this.rpcListener = this.rpcServer.start({ server: this.server }, (writer: RpcConnectionWriter, request?: HttpRequest) => {
+            const shouldHandle = (request: HttpRequest) => !this.httpKernel.isWebSocketRequest(request);
+            this.rpcListener = this.rpcServer.start({ server: this.server, shouldHandle }, (writer: RpcConnectionWriter, request?: HttpRequest) => {
                 return createRpcConnection(this.injectorContext, this.rpcKernel, writer, request);
             });
         }
@@ -252,6 +522,7 @@ export class WebWorker {
 
     async close() {
         if (this.rpcListener) await this.rpcListener.close();
+        if (this.rpcHttpServer) this.rpcHttpServer.close();
         if (this.server) this.server.close();
         if (this.servers) this.servers.close();
     }
@@ -1,9 +1,12 @@
 import { BrokerKernel } from '@deepkit/broker';
 import { sleep } from '@deepkit/core';
+import { RateLimitBucket, RateLimiter } from '@deepkit/rate-limit';
 import { cast, entity, PrimaryKey, UUID, uuid } from '@deepkit/type';
 import { expect, test } from '@jest/globals';
 import { BehaviorSubject } from 'rxjs';
 import { DirectBroker, EntityChannelMessageType } from '../src/broker/broker';
+import { BrokerRateLimitStore } from '../src/broker/rate-limit-store';
+import { BrokerSessionStore } from '../src/broker/session-store';
 
 test('entity channel number', async () => {
     const kernel = new BrokerKernel();
@@ -86,3 +89,62 @@ test('entity channel uuid', async () => {
         });
     }
 });
+
+test('rate limit store', async () => {
+    const kernel = new BrokerKernel();
+    const limiter = new RateLimiter().useStore(new BrokerRateLimitStore(new DirectBroker(kernel)));
+    const start = 1_000_000_000_000;
+
+    {
+        const options = { window: 10, max: 2 };
+        expect(await limiter.hit('a', options, start)).toMatchObject({ allowed: true, remaining: 1 });
+        expect(await limiter.hit('a', options, start)).toMatchObject({ allowed: true, remaining: 0 });
+        expect(await limiter.hit('a', options, start)).toMatchObject({ allowed: false, retryAfter: 15 });
+        expect(await limiter.hit('a', options, start + 15000)).toMatchObject({ allowed: true });
+    }
+
+    {
+        const options = { window: 10, max: 2, strategy: 'token-bucket' as const };
+        const hits = await Promise.all([1, 2, 3].map(() => limiter.hit('b', options, start)));
+        expect(hits.map(v => v.allowed).sort()).toEqual([false, true, true]);
+    }
+});
+
+test('rate limit store counter ttl', async () => {
+    const broker = new DirectBroker(new BrokerKernel());
+    const store = new BrokerRateLimitStore(broker);
+
+    expect(await store.increment('a', 1, 10)).toBe(1);
+    expect(await store.increment('a', 1, 10)).toBe(2);
+    const ttl = await broker.key<number>('ratelimit:a').getTTL();
+    expect(ttl).toBeGreaterThan(9);
+    expect(ttl).toBeLessThanOrEqual(10);
+});
+
+test('rate limit store update attempts', async () => {
+    const broker = new DirectBroker(new BrokerKernel());
+    const store = new BrokerRateLimitStore(broker);
+    store.maxUpdateAttempts = 3;
+    const key = broker.key<RateLimitBucket>('ratelimit:a');
+    await key.set({ tokens: 0, time: 0 });
+
+    let attempts = 0;
+    await expect(store.update('a', () => {
+        attempts++;
+        //a concurrent update, so that compareAndSet fails
+        key.set({ tokens: attempts, time: attempts });
+        return { tokens: 1, time: 1 };
+    }, 10)).rejects.toThrow('could not be updated after 3 attempts');
+    expect(attempts).toBe(3);
+});
+
+test('session store', async () => {
+    const store = new BrokerSessionStore(new DirectBroker(new BrokerKernel()));
+    const record = { id: 'a', username: 'peter', groups: ['admin'], data: { count: 1 }, createdAt: new Date, lastActivityAt: new Date };
+
+    await store.save(record, 60);
+    expect(await store.load('a')).toEqual(record);
+
+    await store.delete('a');
+    expect(await store.load('a')).toBe(undefined);
+});
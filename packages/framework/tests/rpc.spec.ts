@@ -1,7 +1,13 @@
 import { expect, test } from '@jest/globals';
-import { ControllerSymbol, rpc, RpcKernelConnection, RpcKernelSecurity, Session, SessionState } from '@deepkit/rpc';
+import { ControllerSymbol, rpc, RpcClient, RpcHttpClientAdapter, RpcHttpFetch, RpcHttpFetchResponse, RpcKernelConnection, RpcKernelSecurity, Session, SessionState } from '@deepkit/rpc';
 import { createTestingApp } from '../src/testing';
-import { AppModule } from '@deepkit/app';
+import { App, AppModule } from '@deepkit/app';
+import { http, HttpRequest, HttpResponse } from '@deepkit/http';
+import { request, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Subject } from 'rxjs';
+import { FrameworkModule } from '../src/module';
+import { WebWorkerFactory } from '../src/worker';
 
 test('di', async () => {
     class MyService {
@@ -95,3 +101,91 @@ test('module provides RpcKernelSecurity', () => {
 
     expect(testing.app.get(RpcKernelSecurity)).toBeInstanceOf(MyRpcKernelSecurity);
 });
+
+/**
+ * Minimal fetch, since the test environment has none.
+ */
+const nodeFetch: RpcHttpFetch = (url, init = {}) => {
+    return new Promise<RpcHttpFetchResponse>((resolve, reject) => {
+        const req = request(url, { method: init.method || 'GET', headers: init.headers }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => {
+                const body = Buffer.concat(chunks);
+                const status = res.statusCode || 0;
+                resolve({
+                    ok: status >= 200 && status < 300,
+                    status,
+                    json: async () => JSON.parse(body.toString('utf8')),
+                    arrayBuffer: async () => body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength),
+                });
+            });
+        });
+        req.on('error', reject);
+        if (init.signal) init.signal.addEventListener('abort', () => req.destroy(new Error('aborted')));
+        req.end(init.body ? Buffer.from(init.body) : undefined);
+    });
+};
+
+test('http long-polling transport', async () => {
+    const subject = new Subject<string>();
+
+    @rpc.controller('test')
+    class Controller {
+        @rpc.action()
+        hello(name: string): string {
+            return 'hello ' + name;
+        }
+
+        @rpc.action()
+        messages(): Subject<string> {
+            return subject;
+        }
+    }
+
+    class HttpController {
+        @http.GET('/hello')
+        hello() {
+            return 'http';
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller, HttpController],
+        imports: [new FrameworkModule({ httpLog: false })]
+    });
+
+    const server = new Server({ IncomingMessage: HttpRequest, ServerResponse: HttpResponse } as any);
+    const worker = app.get(WebWorkerFactory).create(1, { host: '127.0.0.1', port: 0, varPath: 'var/', ssl: false, server, rpcHttpPath: '/rpc', maxPayload: 1024 });
+    worker.start();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+        //other requests are still handled by the http kernel
+        expect(await (await nodeFetch(url + '/hello')).json()).toBe('http');
+
+        const client = new RpcClient(new RpcHttpClientAdapter(url + '/rpc', nodeFetch));
+        const controller = client.controller<Controller>('test');
+        expect(await controller.hello('peter')).toBe('hello peter');
+
+        const messages = await controller.messages();
+        const received: string[] = [];
+        messages.subscribe(v => received.push(v));
+        subject.next('a');
+        subject.next('b');
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(received).toEqual(['a', 'b']);
+
+        expect((await nodeFetch(url + '/rpc?id=unknown')).status).toBe(404);
+
+        const { id } = await (await nodeFetch(url + '/rpc', { method: 'POST' })).json();
+        expect((await nodeFetch(url + '/rpc?id=' + id, { method: 'POST', body: new Uint8Array(2048) })).status).toBe(413);
+
+        client.disconnect();
+        expect(client.transporter.isConnected()).toBe(false);
+    } finally {
+        await worker.close();
+        server.close();
+    }
+});
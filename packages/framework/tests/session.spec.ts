@@ -0,0 +1,116 @@
+import { expect, test } from '@jest/globals';
+import { App } from '@deepkit/app';
+import { http, HttpKernel, HttpRequest, MemoryHttpResponse } from '@deepkit/http';
+import { Database, MemoryDatabaseAdapter } from '@deepkit/orm';
+import { FrameworkModule } from '../src/module';
+import { DatabaseSessionStore, SessionEntity } from '../src/database/session-store';
+import { createSessionId, Session, SessionHandler, SessionStore, signSessionId, verifySessionId } from '../src/session';
+
+test('signed session id', () => {
+    const id = createSessionId();
+    const value = signSessionId(id, 'secret');
+    expect(verifySessionId(value, 'secret')).toBe(id);
+    expect(verifySessionId(value, 'other')).toBe(undefined);
+    expect(verifySessionId(id + '.abc', 'secret')).toBe(undefined);
+    expect(verifySessionId(id, 'secret')).toBe(undefined);
+});
+
+function getCookie(response: MemoryHttpResponse): string | undefined {
+    const header = response.getHeader('set-cookie') as string[] | undefined;
+    if (!header) return;
+    return header[0].split(';')[0];
+}
+
+test('http session', async () => {
+    class Controller {
+        @http.GET('/count')
+        count(session: Session) {
+            session.data.count = (session.data.count || 0) + 1
+            return session.data.count;
+        }
+
+        @http.GET('/me')
+        me(handler: SessionHandler): { username?: string, count?: number } {
+            const session = handler.getSessionOrUndefined();
+            return session ? { username: session.username, count: session.data.count } : {};
+        }
+
+        @http.POST('/login')
+        login(handler: SessionHandler) {
+            handler.regenerate('peter');
+        }
+
+        @http.POST('/logout')
+        logout(handler: SessionHandler) {
+            handler.destroy();
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new FrameworkModule({ httpLog: false, session: { secret: 'secret', absoluteTimeout: 600 } })]
+    });
+    const httpKernel = app.get(HttpKernel);
+    const store = app.get(SessionStore);
+
+    expect((await httpKernel.request(HttpRequest.GET('/me'))).json).toEqual({});
+
+    const first = await httpKernel.request(HttpRequest.GET('/count'));
+    expect(first.json).toBe(1);
+    const cookie = getCookie(first)!;
+    expect(cookie).toMatch(/^deepkit-session=/);
+    expect((first.getHeader('set-cookie') as string[])[0]).toContain('Max-Age=600; Path=/; HttpOnly; SameSite=Lax');
+
+    const second = await httpKernel.request(HttpRequest.GET('/count').header('cookie', cookie));
+    expect(second.json).toBe(2);
+    //the id did not change, so no new cookie is sent
+    expect(getCookie(second)).toBe(undefined);
+    expect((await httpKernel.request(HttpRequest.GET('/me').header('cookie', cookie))).json).toMatchObject({ count: 2 });
+
+    //tampered cookies are ignored
+    expect((await httpKernel.request(HttpRequest.GET('/count').header('cookie', cookie.slice(0, -1) + (cookie.endsWith('a') ? 'b' : 'a')))).json).toBe(1);
+
+    //login regenerates the session id
+    const oldId = verifySessionId(decodeURIComponent(cookie.split('=')[1]), 'secret')!;
+    const login = await httpKernel.request(HttpRequest.POST('/login').header('cookie', cookie));
+    const loginCookie = getCookie(login)!;
+    expect(loginCookie).not.toBe(cookie);
+    expect(await store.load(oldId)).toBe(undefined);
+    expect((await httpKernel.request(HttpRequest.GET('/me').header('cookie', cookie))).json).toEqual({});
+    expect((await httpKernel.request(HttpRequest.GET('/me').header('cookie', loginCookie))).json).toMatchObject({ username: 'peter', count: 2 });
+
+    //idle expiration
+    const id = verifySessionId(decodeURIComponent(loginCookie.split('=')[1]), 'secret')!;
+    const record = (await store.load(id))!;
+    await store.save({ ...record, lastActivityAt: new Date(Date.now() - 1000 * 60 * 60 * 25) }, 60);
+    const expired = await httpKernel.request(HttpRequest.GET('/me').header('cookie', loginCookie));
+    expect(expired.json).toEqual({});
+    expect((expired.getHeader('set-cookie') as string[])[0]).toContain('Max-Age=0');
+    expect(await store.load(id)).toBe(undefined);
+
+    //logout
+    const logoutCookie = getCookie(await httpKernel.request(HttpRequest.POST('/login')))!;
+    const logout = await httpKernel.request(HttpRequest.POST('/logout').header('cookie', logoutCookie));
+    expect((logout.getHeader('set-cookie') as string[])[0]).toBe('deepkit-session=; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/; HttpOnly; SameSite=Lax');
+    expect((await httpKernel.request(HttpRequest.GET('/me').header('cookie', logoutCookie))).json).toEqual({});
+});
+
+test('database session store', async () => {
+    const store = new DatabaseSessionStore(new Database(new MemoryDatabaseAdapter, [SessionEntity]));
+    const record = { id: 'a', username: 'peter', groups: ['admin'], data: { count: 1 }, createdAt: new Date, lastActivityAt: new Date };
+
+    await store.save(record, 60);
+    expect(await store.load('a')).toEqual(record);
+
+    await store.save({ ...record, data: { count: 2 } }, 60);
+    expect((await store.load('a'))!.data).toEqual({ count: 2 });
+
+    await store.save({ ...record, id: 'b' }, 0);
+    await store.delete('a');
+    expect(await store.load('a')).toBe(undefined);
+    expect(await store.load('b')).toMatchObject({ id: 'b' });
+
+    await store.save({ ...record, id: 'c' }, -1);
+    expect(await store.load('c')).toBe(undefined);
+    expect(await store.load('b')).toMatchObject({ id: 'b' });
+});
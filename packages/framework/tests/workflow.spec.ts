@@ -0,0 +1,166 @@
+import { expect, jest, test } from '@jest/globals';
+import { App } from '@deepkit/app';
+import { Database, DatabasePersistence, MemoryDatabaseAdapter, UniqueConstraintFailure } from '@deepkit/orm';
+import { createWorkflow, WorkflowConflictError, WorkflowEvent } from '@deepkit/workflow';
+import { EventDispatcher, eventDispatcher } from '@deepkit/event';
+import { InjectorContext } from '@deepkit/injector';
+import { ReflectionClass } from '@deepkit/type';
+import { DatabaseWorkflowPersistence, WorkflowInstanceEntity, WorkflowTransitionEntity } from '../src/database/workflow-persistence';
+import { FrameworkModule } from '../src/module';
+
+class ShippedEvent extends WorkflowEvent {
+    trackingNumber: string = '';
+}
+
+const orderWorkflow = createWorkflow('order', {
+    created: WorkflowEvent,
+    paid: WorkflowEvent,
+    shipped: ShippedEvent,
+}, {
+    created: 'paid',
+    paid: 'shipped',
+});
+
+/**
+ * MemoryDatabaseAdapter doesn't enforce unique indexes. This one enforces the (workflow, instanceId) index
+ * of WorkflowInstanceEntity like SQL databases do.
+ */
+class UniqueMemoryDatabaseAdapter extends MemoryDatabaseAdapter {
+    createPersistence(): DatabasePersistence {
+        const persistence = super.createPersistence();
+        const insert = persistence.insert.bind(persistence);
+        persistence.insert = async (classSchema, items) => {
+            const existing = [...this.getStore<WorkflowInstanceEntity>(classSchema).items.values()];
+            for (const item of items) {
+                if (!(item instanceof WorkflowInstanceEntity)) continue;
+                if (existing.some(v => v.workflow === item.workflow && v.instanceId === item.instanceId)) throw new UniqueConstraintFailure();
+            }
+            return insert(classSchema, items);
+        };
+        return persistence;
+    }
+}
+
+test('database workflow persistence', async () => {
+    const database = new Database(new MemoryDatabaseAdapter(), [WorkflowInstanceEntity, WorkflowTransitionEntity]);
+    const persistence = new DatabaseWorkflowPersistence(database);
+
+    const w = await orderWorkflow.start(persistence, '1', 'created', new EventDispatcher(InjectorContext.forProviders([])));
+    await w.apply('paid');
+    await orderWorkflow.start(persistence, '2', 'created', new EventDispatcher(InjectorContext.forProviders([])));
+
+    const resumed = await orderWorkflow.resume(persistence, '1', new EventDispatcher(InjectorContext.forProviders([])));
+    expect(resumed.state.get()).toBe('paid');
+
+    const event = new ShippedEvent();
+    event.trackingNumber = 'abc';
+    await resumed.apply('shipped', event);
+
+    expect(await database.query(WorkflowInstanceEntity).count()).toBe(2);
+
+    const instance = await persistence.load('order', '1');
+    expect(instance!.state).toBe('shipped');
+    expect(instance!.history.map(v => v.to)).toEqual(['paid', 'shipped']);
+    expect(instance!.history[1].event).toEqual({ trackingNumber: 'abc' });
+
+    const instance2 = await persistence.load('order', '2');
+    expect(instance2!.state).toBe('created');
+    expect(instance2!.history).toEqual([]);
+});
+
+test('database workflow persistence duplicate start', async () => {
+    const database = new Database(new UniqueMemoryDatabaseAdapter(), [WorkflowInstanceEntity, WorkflowTransitionEntity]);
+    const persistence = new DatabaseWorkflowPersistence(database);
+    const dispatcher = new EventDispatcher(InjectorContext.forProviders([]));
+
+    //the database enforces uniqueness, so concurrent starts can't both insert
+    const index = ReflectionClass.from(WorkflowInstanceEntity).indexes.find(v => v.options.unique);
+    expect(index!.names).toEqual(['workflow', 'instanceId']);
+
+    const results = await Promise.all([
+        orderWorkflow.start(persistence, '1', 'created', dispatcher).then(() => 'started', (error) => error.message),
+        orderWorkflow.start(persistence, '1', 'created', dispatcher).then(() => 'started', (error) => error.message),
+    ]);
+    expect(results.sort()).toEqual(['Workflow order instance 1 already exists', 'started']);
+    expect(await database.query(WorkflowInstanceEntity).count()).toBe(1);
+});
+
+test('database workflow persistence concurrent transitions', async () => {
+    const database = new Database(new MemoryDatabaseAdapter(), [WorkflowInstanceEntity, WorkflowTransitionEntity]);
+    const persistence = new DatabaseWorkflowPersistence(database);
+    await orderWorkflow.start(persistence, '1', 'created', new EventDispatcher(InjectorContext.forProviders([])));
+
+    //two workers advancing the same instance
+    const worker1 = await orderWorkflow.resume(persistence, '1', new EventDispatcher(InjectorContext.forProviders([])));
+    const worker2 = await orderWorkflow.resume(persistence, '1', new EventDispatcher(InjectorContext.forProviders([])));
+
+    await worker1.apply('paid');
+    await expect(worker2.apply('paid')).rejects.toThrow(WorkflowConflictError);
+
+    const instance = await persistence.load('order', '1');
+    expect(instance!.state).toBe('paid');
+    expect(instance!.history.map(v => v.from + '->' + v.to)).toEqual(['created->paid']);
+    expect(await database.query(WorkflowTransitionEntity).count()).toBe(1);
+
+    //the instance can be advanced further once reloaded
+    const reloaded = await orderWorkflow.resume(persistence, '1', new EventDispatcher(InjectorContext.forProviders([])));
+    await reloaded.apply('shipped', new ShippedEvent());
+    expect((await persistence.load('order', '1'))!.history.length).toBe(2);
+});
+
+test('debug:workflow command', async () => {
+    class PaymentListener {
+        @eventDispatcher.listen(orderWorkflow.onPaid)
+        onPaid() {
+        }
+    }
+
+    const app = new App({
+        listeners: [PaymentListener],
+        workflows: [orderWorkflow],
+        imports: [new FrameworkModule()],
+    });
+
+    async function execute(argv: string[]): Promise<string> {
+        const output: string[] = [];
+        const write = jest.spyOn(process.stdout, 'write').mockImplementation((chunk: any) => {
+            output.push(String(chunk));
+            return true;
+        });
+        try {
+            expect(await app.execute(argv)).toBe(0);
+        } finally {
+            write.mockRestore();
+        }
+        return output.join('');
+    }
+
+    expect(await execute(['debug:workflow', 'order'])).toBe([
+        'stateDiagram-v2',
+        '    created --> paid',
+        '    paid --> shipped',
+        '',
+    ].join('\n'));
+
+    //places without listener are highlighted
+    expect(await execute(['debug:workflow', 'order', '--highlightUnhandled'])).toBe([
+        'stateDiagram-v2',
+        '    created --> paid',
+        '    paid --> shipped',
+        '    classDef highlighted fill:#f96',
+        '    class created,shipped highlighted',
+        '',
+    ].join('\n'));
+
+    expect(await execute(['debug:workflow', 'order', '--dot', '--highlightUnhandled'])).toBe([
+        'digraph "order" {',
+        '    rankdir=LR;',
+        '    "created" [style=filled, fillcolor="#ff9966"];',
+        '    "paid";',
+        '    "shipped" [style=filled, fillcolor="#ff9966"];',
+        '    "created" -> "paid";',
+        '    "paid" -> "shipped";',
+        '}',
+        '',
+    ].join('\n'));
+});
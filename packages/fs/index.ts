@@ -8,4 +8,9 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-export * from './src/fs.module'
+export * from './src/file';
+export * from './src/fs';
+export * from './src/fs.config';
+export * from './src/fs.module';
+export * from './src/storage';
+export * from './src/http';
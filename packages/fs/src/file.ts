@@ -0,0 +1,95 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { ClassType } from '@deepkit/core';
+import { cloneClass, entity, Index, PrimaryKey, ReflectionClass, UUID, uuid } from '@deepkit/type';
+
+export enum FileMode {
+    /**
+     * The content is stored by its md5, so files with the same content share it.
+     */
+    closed,
+
+    /**
+     * The content is stored by the file id and can be appended to via FS.stream().
+     */
+    streaming,
+}
+
+@entity.name('deepkit/file').collection('deepkit_files')
+export class DeepkitFile {
+    id: UUID & PrimaryKey = uuid();
+
+    version: number = 0;
+
+    mode: FileMode = FileMode.closed;
+
+    /**
+     * Undefined when the file is in streaming mode.
+     */
+    md5?: string;
+
+    size: number = 0;
+
+    created: Date = new Date;
+    updated: Date = new Date;
+
+    constructor(public path: string & Index) {
+    }
+
+    /**
+     * Returns the path with a leading slash.
+     */
+    getFullPath(): string {
+        return '/' + this.path.replace(/^\/+/, '');
+    }
+
+    getName(): string {
+        const path = this.getFullPath();
+        return path.substr(path.lastIndexOf('/') + 1);
+    }
+
+    /**
+     * Returns the directory with a trailing slash, e.g. `/images/` for `/images/logo.png`.
+     */
+    getDir(): string {
+        const path = this.getFullPath();
+        return path.substr(0, path.lastIndexOf('/') + 1);
+    }
+}
+
+/**
+ * The file entity FS works with. Use your own DeepkitFile subclass to store additional fields.
+ */
+export class FileType<T extends DeepkitFile> {
+    constructor(public readonly classType: ClassType<T>) {
+    }
+
+    getReflectionClass(): ReflectionClass<T> {
+        return ReflectionClass.from(this.classType);
+    }
+
+    /**
+     * Creates a copy of the file with a new id, optionally at a new path. The content is shared via its md5.
+     */
+    fork(file: T, newPath?: string): T {
+        const newFile = cloneClass(file);
+        newFile.id = uuid();
+        newFile.version = 0;
+        newFile.created = new Date;
+        newFile.updated = new Date;
+        if (newPath !== undefined) newFile.path = newPath;
+        return newFile;
+    }
+
+    static forDefault(): FileType<DeepkitFile> {
+        return new FileType(DeepkitFile);
+    }
+}
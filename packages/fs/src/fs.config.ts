@@ -8,6 +8,15 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
+import { FileStorageS3Options } from './storage';
+
 export class FsConfig {
+    /**
+     * Where file contents are stored. `local` uses storeDir, `s3` any S3 compatible object storage configured via s3.
+     */
+    storage: 'local' | 'memory' | 's3' = 'local';
+
     storeDir: string = '~.deepkit/data/files/';
+
+    s3: FileStorageS3Options = new FileStorageS3Options;
 }
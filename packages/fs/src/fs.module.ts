@@ -9,26 +9,30 @@
  */
 
 import { FsConfig } from './fs.config';
-import { Database, DatabaseAdapter } from '@deepkit/orm';
-import { AppModule } from '@deepkit/app';
-import { injectable } from '@deepkit/injector';
-import { DeepkitFile } from '@deepkit/framework-shared';
+import { createModule } from '@deepkit/app';
+import { FileType } from './file';
+import { FileStorageAdapter, FileStorageLocalAdapter, FileStorageMemoryAdapter, FileStorageS3Adapter } from './storage';
 
-@injectable
-export class FsModuleBootstrap {
-    constructor(database: Database<DatabaseAdapter>) {
-        database.registerEntity(DeepkitFile);
-    }
+export function createFileStorageAdapter(config: FsConfig): FileStorageAdapter {
+    if (config.storage === 'memory') return new FileStorageMemoryAdapter();
+    if (config.storage === 's3') return new FileStorageS3Adapter(config.s3);
+    return new FileStorageLocalAdapter(config.storeDir);
 }
 
-export const FSModule = new AppModule({
-    bootstrap: FsModuleBootstrap,
+/**
+ * Provides the FileStorageAdapter configured via FsConfig and the default FileType.
+ *
+ * DeepkitFile needs to be registered in your database, e.g. `new Database(adapter, [DeepkitFile])`.
+ */
+export class FSModule extends createModule({
+    config: FsConfig,
     providers: [
-        FsConfig,
-        Database,
+        { provide: FileStorageAdapter, useFactory: createFileStorageAdapter },
+        { provide: FileType, useValue: FileType.forDefault() },
     ],
     exports: [
-        FsConfig,
-        Database,
+        FileStorageAdapter,
+        FileType,
     ]
-}, 'fs');
+}, 'fs') {
+}
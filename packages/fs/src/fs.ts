@@ -8,19 +8,20 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-import { dirname, join } from 'path';
-import { appendFile, ensureDir, pathExists, readFile, remove, stat, unlink, writeFile } from 'fs-extra';
-import { AlreadyEncoded, DeepkitFile, FileMode, FileType, FilterQuery, StreamBehaviorSubject } from '@deepkit/framework-shared';
 import { eachKey, eachPair, ProcessLocker } from '@deepkit/core';
 import * as crypto from 'crypto';
-import { Database } from '@deepkit/orm';
-import { Exchange, inject, injectable, LiveDatabase } from '@deepkit/framework';
-import { ClassSchema, jsonSerializer, t } from '@deepkit/type';
+import { BrokerChannel, BrokerClient, BrokerKeyValue } from '@deepkit/broker';
+import { Database, FilterQuery } from '@deepkit/orm';
+import { StreamBehaviorSubject } from '@deepkit/rpc';
+import { getPartialSerializeFunction, serializer } from '@deepkit/type';
+import { DeepkitFile, FileMode, FileType } from './file';
+import { FileStorageAdapter, FileStorageLocalAdapter, FileStorageRange } from './storage';
+import { Readable, Writable } from 'stream';
 
 export type PartialFile = { id: string, path: string, mode: FileMode, md5?: string, version: number };
 
 export function getMd5(content: string | Buffer): string {
-    const buffer: Buffer = 'string' === typeof content ? new Buffer(content, 'utf8') : new Buffer(content);
+    const buffer: Buffer = 'string' === typeof content ? Buffer.from(content, 'utf8') : Buffer.from(content);
     const md5 = crypto.createHash('md5').update(buffer).digest('hex');
 
     if (!md5) {
@@ -30,29 +31,121 @@ export function getMd5(content: string | Buffer): string {
     return md5;
 }
 
-const FSCacheMessage = t.schema({
-    id: t.string.optional,
-    md5: t.string.optional,
-});
+interface FileMetaCache {
+    id?: string;
+    md5?: string;
+}
+
+/**
+ * Published to all subscribers of a file when its content changed.
+ */
+type FileChangeMessage = { type: 'set', version: number, path: string }
+    | { type: 'remove', path: string }
+    | { type: 'append', version: number, path: string, size: number, content: Uint8Array };
+
+/**
+ * Returned by FS.createWriteStream(). Writes the content into a temporary file of the storage while computing its md5,
+ * and registers the file when the stream ends. `file` is set when `finish` was emitted.
+ */
+export class FileWriteStream extends Writable {
+    public file?: PartialFile;
+
+    protected hash = crypto.createHash('md5');
+    protected size: number = 0;
+    protected target: Writable;
+
+    constructor(
+        protected storage: FileStorageAdapter,
+        protected tmpPath: string,
+        protected commit: (md5: string, size: number) => Promise<PartialFile>,
+    ) {
+        super();
+        this.target = storage.createWriteStream(tmpPath);
+        this.target.on('error', (error) => this.destroy(error));
+    }
+
+    _write(chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) {
+        this.hash.update(chunk);
+        this.size += chunk.byteLength;
+        this.target.write(chunk, callback);
+    }
+
+    _final(callback: (error?: Error | null) => void) {
+        this.target.end((error?: Error | null) => {
+            //a failed final write or flush leaves a truncated temporary file, which must not be registered
+            if (error) {
+                this.storage.remove(this.tmpPath).catch(() => undefined);
+                return callback(error);
+            }
+            this.commit(this.hash.digest('hex'), this.size).then((file) => {
+                this.file = file;
+                callback();
+            }, callback);
+        });
+    }
+
+    _destroy(error: Error | null, callback: (error?: Error | null) => void) {
+        if (error) {
+            this.target.destroy();
+            this.storage.remove(this.tmpPath).catch(() => undefined);
+        }
+        callback(error);
+    }
+}
 
-@injectable
+/**
+ * Stores files with their metadata in the database and their content in a FileStorageAdapter.
+ * Changes are published via the broker, so subscribe() works across processes.
+ *
+ * The file entity (DeepkitFile or the class of the FileType) needs to be registered in the database.
+ */
 export class FS<T extends DeepkitFile> {
     constructor(
         public readonly fileType: FileType<T>,
-        private exchange: Exchange,
+        private broker: BrokerClient,
         private database: Database,
-        private liveDatabase: LiveDatabase,
         private locker: ProcessLocker,
-        @inject('fs.dir') private fileDir: string /* .deepkit/data/files/ */,
+        private storage: FileStorageAdapter,
     ) {
     }
 
+    protected fileChannel(id: string): BrokerChannel<FileChangeMessage> {
+        return this.broker.channel<FileChangeMessage>('fs/file/' + id);
+    }
+
+    /**
+     * Receives the id of files created with the given path and fields.
+     */
+    protected creationChannel(path: string, fields: Partial<T>): BrokerChannel<string> {
+        return this.broker.channel<string>('fs/created/' + this.getCacheKey(path, fields));
+    }
+
+    protected metaCache(path: string, fields: Partial<T>): BrokerKeyValue<FileMetaCache> {
+        return this.broker.key<FileMetaCache>('fs/meta/' + this.getCacheKey(path, fields)) as BrokerKeyValue<FileMetaCache>;
+    }
+
+    protected getCacheKey(path: string, fields: Partial<T>): string {
+        const serialize = getPartialSerializeFunction(this.fileType.getReflectionClass().type, serializer.serializeRegistry);
+        return JSON.stringify(serialize({ path, ...fields }));
+    }
+
+    /**
+     * Stores all file contents in the given local directory.
+     */
     public setFileDir(dir: string) {
-        this.fileDir = dir;
+        this.storage = new FileStorageLocalAdapter(dir);
+    }
+
+    public setStorage(storage: FileStorageAdapter) {
+        this.storage = storage;
+    }
+
+    public getStorage(): FileStorageAdapter {
+        return this.storage;
     }
 
     public async removeAll(filter: FilterQuery<T>): Promise<boolean> {
-        const files = await this.database.query(this.fileType.classSchema).filter(filter).find();
+        const files = await this.database.query(this.fileType.classType).filter(filter).find();
         return this.removeFiles(files);
     }
 
@@ -78,29 +171,27 @@ export class FS<T extends DeepkitFile> {
                 //we need to check whether the file is used by others
                 md5ToCheckMap[file.md5] = 0;
             } else {
-                const split = this.getIdSplit(file.id);
-                const localPath = join(this.fileDir, 'streaming', split);
-                await remove(localPath);
+                await this.storage.remove(this.getStoragePathForId(file.id));
             }
 
             fileIds.push(file.id);
 
-            this.exchange.publishFile(file.id, {
+            await this.fileChannel(file.id).publish({
                 type: 'remove',
                 path: file.path
             });
         }
 
-        await this.database.query(this.fileType.classSchema).filter({
+        await this.database.query(this.fileType.classType).filter({
             $and: [{
                 id: { $in: fileIds }
             }]
         } as FilterQuery<T>).deleteMany();
 
         //find which md5s are still linked
-        const foundMd5s = await this.database.query(this.fileType.classSchema)
+        const foundMd5s = await this.database.query<DeepkitFile>(this.fileType.classType)
             .select('md5')
-            .filter({ md5: { $in: Object.keys(md5ToCheckMap) } } as FilterQuery<T>)
+            .filter({ md5: { $in: Object.keys(md5ToCheckMap) } })
             .find();
 
         //iterate over still linked md5 files, and remove missing ones
@@ -111,9 +202,8 @@ export class FS<T extends DeepkitFile> {
         const deletes: Promise<any>[] = [];
         for (const [k, v] of eachPair(md5ToCheckMap)) {
             if (v === 0) {
-                //no link for that md5 left, so delete file locally
-                const localPath = this.getLocalPathForMd5(k);
-                deletes.push(remove(localPath));
+                //no link for that md5 left, so delete its content
+                deletes.push(this.storage.remove(this.getStoragePathForMd5(k)));
             }
         }
 
@@ -124,15 +214,15 @@ export class FS<T extends DeepkitFile> {
     }
 
     public async ls(filter: FilterQuery<T>): Promise<T[]> {
-        return await this.database.query(this.fileType.classSchema).filter(filter).find();
+        return await this.database.query(this.fileType.classType).filter(filter).find();
     }
 
     public async findOne(path: string, filter: FilterQuery<T> = {}): Promise<T | undefined> {
-        return await this.database.query(this.fileType.classSchema).filter({ path: path, ...filter } as T).findOneOrUndefined();
+        return await this.database.query(this.fileType.classType).filter({ path: path, ...filter } as T).findOneOrUndefined();
     }
 
     public async registerFile(md5: string, path: string, fields: Partial<T> = {}): Promise<T> {
-        const file = await this.database.query(this.fileType.classSchema).filter({ md5: md5 } as T).findOneOrUndefined();
+        const file = await this.database.query(this.fileType.classType).filter({ md5: md5 } as T).findOneOrUndefined();
 
         if (!file) {
             throw new Error(`No file with '${md5}' found.`);
@@ -142,9 +232,7 @@ export class FS<T extends DeepkitFile> {
             throw new Error(`File ${file.id} has no md5 '${md5}'.`);
         }
 
-        const localPath = this.getLocalPathForMd5(file.md5!);
-
-        if (await pathExists(localPath)) {
+        if (await this.storage.exists(this.getStoragePathForMd5(file.md5!))) {
             const newFile = this.fileType.fork(file, path);
             for (const i of eachKey(fields)) {
                 (newFile as any)[i] = (fields as any)[i];
@@ -157,15 +245,14 @@ export class FS<T extends DeepkitFile> {
     }
 
     public async hasMd5InDb(md5: string): Promise<boolean> {
-        return await this.database.query(this.fileType.classSchema).filter({ md5 } as FilterQuery<T>).has();
+        return await this.database.query(this.fileType.classType).filter({ md5 } as FilterQuery<T>).has();
     }
 
     public async hasMd5(md5: string) {
-        const file = await this.database.query(this.fileType.classSchema).filter({ md5: md5 } as FilterQuery<T>).findOneOrUndefined();
+        const file = await this.database.query(this.fileType.classType).filter({ md5: md5 } as FilterQuery<T>).findOneOrUndefined();
 
         if (file && file.md5) {
-            const localPath = this.getLocalPathForMd5(md5);
-            return await pathExists(localPath);
+            return await this.storage.exists(this.getStoragePathForMd5(md5));
         }
 
         return false;
@@ -179,19 +266,17 @@ export class FS<T extends DeepkitFile> {
             return;
         }
 
-        return new Promise<Buffer | undefined>(async (resolve, reject) => {
-            const localPath = this.getLocalPath(file);
-            if (await pathExists(localPath)) {
-                readFile(localPath, (err, data: Buffer) => {
-                    if (err) {
-                        reject(err);
-                    }
-                    resolve(data);
-                });
-            } else {
-                resolve(undefined);
-            }
-        });
+        return await this.storage.read(this.getStoragePath(file));
+    }
+
+    /**
+     * Streams the content of a file. Range positions are inclusive.
+     */
+    public async createReadStream(path: string, range: FileStorageRange = {}, filter?: FilterQuery<T>): Promise<Readable | undefined> {
+        const file = await this.findOne(path, filter || {});
+        if (!file) return;
+
+        return await this.storage.createReadStream(this.getStoragePath(file), range);
     }
 
     public getMd5Split(md5: string) {
@@ -202,89 +287,109 @@ export class FS<T extends DeepkitFile> {
         return id.substr(0, 8) + '/' + id.substr(9, 9) + '/' + id.substr(19);
     }
 
-    public getLocalPathForMd5(md5: string): string {
+    /**
+     * Path of the content within the FileStorageAdapter.
+     */
+    public getStoragePathForMd5(md5: string): string {
         if (!md5) {
             console.error('md5', md5);
             throw new Error('No md5 given.');
         }
 
-        return join(this.fileDir, 'closed', this.getMd5Split(md5));
+        return 'closed/' + this.getMd5Split(md5);
     }
 
-    public getLocalPathForId(id: string): string {
-        return join(this.fileDir, 'streaming', this.getIdSplit(id));
+    public getStoragePathForId(id: string): string {
+        return 'streaming/' + this.getIdSplit(id);
     }
 
-    public getLocalPath(file: PartialFile) {
+    public getStoragePath(file: PartialFile) {
         if (file.mode === FileMode.closed) {
             if (!file.md5) {
                 throw new Error(`Closed file has no md5 value: ${file.id} ${file.path}`);
             }
-            return this.getLocalPathForMd5(file.md5);
+            return this.getStoragePathForMd5(file.md5);
         }
 
         if (!file.id) {
             throw new Error(`File has no id ${file.path}`);
         }
 
-        return this.getLocalPathForId(file.id);
+        return this.getStoragePathForId(file.id);
     }
 
     /**
      * Adds a new file or updates an existing one.
      */
     public async write(path: string, data: string | Buffer, fields: Partial<T> = {}): Promise<PartialFile> {
-        let version = await this.exchange.version();
-        const meta = await this.getFileMetaCache(path, fields);
-
         if ('string' === typeof data) {
             data = Buffer.from(data, 'utf8');
         }
 
-        const newMd5 = getMd5(data);
+        const content = data;
+        return this.writeContent(path, getMd5(content), content.byteLength, fields, storagePath => this.storage.write(storagePath, content));
+    }
+
+    /**
+     * Adds a new file or updates an existing one by streaming its content, without holding it completely in memory.
+     * The md5 is computed while writing and the file is registered once the returned stream emitted `finish`.
+     */
+    public createWriteStream(path: string, fields: Partial<T> = {}): FileWriteStream {
+        const tmpPath = 'tmp/' + crypto.randomBytes(16).toString('hex');
+
+        return new FileWriteStream(this.storage, tmpPath, (md5, size) => this.writeContent(path, md5, size, fields, async (storagePath) => {
+            if (await this.storage.exists(storagePath)) {
+                //same content is already stored
+                await this.storage.remove(tmpPath);
+            } else {
+                await this.storage.move(tmpPath, storagePath);
+            }
+        }));
+    }
+
+    protected async writeContent(
+        path: string, newMd5: string, size: number, fields: Partial<T>,
+        store: (storagePath: string) => Promise<void>
+    ): Promise<PartialFile> {
+        let version = await this.broker.increment('fs/version');
+        const meta = await this.getFileMetaCache(path, fields);
 
         if (!meta.id) {
             const file = new this.fileType.classType(path);
-            file.md5 = getMd5(data);
+            file.md5 = newMd5;
             for (const i of eachKey(fields)) {
                 (file as any)[i] = (fields as any)[i];
             }
-            file.size = data.byteLength;
+            file.size = size;
             meta.id = file.id;
             version = 0;
             await this.database.persist(file);
+            await this.creationChannel(path, fields).publish(file.id);
         } else {
             //when md5 changes, it's important to move
             //the local file as well, since local path is based on md5.
             //when there is still an file with that md5 in the database, do not remove the old one.
             if (meta.md5 && meta.md5 !== newMd5) {
-                await this.database.query(this.fileType.classSchema as any as ClassSchema<DeepkitFile>).filter({ id: meta.id }).patchOne({ md5: newMd5, size: data.byteLength });
+                await this.database.query<DeepkitFile>(this.fileType.classType).filter({ id: meta.id }).patchOne({ md5: newMd5, size });
                 await this.refreshFileMetaCache(path, fields, meta.id, newMd5);
 
-                //we need to check whether the local file needs to be removed
+                //we need to check whether the stored content needs to be removed
                 if (!await this.hasMd5InDb(meta.md5)) {
-                    //there's no db-file anymore linking using this local file, so remove it
-                    const localPath = this.getLocalPathForMd5(meta.md5);
-                    if (await pathExists(localPath)) {
-                        try {
-                            await unlink(localPath);
-                        } catch (e) {
-                            //Race condition could happen, but we don't care really.
-                        }
+                    //there's no db-file anymore linking using this content, so remove it
+                    try {
+                        await this.storage.remove(this.getStoragePathForMd5(meta.md5));
+                    } catch (e) {
+                        //Race condition could happen, but we don't care really.
                     }
                 }
             }
         }
 
-        const localPath = this.getLocalPathForMd5(newMd5);
-        const localDir = dirname(localPath);
-        await ensureDir(localDir);
-
         const lock = await this.locker.acquireLock('file:' + path);
         try {
-            await writeFile(localPath, data);
+            await store(this.getStoragePathForMd5(newMd5));
 
-            this.exchange.publishFile(meta.id, {
+            await this.fileChannel(meta.id!).publish({
                 type: 'set',
                 version: version,
                 path: path,
@@ -303,20 +408,14 @@ export class FS<T extends DeepkitFile> {
     }
 
     public async refreshFileMetaCache(path: string, fields: Partial<T> = {}, id: string, md5?: string) {
-        const filter = { path, ...fields };
-        const cacheKey = JSON.stringify(jsonSerializer.for(this.fileType.classSchema).partialSerialize(filter));
-
-        await this.exchange.set('file-meta/' + cacheKey, FSCacheMessage, { id, md5 });
+        await this.metaCache(path, fields).set({ id, md5 });
     }
 
-    public async getFileMetaCache(path: string, fields: Partial<T> = {}): Promise<{ id?: string, md5?: string }> {
-        const filter = { path, ...fields };
-        const cacheKey = JSON.stringify(jsonSerializer.for(this.fileType.classSchema).partialSerialize(filter));
-
-        const fromCache = await this.exchange.get('file-meta/' + cacheKey, FSCacheMessage);
+    public async getFileMetaCache(path: string, fields: Partial<T> = {}): Promise<FileMetaCache> {
+        const fromCache = await this.metaCache(path, fields).getOrUndefined();
         if (fromCache) return fromCache;
 
-        const item = await this.database.query(this.fileType.classSchema).filter({ path, ...fields }).findOneOrUndefined();
+        const item = await this.database.query(this.fileType.classType).filter({ path, ...fields }).findOneOrUndefined();
         if (item) {
             await this.refreshFileMetaCache(path, fields, item.id, item.md5);
             return { id: item.id, md5: item.md5 };
@@ -326,7 +425,7 @@ export class FS<T extends DeepkitFile> {
     }
 
     /**
-     * Streams content by always appending data to the file's content and publishes the data to the exchange change feed.
+     * Streams content by always appending data to the file's content and publishes the data to the subscribers via the broker.
      */
     public async stream(
         path: string,
@@ -338,7 +437,7 @@ export class FS<T extends DeepkitFile> {
         } = {}
     ) {
         const lock = await this.locker.acquireLock('file:' + path);
-        let version = await this.exchange.version();
+        let version = await this.broker.increment('fs/version');
         const meta = await this.getFileMetaCache(path, fields);
 
         try {
@@ -354,37 +453,31 @@ export class FS<T extends DeepkitFile> {
                 version = 0;
             }
 
-            const localPath = this.getLocalPathForId(meta.id!);
+            const storagePath = this.getStoragePathForId(meta.id!);
+            const size = await this.storage.append(storagePath, data);
 
-            const localDir = dirname(localPath);
-            if (!await pathExists(localDir)) {
-                await ensureDir(localDir);
-            }
-
-            await appendFile(localPath, data);
-            const stats = await stat(localPath);
-
-            if (options.cropSizeAt && options.cropSizeAtTo && stats.size > options.cropSizeAt) {
+            if (options.cropSizeAt && options.cropSizeAtTo && size > options.cropSizeAt) {
                 if (options.cropSizeAtTo >= options.cropSizeAt) {
                     throw new Error('cropSizeAtTo is not allowed to be bigger than cropSizeAt.');
                 }
-                const content = await readFile(localPath);
-                await writeFile(localPath, content.slice(stats.size - options.cropSizeAtTo));
+                const content = await this.storage.read(storagePath);
+                if (content) await this.storage.write(storagePath, content.slice(size - options.cropSizeAtTo));
             }
 
             if (file) {
                 //when a subscribes is listening to this file,
                 //we publish this only when the file is written to disk.
                 await this.database.persist(file);
+                await this.creationChannel(path, fields).publish(file.id);
                 this.refreshFileMetaCache(path, fields, meta.id!, undefined).catch(console.error);
             }
 
-            await this.exchange.publishFile(meta.id!, {
+            await this.fileChannel(meta.id!).publish({
                 type: 'append',
                 version: version,
                 path: path,
-                size: stats.size,
-                content: data.toString('base64'),
+                size: size,
+                content: data,
             });
         } finally {
             await lock.unlock();
@@ -396,7 +489,7 @@ export class FS<T extends DeepkitFile> {
 
         const file = await this.findOne(path, fields);
 
-        const streamContent = async (id: string | number) => {
+        const streamContent = async (id: string) => {
             //it's important to stop writing/appending when we read initially the file
             //and then subscribe, otherwise we are hit by a race condition where it can happen
             //that we get older subscribeFile messages
@@ -414,7 +507,7 @@ export class FS<T extends DeepkitFile> {
 
                 //it's important that this callback is called right after we returned the subject,
                 //and subscribed to the subject, otherwise append won't work correctly and might be hit by a race-condition.
-                const exchangeSubscription = await this.exchange.subscribeFile(id, async (message) => {
+                const fileSubscription = await this.fileChannel(id).subscribe(async (message) => {
                     if (message.type === 'set') {
                         const data = await this.read(path, fields);
                         subject.next(data);
@@ -423,17 +516,14 @@ export class FS<T extends DeepkitFile> {
                         //this means we could track to avoid race conditions, but for the moment we use a lock.
                         //lock is acquired in stream() and makes sure we don't get file appends during
                         //reading and subscribing
-                        //ConnectionMiddleware converts AlreadyEncoded correct: Meaning it doesnt touch it
-                        subject.append(new AlreadyEncoded('Uint8Array', message.content) as any);
+                        subject.append(message.content);
                     } else if (message.type === 'remove') {
                         subject.next(undefined);
                     }
                 });
 
                 subject.addTearDown(() => {
-                    if (exchangeSubscription) {
-                        exchangeSubscription.unsubscribe();
-                    }
+                    fileSubscription.unsubscribe().catch(console.error);
                 });
 
             } finally {
@@ -446,17 +536,14 @@ export class FS<T extends DeepkitFile> {
         } else {
             subject.next(undefined);
 
-            const sub = this.liveDatabase.query(this.fileType.classSchema).filter({
-                path: path,
-                ...fields
-            }).onCreation().subscribe((id) => {
+            const sub = await this.creationChannel(path, fields).subscribe((id) => {
                 if (!subject.isStopped) {
-                    streamContent(id);
+                    streamContent(id).catch(console.error);
                 }
             });
 
             subject.addTearDown(() => {
-                if (sub) sub.unsubscribe();
+                sub.unsubscribe().catch(console.error);
             });
         }
 
@@ -0,0 +1,145 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { HttpRequest, HttpResponse } from '@deepkit/http';
+import { FilterQuery } from '@deepkit/orm';
+import { OutgoingHttpHeaders } from 'http';
+import { pipeline } from 'stream';
+import { promisify } from 'util';
+import { DeepkitFile } from './file';
+import { FS } from './fs';
+import { FileStorageRange } from './storage';
+
+const pipelinePromise = promisify(pipeline);
+
+export interface ServeFileOptions<T extends DeepkitFile> {
+    filter?: FilterQuery<T>;
+
+    /**
+     * Default is application/octet-stream.
+     */
+    contentType?: string;
+
+    cacheControl?: string;
+}
+
+/**
+ * Parses a `Range: bytes=start-end` header. Returns undefined when the header is invalid or unsupported (multiple ranges),
+ * in which case the whole file should be served, and false when the range is not satisfiable.
+ */
+export function parseRangeHeader(header: string, size: number): Required<FileStorageRange> | undefined | false {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (match[1] === '' && match[2] === '')) return;
+
+    let start: number;
+    let end: number;
+    if (match[1] === '') {
+        //suffix range: the last n bytes
+        start = Math.max(0, size - Number(match[2]));
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+    }
+
+    if (start > end || start >= size) return false;
+    return { start, end };
+}
+
+/**
+ * Returns true when the If-None-Match header contains the given (quoted) etag.
+ */
+export function isETagMatching(ifNoneMatch: string | undefined, etag: string): boolean {
+    if (!ifNoneMatch) return false;
+    if (ifNoneMatch.trim() === '*') return true;
+    return ifNoneMatch.split(',').some(v => v.trim().replace(/^W\//, '') === etag);
+}
+
+/**
+ * Streams a file of FS as HTTP response, with support for `Range` (single range) and `If-None-Match` requests.
+ *
+ * ```typescript
+ * class FileController {
+ *     constructor(protected fs: FS<DeepkitFile>) {}
+ *
+ *     @http.GET('/files/:path')
+ *     download(path: string, request: HttpRequest, response: HttpResponse) {
+ *         return serveFile(this.fs, path, request, response);
+ *     }
+ * }
+ * ```
+ */
+export async function serveFile<T extends DeepkitFile>(
+    fs: FS<T>,
+    path: string,
+    request: HttpRequest,
+    response: HttpResponse,
+    options: ServeFileOptions<T> = {}
+): Promise<HttpResponse> {
+    const file = await fs.findOne(path, options.filter || {});
+    const storagePath = file ? fs.getStoragePath(file) : undefined;
+    const size = storagePath ? await fs.getStorage().size(storagePath) : undefined;
+
+    if (!file || !storagePath || size === undefined) {
+        response.writeHead(404);
+        response.end();
+        return response;
+    }
+
+    const headers: OutgoingHttpHeaders = {
+        'Accept-Ranges': 'bytes',
+        'Content-Type': options.contentType || 'application/octet-stream',
+    };
+    if (options.cacheControl) headers['Cache-Control'] = options.cacheControl;
+
+    //only closed files have a stable content hash, streaming files change with each append
+    if (file.md5) {
+        headers['ETag'] = `"${file.md5}"`;
+        if (isETagMatching(request.headers['if-none-match'], headers['ETag'])) {
+            response.writeHead(304, headers);
+            response.end();
+            return response;
+        }
+    }
+
+    let range: Required<FileStorageRange> | undefined;
+    if (request.headers.range) {
+        const parsed = parseRangeHeader(request.headers.range, size);
+        if (parsed === false) {
+            response.writeHead(416, { 'Content-Range': `bytes */${size}` });
+            response.end();
+            return response;
+        }
+        range = parsed;
+    }
+
+    if (range) {
+        headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+        headers['Content-Length'] = range.end - range.start + 1;
+        response.writeHead(206, headers);
+    } else {
+        headers['Content-Length'] = size;
+        response.writeHead(200, headers);
+    }
+
+    if (request.method === 'HEAD' || size === 0) {
+        response.end();
+        return response;
+    }
+
+    const stream = await fs.getStorage().createReadStream(storagePath, range);
+    if (!stream) {
+        response.end();
+        return response;
+    }
+
+    await pipelinePromise(stream, response);
+    return response;
+}
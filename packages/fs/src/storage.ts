@@ -0,0 +1,484 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { dirname, join } from 'path';
+import { appendFile, createReadStream, createWriteStream, ensureDir, ensureDirSync, move, pathExists, readFile, remove, stat, writeFile } from 'fs-extra';
+import { createHash, createHmac } from 'crypto';
+import { CustomError } from '@deepkit/core';
+import { IncomingHttpHeaders, IncomingMessage, OutgoingHttpHeaders, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { Readable, Writable } from 'stream';
+
+/**
+ * Byte range of a read stream. Both positions are inclusive, like in HTTP Range headers.
+ */
+export interface FileStorageRange {
+    start?: number;
+    end?: number;
+}
+
+/**
+ * Stores the file contents of FS. Paths are relative, slash separated keys like `closed/ab/cd/ef...`.
+ */
+export abstract class FileStorageAdapter {
+    abstract exists(path: string): Promise<boolean>;
+
+    /**
+     * Returns undefined when the file does not exist.
+     */
+    abstract read(path: string): Promise<Buffer | undefined>;
+
+    abstract write(path: string, data: Buffer): Promise<void>;
+
+    /**
+     * Appends data to the file (creates it if necessary) and returns the new size.
+     */
+    abstract append(path: string, data: Buffer): Promise<number>;
+
+    abstract remove(path: string): Promise<void>;
+
+    /**
+     * Returns the size in bytes or undefined when the file does not exist.
+     */
+    abstract size(path: string): Promise<number | undefined>;
+
+    /**
+     * Moves a file, overwriting the target.
+     */
+    abstract move(from: string, to: string): Promise<void>;
+
+    /**
+     * Returns undefined when the file does not exist.
+     */
+    abstract createReadStream(path: string, range?: FileStorageRange): Promise<Readable | undefined>;
+
+    /**
+     * The file is completely written when the stream emitted `finish`.
+     */
+    abstract createWriteStream(path: string): Writable;
+}
+
+export class FileStorageLocalAdapter extends FileStorageAdapter {
+    constructor(public readonly dir: string) {
+        super();
+    }
+
+    getLocalPath(path: string): string {
+        return join(this.dir, path);
+    }
+
+    async exists(path: string): Promise<boolean> {
+        return await pathExists(this.getLocalPath(path));
+    }
+
+    async read(path: string): Promise<Buffer | undefined> {
+        const localPath = this.getLocalPath(path);
+        if (!await pathExists(localPath)) return;
+        return await readFile(localPath);
+    }
+
+    async write(path: string, data: Buffer): Promise<void> {
+        const localPath = this.getLocalPath(path);
+        await ensureDir(dirname(localPath));
+        await writeFile(localPath, data);
+    }
+
+    async append(path: string, data: Buffer): Promise<number> {
+        const localPath = this.getLocalPath(path);
+        await ensureDir(dirname(localPath));
+        await appendFile(localPath, data);
+        return (await stat(localPath)).size;
+    }
+
+    async remove(path: string): Promise<void> {
+        await remove(this.getLocalPath(path));
+    }
+
+    async size(path: string): Promise<number | undefined> {
+        const localPath = this.getLocalPath(path);
+        if (!await pathExists(localPath)) return;
+        return (await stat(localPath)).size;
+    }
+
+    async move(from: string, to: string): Promise<void> {
+        await move(this.getLocalPath(from), this.getLocalPath(to), { overwrite: true });
+    }
+
+    async createReadStream(path: string, range: FileStorageRange = {}): Promise<Readable | undefined> {
+        const localPath = this.getLocalPath(path);
+        if (!await pathExists(localPath)) return;
+        return createReadStream(localPath, { start: range.start, end: range.end });
+    }
+
+    createWriteStream(path: string): Writable {
+        const localPath = this.getLocalPath(path);
+        ensureDirSync(dirname(localPath));
+        return createWriteStream(localPath);
+    }
+}
+
+export class FileStorageMemoryAdapter extends FileStorageAdapter {
+    public files = new Map<string, Buffer>();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async read(path: string): Promise<Buffer | undefined> {
+        return this.files.get(path);
+    }
+
+    async write(path: string, data: Buffer): Promise<void> {
+        this.files.set(path, Buffer.from(data));
+    }
+
+    async append(path: string, data: Buffer): Promise<number> {
+        const existing = this.files.get(path);
+        const content = existing ? Buffer.concat([existing, data]) : Buffer.from(data);
+        this.files.set(path, content);
+        return content.byteLength;
+    }
+
+    async remove(path: string): Promise<void> {
+        this.files.delete(path);
+    }
+
+    async size(path: string): Promise<number | undefined> {
+        return this.files.get(path)?.byteLength;
+    }
+
+    async move(from: string, to: string): Promise<void> {
+        const content = this.files.get(from);
+        if (!content) throw new Error(`File ${from} does not exist`);
+        this.files.set(to, content);
+        this.files.delete(from);
+    }
+
+    async createReadStream(path: string, range: FileStorageRange = {}): Promise<Readable | undefined> {
+        const content = this.files.get(path);
+        if (!content) return;
+        const end = range.end === undefined ? content.byteLength : range.end + 1;
+        return Readable.from([content.slice(range.start || 0, end)]);
+    }
+
+    createWriteStream(path: string): Writable {
+        this.files.set(path, Buffer.alloc(0));
+        return new Writable({
+            write: (chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) => {
+                this.append(path, chunk).then(() => callback(), callback);
+            }
+        });
+    }
+}
+
+export class FileStorageS3Options {
+    /**
+     * Base url of the S3 API, e.g. `https://s3.eu-central-1.amazonaws.com` or `http://localhost:9000` for MinIO.
+     */
+    endpoint: string = 'https://s3.amazonaws.com';
+    region: string = 'us-east-1';
+    bucket: string = '';
+    accessKeyId: string = '';
+    secretAccessKey: string = '';
+
+    /**
+     * Prepended to all object keys, e.g. `files/`.
+     */
+    prefix: string = '';
+
+    /**
+     * Write streams are uploaded with a multipart upload in parts of this size (in bytes), so only one part is kept in memory.
+     * S3 requires at least 5 MB.
+     */
+    partSize: number = 5 * 1024 * 1024;
+}
+
+export class FileStorageS3Error extends CustomError {
+}
+
+function sha256(data: string | Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data).digest();
+}
+
+function readBody(response: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve(Buffer.concat(chunks)));
+        response.on('error', reject);
+    });
+}
+
+function encodeS3(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+/**
+ * Returns the query string with parameters sorted by name, as required by signature version 4.
+ */
+function getS3QueryString(query: { [name: string]: string }): string {
+    return Object.keys(query).sort().map(v => encodeS3(v) + '=' + encodeS3(query[v])).join('&');
+}
+
+/**
+ * Returns the `Authorization` header value of a request signed with AWS signature version 4.
+ * All given headers are signed, their names have to be lower case.
+ *
+ * @param amzDate The `x-amz-date` of the request, e.g. `20130524T000000Z`.
+ */
+export function getS3Authorization(
+    options: Pick<FileStorageS3Options, 'accessKeyId' | 'secretAccessKey' | 'region'>,
+    method: string, uri: string, query: { [name: string]: string }, headers: { [name: string]: string }, payloadHash: string, amzDate: string
+): string {
+    const dateStamp = amzDate.substr(0, 8);
+    const headerNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+        method,
+        uri,
+        getS3QueryString(query),
+        headerNames.map(v => v + ':' + headers[v] + '\n').join(''),
+        headerNames.join(';'),
+        payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    let signingKey = hmac('AWS4' + options.secretAccessKey, dateStamp);
+    signingKey = hmac(signingKey, options.region);
+    signingKey = hmac(signingKey, 's3');
+    signingKey = hmac(signingKey, 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`;
+}
+
+function encodeS3Path(path: string): string {
+    return path.split('/').map(encodeS3).join('/');
+}
+
+/**
+ * Uploads the written data part by part with a multipart upload, so only one part is kept in memory.
+ * Data smaller than one part is uploaded with a single PUT.
+ */
+class S3UploadWritable extends Writable {
+    protected chunks: Buffer[] = [];
+    protected buffered: number = 0;
+    protected uploadId?: string;
+    protected etags: string[] = [];
+
+    constructor(protected storage: FileStorageS3Adapter, protected path: string) {
+        super();
+    }
+
+    _write(chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) {
+        this.chunks.push(chunk);
+        this.buffered += chunk.byteLength;
+        if (this.buffered < this.storage.options.partSize) return callback();
+        this.uploadPart().then(() => callback(), callback);
+    }
+
+    protected async uploadPart() {
+        const data = Buffer.concat(this.chunks);
+        this.chunks = [];
+        this.buffered = 0;
+        if (!this.uploadId) this.uploadId = await this.storage.createMultipartUpload(this.path);
+        this.etags.push(await this.storage.uploadPart(this.path, this.uploadId, this.etags.length + 1, data));
+    }
+
+    _final(callback: (error?: Error | null) => void) {
+        (async () => {
+            if (!this.uploadId) return await this.storage.write(this.path, Buffer.concat(this.chunks));
+            if (this.buffered) await this.uploadPart();
+            await this.storage.completeMultipartUpload(this.path, this.uploadId, this.etags);
+            this.uploadId = undefined;
+        })().then(() => callback(), callback);
+    }
+
+    _destroy(error: Error | null, callback: (error?: Error | null) => void) {
+        //uploadId is only set when the upload was not completed
+        if (this.uploadId) this.storage.abortMultipartUpload(this.path, this.uploadId).catch(() => undefined);
+        callback(error);
+    }
+}
+
+/**
+ * Stores files in a S3 compatible object storage (AWS S3, MinIO, ...) using path-style urls and signature version 4.
+ *
+ * S3 has no append operation, so FS.stream() reads and rewrites the whole object on each append.
+ * Write streams are uploaded with a multipart upload in parts of `options.partSize`.
+ */
+export class FileStorageS3Adapter extends FileStorageAdapter {
+    constructor(public readonly options: FileStorageS3Options) {
+        super();
+    }
+
+    async exists(path: string): Promise<boolean> {
+        //other error statuses are thrown by request()
+        const response = await this.request('HEAD', path);
+        return response.statusCode !== 404;
+    }
+
+    async read(path: string): Promise<Buffer | undefined> {
+        const response = await this.request('GET', path);
+        if (response.statusCode === 404) return;
+        return response.body;
+    }
+
+    async write(path: string, data: Buffer): Promise<void> {
+        await this.request('PUT', path, data);
+    }
+
+    async append(path: string, data: Buffer): Promise<number> {
+        const existing = await this.read(path);
+        const content = existing ? Buffer.concat([existing, data]) : data;
+        await this.write(path, content);
+        return content.byteLength;
+    }
+
+    async remove(path: string): Promise<void> {
+        await this.request('DELETE', path);
+    }
+
+    async size(path: string): Promise<number | undefined> {
+        const response = await this.send('HEAD', path);
+        response.resume();
+        if (response.statusCode === 404) return;
+        if (response.statusCode! >= 400) {
+            throw new FileStorageS3Error(`S3 HEAD ${path} failed with status ${response.statusCode}`);
+        }
+        return Number(response.headers['content-length']);
+    }
+
+    async move(from: string, to: string): Promise<void> {
+        await this.request('PUT', to, undefined, { 'x-amz-copy-source': '/' + encodeS3Path(this.options.bucket + '/' + this.options.prefix + from) });
+        await this.remove(from);
+    }
+
+    async createReadStream(path: string, range: FileStorageRange = {}): Promise<Readable | undefined> {
+        const headers: OutgoingHttpHeaders = {};
+        if (range.start !== undefined || range.end !== undefined) {
+            headers['range'] = `bytes=${range.start || 0}-${range.end === undefined ? '' : range.end}`;
+        }
+        const response = await this.send('GET', path, undefined, {}, headers);
+        if (response.statusCode === 404) {
+            response.resume();
+            return;
+        }
+        if (response.statusCode! >= 400) {
+            const body = await readBody(response);
+            throw new FileStorageS3Error(`S3 GET ${path} failed with status ${response.statusCode}: ${body.toString('utf8')}`);
+        }
+        return response;
+    }
+
+    createWriteStream(path: string): Writable {
+        return new S3UploadWritable(this, path);
+    }
+
+    /**
+     * Starts a multipart upload and returns its upload id.
+     */
+    async createMultipartUpload(path: string): Promise<string> {
+        const response = await this.request('POST', path, undefined, {}, { uploads: '' });
+        const match = /<UploadId>([^<]+)<\/UploadId>/.exec(response.body.toString('utf8'));
+        if (!match) throw new FileStorageS3Error(`S3 POST ${path} returned no upload id`);
+        return match[1];
+    }
+
+    /**
+     * Uploads a part of a multipart upload and returns its ETag. Part numbers start at 1.
+     * All parts except the last one need to be at least 5 MB.
+     */
+    async uploadPart(path: string, uploadId: string, partNumber: number, data: Buffer): Promise<string> {
+        const response = await this.request('PUT', path, data, {}, { partNumber: String(partNumber), uploadId });
+        const etag = response.headers['etag'];
+        if (!etag || 'string' !== typeof etag) throw new FileStorageS3Error(`S3 PUT ${path} part ${partNumber} returned no ETag`);
+        return etag;
+    }
+
+    /**
+     * Completes a multipart upload with the ETags of all parts in order, which makes the object available.
+     */
+    async completeMultipartUpload(path: string, uploadId: string, etags: string[]): Promise<void> {
+        const parts = etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}</ETag></Part>`);
+        const body = Buffer.from(`<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`, 'utf8');
+        const response = await this.request('POST', path, body, {}, { uploadId });
+        //S3 reports some errors with status 200 and an error document
+        if (response.body.toString('utf8').includes('<Error>')) {
+            throw new FileStorageS3Error(`S3 POST ${path} failed to complete the upload: ${response.body.toString('utf8')}`);
+        }
+    }
+
+    async abortMultipartUpload(path: string, uploadId: string): Promise<void> {
+        await this.request('DELETE', path, undefined, {}, { uploadId });
+    }
+
+    protected getUri(path: string): string {
+        const url = new URL(this.options.endpoint);
+        const basePath = url.pathname.endsWith('/') ? url.pathname : url.pathname + '/';
+        return basePath + encodeS3Path(this.options.bucket + '/' + this.options.prefix + path);
+    }
+
+    protected async request(
+        method: string, path: string, body: Buffer = Buffer.alloc(0), signedHeaders: { [name: string]: string } = {}, query: { [name: string]: string } = {}
+    ): Promise<{ statusCode: number, headers: IncomingHttpHeaders, body: Buffer }> {
+        const res = await this.send(method, path, body, signedHeaders, {}, query);
+        const response = { statusCode: res.statusCode || 0, headers: res.headers, body: await readBody(res) };
+
+        if (response.statusCode >= 400 && response.statusCode !== 404) {
+            throw new FileStorageS3Error(`S3 ${method} ${path} failed with status ${response.statusCode}: ${response.body.toString('utf8')}`);
+        }
+
+        return response;
+    }
+
+    /**
+     * Sends a signed request. Additional x-amz-* headers need to be passed as signedHeaders.
+     */
+    protected send(
+        method: string, path: string, body: Buffer = Buffer.alloc(0),
+        signedHeaders: { [name: string]: string } = {}, unsignedHeaders: OutgoingHttpHeaders = {}, query: { [name: string]: string } = {}
+    ): Promise<IncomingMessage> {
+        const url = new URL(this.options.endpoint);
+        const uri = this.getUri(path);
+
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const payloadHash = sha256(body);
+
+        const headers: { [name: string]: string } = {
+            ...signedHeaders,
+            'host': url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+        };
+        headers['authorization'] = getS3Authorization(this.options, method, uri, query, headers, payloadHash, amzDate);
+        headers['content-length'] = String(body.byteLength);
+
+        const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+        const queryString = getS3QueryString(query);
+
+        return new Promise<IncomingMessage>((resolve, reject) => {
+            const req = request({
+                method,
+                protocol: url.protocol,
+                hostname: url.hostname,
+                port: url.port,
+                path: queryString ? uri + '?' + queryString : uri,
+                headers: { ...unsignedHeaders, ...headers }
+            }, resolve);
+            req.on('error', reject);
+            req.end(body);
+        });
+    }
+}
@@ -1,228 +1,136 @@
-// import 'jest';
-// import {FS, getMd5} from "../src/fs";
-// import {Exchange} from "../src/exchange";
-// import {pathExists, readFile, remove} from 'fs-extra';
-// import {ExchangeDatabase, ExchangeNotifyPolicy} from "../src/exchange-database";
-// import {ClassType} from '@deepkit/core';
-// import {Connection, Database} from '@deepkit/mongo';
-// import {FileType} from "@deepkit/framework-shared";
-// import {ProcessLocker} from "../src/process-locker";
-// import {ExchangeServer} from "../src/exchange-server";
-//
-// jest.setTimeout(100_000);
-//
-// let fs = 0;
-//
-// async function createFs(name?: string) {
-//     fs++;
-//     const dbName = "fs-test-" + (name || fs);
-//     const connection = new Connection('localhost', dbName);
-//     const localDir = '/tmp/deepkit/testing/';
-//     await remove(localDir);
-//
-//     const exchangeServer = new ExchangeServer('auto');
-//     await exchangeServer.start();
-//
-//     const exchange = new Exchange(exchangeServer.path);
-//
-//     const notifyPolicy = new class implements ExchangeNotifyPolicy {
-//         notifyChanges<T>(classType: ClassType<T>): boolean {
-//             return true;
-//         }
-//     };
-//
-//     const database = new Database(connection);
-//     await (await database.connection.connect()).db(dbName).dropDatabase();
-//     const accountDb = new ExchangeDatabase(notifyPolicy, database, exchange);
-//
-//     return {
-//         fs: new FS(FileType.forDefault(), exchange, database, accountDb, new ProcessLocker(), localDir),
-//         exchange, database,
-//         disconnect: async function () {
-//             await exchange.disconnect();
-//             await database.close();
-//             exchangeServer.close();
-//         }
-//     };
-// }
-//
-// test('which is faster: exchange-server get or mongodb fetchOne', async () => {
-//     const {fs, disconnect, exchange, database} = await createFs();
-//
-//     for (let i = 0; i < 1000; i++) {
-//         await fs.write('file' + i + '.txt', 'myfetter content ' + i);
-//     }
-//
-//     const testCount = 1000;
-//
-//     {
-//         const start = performance.now();
-//         for (let i = 0; i < testCount; i++) {
-//             const item = await database.query(fs.fileType.classType).filter({path: 'file10.txt'}).ids();
-//             // console.log('item', item.md5);
-//         }
-//
-//         console.log('db findOne() took', performance.now() - start, 'ms for', testCount, 'items');
-//     }
-//
-//     {
-//         const start = performance.now();
-//         for (let i = 0; i < testCount; i++) {
-//             await exchange.get('file-meta/file10.txt');
-//         }
-//
-//         console.log('exchange get', performance.now() - start, 'ms for', testCount, 'items');
-//     }
-//
-//     {
-//         const start = performance.now();
-//         for (let i = 0; i < testCount; i++) {
-//             await fs.getFileMetaCache('file10.txt');
-//         }
-//
-//         console.log('fs.getFileId via exchange took', performance.now() - start, 'ms for', testCount, 'items');
-//     }
-// });
-//
-// // test('performance', async () => {
-// //     const {fs, disconnect} = await createFs('performance');
-// //     await fs.remove('logfile.txt');
-// //
-// //     const start = performance.now();
-// //     const times = 1_000;
-// //     const all: Promise<any>[] = [];
-// //     for (let i = 0; i < times; i++) {
-// //         all.push(fs.stream('logfile.txt', Buffer.from('Hiiii wahhat uupppp', 'utf8')));
-// //     }
-// //
-// //     await Promise.all(all);
-// //     console.log('fs took for ', times, performance.now() - start, 'ms', ', per item=', (performance.now() - start) / times, 'ms');
-// //     disconnect();
-// // });
-//
-// test('test fs storage based on md5', async () => {
-//     const {fs, disconnect} = await createFs();
-//     const content = new Buffer('TestString ' + Math.random());
-//
-//     const md5 = getMd5(content);
-//     const file1 = await fs.write('file1.txt', content);
-//     const file2 = await fs.write('file2.txt', content);
-//
-//     expect(md5).toBe(file1.md5);
-//     expect(md5).toBe(file2.md5);
-//     expect(await fs.hasMd5InDb(md5)).toBe(true);
-//     expect(await fs.hasMd5(md5)).toBe(true);
-//
-//     expect((await fs.read('file2.txt'))!.toString()).toBe(content.toString());
-//
-//     const path1 = fs.getLocalPath(file1);
-//     const path2 = fs.getLocalPath(file1);
-//
-//     expect(path1).toBe(path2);
-//     expect(await pathExists(path1)).toBe(true);
-//
-//     expect((await readFile(path1)).toString()).toBe(content.toString());
-//
-//     await fs.remove(file1.path);
-//     expect(await pathExists(path1)).toBe(true);
-//
-//     expect(await fs.hasMd5InDb(md5)).toBe(true);
-//     expect(await fs.hasMd5(md5)).toBe(true);
-//
-//     await fs.remove(file2.path);
-//     //now after we have no files anymore with that md5, we are going to remove it from the disk
-//     expect(await pathExists(path1)).toBe(false);
-//
-//     await disconnect();
-// });
-//
-// test('test fs storage change content of files with same md5', async () => {
-//     const {fs, disconnect} = await createFs();
-//     const content = new Buffer('TestString ' + Math.random());
-//
-//     let file1 = await fs.write('file1.txt', content);
-//     const file2 = await fs.write('file2.txt', content);
-//
-//     const path1 = fs.getLocalPath(file1);
-//     const path2 = fs.getLocalPath(file1);
-//     expect(await pathExists(path1)).toBe(true);
-//     expect(await pathExists(path2)).toBe(true);
-//
-//     const content2 = new Buffer('TestString 222 ' + Math.random());
-//     file1 = await fs.write('file1.txt', content2);
-//     expect(file1.version).toBeGreaterThan(0);
-//
-//     expect(file1.md5).not.toBeUndefined();
-//     expect(file1.md5).not.toBe(file2.md5);
-//     expect(await fs.hasMd5(file1.md5!)).toBe(true);
-//     expect(await fs.hasMd5(file2.md5!)).toBe(true);
-//
-//     await disconnect();
-// });
-//
-// test('test fs single deletion', async () => {
-//     const {fs, disconnect} = await createFs();
-//     const content = new Buffer('TestString ' + Math.random());
-//     const file1 = await fs.write('file1.txt', content);
-//
-//     const path1 = fs.getLocalPath(file1);
-//     expect(await pathExists(path1)).toBe(true);
-//
-//     await fs.remove(file1.path);
-//
-//     expect(await fs.findOne('file1.txt')).toBeUndefined();
-//     expect(await pathExists(path1)).toBe(false);
-//
-//     await disconnect();
-// });
-//
-// test('test fs fork', async () => {
-//     const {fs, disconnect} = await createFs();
-//     const content = new Buffer('TestString ' + Math.random());
-//     const file1 = await fs.write('file1.txt', content);
-//
-//     const path1 = fs.getLocalPath(file1);
-//     expect(await pathExists(path1)).toBe(true);
-//
-//     const file2 = await fs.registerFile(file1.md5!, 'file1-copy.txt');
-//
-//     const path2 = fs.getLocalPath(file1);
-//     expect(path2).toBe(path1); //same path since same md5
-//
-//     const file2Changed = await fs.write('file1-copy.txt', 'changed');
-//     expect(file2Changed.md5).not.toBe(file2.md5);
-//     expect(fs.getLocalPath(file2Changed)).not.toBe(path1); //changed since new md5
-//
-//     await fs.remove(file2Changed.path);
-//     expect(await pathExists(path1)).toBe(true);
-//
-//     await fs.remove(file1.path);
-//
-//     expect(await pathExists(path1)).toBe(false);
-//     expect(await fs.findOne('file1.txt')).toBeUndefined();
-//
-//     await disconnect();
-// });
-//
-// test('test fs stream', async () => {
-//     const {fs, disconnect} = await createFs();
-//
-//     await fs.stream('filestream.txt', new Buffer('start\n'));
-//
-//     const file1 = await fs.findOne('filestream.txt');
-//
-//     expect(() => {
-//         file1!.getMd5();
-//     }).toThrow('File is in streaming mode');
-//
-//     const path1 = fs.getLocalPath(file1!);
-//     expect(await pathExists(path1)).toBe(true);
-//     expect(await readFile(path1, 'utf8')).toBe('start\n');
-//
-//     await fs.stream('filestream.txt', new Buffer('next1\n'));
-//     expect(await readFile(path1, 'utf8')).toBe('start\nnext1\n');
-//
-//     expect(await pathExists(path1)).toBe(true);
-//
-//     await disconnect();
-// });
+import { expect, test } from '@jest/globals';
+import { BrokerDirectClient, BrokerKernel } from '@deepkit/broker';
+import { ProcessLocker, sleep } from '@deepkit/core';
+import { Database, MemoryDatabaseAdapter } from '@deepkit/orm';
+import { DeepkitFile, FileMode, FileType } from '../src/file';
+import { FS, getMd5 } from '../src/fs';
+import { FileStorageMemoryAdapter } from '../src/storage';
+import { Writable } from 'stream';
+
+function createFs() {
+    const database = new Database(new MemoryDatabaseAdapter(), [DeepkitFile]);
+    const storage = new FileStorageMemoryAdapter();
+    const fs = new FS(FileType.forDefault(), new BrokerDirectClient(new BrokerKernel()), database, new ProcessLocker(), storage);
+    return { fs, database, storage };
+}
+
+test('file', () => {
+    const file = new DeepkitFile('images/logo.png');
+    expect(file.getFullPath()).toBe('/images/logo.png');
+    expect(file.getName()).toBe('logo.png');
+    expect(file.getDir()).toBe('/images/');
+
+    const forked = FileType.forDefault().fork(file, 'logo.png');
+    expect(forked.id).not.toBe(file.id);
+    expect(forked.path).toBe('logo.png');
+});
+
+test('write and read', async () => {
+    const { fs, database, storage } = createFs();
+
+    const file = await fs.write('a.txt', 'hello');
+    expect(file.md5).toBe(getMd5('hello'));
+    expect(file.mode).toBe(FileMode.closed);
+    expect((await fs.read('a.txt'))!.toString()).toBe('hello');
+    expect(await fs.read('b.txt')).toBe(undefined);
+
+    //same content is stored once
+    await fs.write('b.txt', 'hello');
+    expect(storage.files.size).toBe(1);
+    expect(await database.query(DeepkitFile).count()).toBe(2);
+
+    //changed content replaces the old one, which is still used by b.txt
+    await fs.write('a.txt', 'world');
+    expect((await fs.read('a.txt'))!.toString()).toBe('world');
+    expect((await fs.findOne('a.txt'))!.size).toBe(5);
+    expect(storage.files.size).toBe(2);
+
+    await fs.remove('b.txt');
+    expect(await fs.read('b.txt')).toBe(undefined);
+    expect(storage.files.size).toBe(1);
+    expect(await fs.hasMd5(getMd5('hello'))).toBe(false);
+    expect(await fs.hasMd5(getMd5('world'))).toBe(true);
+});
+
+test('write stream', async () => {
+    const { fs, storage } = createFs();
+
+    const writer = fs.createWriteStream('a.txt');
+    writer.write('hello ');
+    writer.end('world');
+    await new Promise(resolve => writer.on('finish', resolve));
+
+    expect(writer.file!.md5).toBe(getMd5('hello world'));
+    expect((await fs.read('a.txt'))!.toString()).toBe('hello world');
+    //the temporary file was moved
+    expect([...storage.files.keys()]).toEqual([fs.getStoragePathForMd5(getMd5('hello world'))]);
+});
+
+test('write stream failed flush', async () => {
+    class FailingStorage extends FileStorageMemoryAdapter {
+        createWriteStream(path: string): Writable {
+            const stream = super.createWriteStream(path);
+            stream._final = (callback) => callback(new Error('flush failed'));
+            return stream;
+        }
+    }
+
+    const database = new Database(new MemoryDatabaseAdapter(), [DeepkitFile]);
+    const storage = new FailingStorage();
+    const fs = new FS(FileType.forDefault(), new BrokerDirectClient(new BrokerKernel()), database, new ProcessLocker(), storage);
+
+    const writer = fs.createWriteStream('a.txt');
+    writer.end('hello');
+    await expect(new Promise((resolve, reject) => {
+        writer.on('finish', resolve);
+        writer.on('error', reject);
+    })).rejects.toThrow('flush failed');
+    await sleep(0.01);
+
+    expect(writer.file).toBe(undefined);
+    expect(await fs.findOne('a.txt')).toBe(undefined);
+    expect(storage.files.size).toBe(0);
+});
+
+test('register file', async () => {
+    const { fs } = createFs();
+
+    await fs.write('a.txt', 'hello');
+    const file = await fs.registerFile(getMd5('hello'), 'copy.txt');
+    expect(file.path).toBe('copy.txt');
+    expect((await fs.read('copy.txt'))!.toString()).toBe('hello');
+    await expect(fs.registerFile(getMd5('unknown'), 'b.txt')).rejects.toThrow('No file with');
+});
+
+test('stream and subscribe', async () => {
+    const { fs } = createFs();
+
+    //subscribing before the file exists
+    const subject = await fs.subscribe('log.txt');
+    subject.activateNextOnAppend();
+    expect(subject.value).toBe(undefined);
+
+    await fs.stream('log.txt', Buffer.from('a'));
+    await sleep(0.01);
+    expect(Buffer.from(subject.value!).toString()).toBe('a');
+
+    await fs.stream('log.txt', Buffer.from('bc'));
+    await sleep(0.01);
+    expect(Buffer.from(subject.value!).toString()).toBe('abc');
+
+    const file = await fs.findOne('log.txt');
+    expect(file!.mode).toBe(FileMode.streaming);
+    expect((await fs.read('log.txt'))!.toString()).toBe('abc');
+
+    //subscribing an existing file
+    const subject2 = await fs.subscribe('log.txt');
+    expect(Buffer.from(subject2.value!).toString()).toBe('abc');
+
+    await fs.remove('log.txt');
+    await sleep(0.01);
+    expect(subject.value).toBe(undefined);
+    expect(subject2.value).toBe(undefined);
+
+    subject.unsubscribe();
+    subject2.unsubscribe();
+});
@@ -11,3 +11,10 @@ export * from './src/controllers';
 export * from './src/middleware';
 export * from './src/filter';
 export * from './src/utils';
+export * from './src/openapi';
+export * from './src/cors';
+export * from './src/rate-limit';
+export * from './src/websocket';
+export * from './src/codec';
+export * from './src/client';
+export * from './src/upload';
@@ -0,0 +1,391 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { ClassType, CustomError, getClassName, urlJoin } from '@deepkit/core';
+import {
+    deserializeType,
+    getSerializeFunction,
+    isBinary,
+    ReflectionKind,
+    SerializedTypes,
+    SerializeFunction,
+    serializer,
+    serializeType,
+    Type
+} from '@deepkit/type';
+import { ServerResponse } from 'http';
+import { BaseResponse, Redirect } from './http';
+import { HttpKernel } from './kernel';
+import { RequestBuilder } from './model';
+import { parseRouteControllerAction, RouteConfig, Router } from './router';
+
+//@ts-ignore
+import qs from 'qs';
+
+/**
+ * Where the client puts an argument of a route. `inject` parameters are resolved on the server (services,
+ * HttpRequest, parameter resolvers) and are not transmitted.
+ */
+export type HttpRouteParameterSource = 'path' | 'query' | 'queries' | 'body' | 'header' | 'cookie' | 'inject';
+
+export interface HttpRouteParameterDescription {
+    name: string;
+    source: HttpRouteParameterSource;
+
+    /**
+     * The query path, header or cookie name.
+     */
+    sourceName?: string;
+
+    type?: SerializedTypes;
+}
+
+/**
+ * JSON serializable description of a route, so frontends can create a typed HttpClient without importing the controller.
+ */
+export interface HttpRouteDescription {
+    controller: string;
+    methodName: string;
+    httpMethods: string[];
+    path: string;
+    parameters: HttpRouteParameterDescription[];
+
+    /**
+     * Type of the response body.
+     */
+    resultType?: SerializedTypes;
+}
+
+interface HttpClientParameter {
+    name: string;
+    source: HttpRouteParameterSource;
+    sourceName?: string;
+    type?: Type;
+    serialize?: SerializeFunction;
+}
+
+interface HttpClientRoute {
+    methodName: string;
+    httpMethods: string[];
+    path: string;
+    parameters: HttpClientParameter[];
+    resultType?: Type;
+    deserialize?: SerializeFunction;
+}
+
+function isTyped(type?: Type): type is Type {
+    return type !== undefined && type.kind !== ReflectionKind.any && type.kind !== ReflectionKind.unknown
+        && type.kind !== ReflectionKind.void && type.kind !== ReflectionKind.undefined;
+}
+
+function isResponseType(type: Type): boolean {
+    if (type.kind !== ReflectionKind.class) return false;
+    return type.classType === BaseResponse || type.classType.prototype instanceof BaseResponse
+        || type.classType === Redirect || type.classType === ServerResponse || type.classType.prototype instanceof ServerResponse;
+}
+
+function getResultType(route: RouteConfig): Type | undefined {
+    let type = route.returnType;
+    if (type && type.kind === ReflectionKind.promise) type = type.type;
+    if (!isTyped(type) || isResponseType(type)) type = route.getSchemaForResponse(200);
+    return isTyped(type) ? type : undefined;
+}
+
+function getRouteParameters(route: RouteConfig): HttpClientParameter[] {
+    return parseRouteControllerAction(route).getParameters().map(parameter => {
+        const name = parameter.getName();
+        if (parameter.body || parameter.bodyValidation) return { name, source: 'body', type: parameter.getType() };
+        if (parameter.query) return { name, source: 'query', sourceName: parameter.typePath || name, type: parameter.getType() };
+        if (parameter.queries) return { name, source: 'queries', sourceName: parameter.typePath, type: parameter.getType() };
+        if (parameter.header) return { name, source: 'header', sourceName: parameter.getSourceName(), type: parameter.getType() };
+        if (parameter.cookie) return { name, source: 'cookie', sourceName: parameter.getSourceName(), type: parameter.getType() };
+        if (parameter.isPartOfPath()) return { name, source: 'path', type: parameter.getType() };
+        return { name, source: 'inject' };
+    });
+}
+
+function createClientRoute(route: RouteConfig): HttpClientRoute {
+    return {
+        methodName: route.action.methodName,
+        httpMethods: route.httpMethods,
+        path: route.getFullPath(),
+        parameters: getRouteParameters(route),
+        resultType: getResultType(route),
+    };
+}
+
+function getClientRoutes(routes: RouteConfig[], controller?: ClassType): RouteConfig[] {
+    return routes.filter(route => !route.internal && !route.isWebSocket() && (!controller || route.action.controller === controller));
+}
+
+/**
+ * Describes all routes of the router (or only those of the given controller) for `HttpClient.controller()`.
+ *
+ * ```typescript
+ * const routes = describeHttpRoutes(app.get(Router), UserController);
+ * //send JSON.stringify(routes) to the frontend
+ * const users = client.controller<UserController>(routes);
+ * ```
+ */
+export function describeHttpRoutes(router: Router, controller?: ClassType): HttpRouteDescription[] {
+    return getClientRoutes(router.getRoutes(), controller).map(route => {
+        const clientRoute = createClientRoute(route);
+        return {
+            controller: getClassName(route.action.controller),
+            methodName: clientRoute.methodName,
+            httpMethods: clientRoute.httpMethods,
+            path: clientRoute.path,
+            parameters: clientRoute.parameters.map(v => ({
+                name: v.name, source: v.source, sourceName: v.sourceName, type: v.type ? serializeType(v.type) : undefined
+            })),
+            resultType: clientRoute.resultType ? serializeType(clientRoute.resultType) : undefined,
+        };
+    });
+}
+
+export interface HttpClientRequest {
+    method: string;
+
+    /**
+     * Path including the query string.
+     */
+    url: string;
+    headers: { [name: string]: string };
+    body?: string;
+}
+
+export interface HttpClientResponse {
+    statusCode: number;
+
+    /**
+     * Header names are lowercase.
+     */
+    headers: { [name: string]: string };
+    body: Uint8Array;
+}
+
+/**
+ * Transport of a HttpClient.
+ */
+export interface HttpClientAdapter {
+    request(request: HttpClientRequest): Promise<HttpClientResponse>;
+}
+
+/**
+ * Sends requests via `fetch` to the server at baseUrl.
+ */
+export class FetchHttpClientAdapter implements HttpClientAdapter {
+    constructor(
+        public baseUrl: string = '',
+        protected fetch: typeof globalThis.fetch = globalThis.fetch,
+    ) {
+    }
+
+    async request(request: HttpClientRequest): Promise<HttpClientResponse> {
+        const response = await this.fetch(this.baseUrl ? urlJoin(this.baseUrl, request.url) : request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+        });
+
+        const headers: { [name: string]: string } = {};
+        response.headers.forEach((value, name) => {
+            headers[name.toLowerCase()] = value;
+        });
+        return { statusCode: response.status, headers, body: new Uint8Array(await response.arrayBuffer()) };
+    }
+}
+
+/**
+ * Handles requests in-memory with the HttpKernel, without network. Handy for tests.
+ */
+export class HttpKernelClientAdapter implements HttpClientAdapter {
+    constructor(protected kernel: HttpKernel) {
+    }
+
+    async request(request: HttpClientRequest): Promise<HttpClientResponse> {
+        const builder = new RequestBuilder(request.url, request.method).headers(request.headers);
+        if (request.body !== undefined) builder.body(request.body);
+        const response = await this.kernel.request(builder);
+
+        const headers: { [name: string]: string } = {};
+        for (const [name, value] of Object.entries(response.getHeaders())) {
+            if (value === undefined) continue;
+            headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+        return { statusCode: response.statusCode, headers, body: response.body };
+    }
+}
+
+/**
+ * Thrown by HttpClient for responses with a status code of 400 and higher.
+ */
+export class HttpClientError extends CustomError {
+    constructor(
+        public readonly statusCode: number,
+        public readonly body: any,
+        public readonly response: HttpClientResponse,
+    ) {
+        super(body && 'object' === typeof body && 'string' === typeof body.message ? body.message : `Request failed with status code ${statusCode}`);
+    }
+}
+
+type PromisifyFn<T extends ((...args: any[]) => any)> = (...args: Parameters<T>) => ReturnType<T> extends Promise<any> ? ReturnType<T> : Promise<ReturnType<T>>;
+
+/**
+ * Methods of a http controller, called via HttpClient. Arguments of parameters that are injected on the server
+ * (services, HttpRequest) are ignored and can be undefined.
+ */
+export type HttpRemoteController<T> = {
+    [P in keyof T]: T[P] extends (...args: any[]) => any ? PromisifyFn<T[P]> : never
+};
+
+function setPath(target: { [name: string]: any }, path: string, value: any) {
+    const names = path.split('.');
+    const last = names.pop()!;
+    for (const name of names) {
+        if (!target[name] || 'object' !== typeof target[name]) target[name] = {};
+        target = target[name];
+    }
+    target[last] = value;
+}
+
+/**
+ * Typed client for http controllers.
+ *
+ * ```typescript
+ * const client = new HttpClient(new FetchHttpClientAdapter('http://localhost:8080'));
+ * const user = await client.controller(UserController).getUser(23);
+ * ```
+ *
+ * Arguments are put into the path, query, body, headers, or cookies as declared by the controller
+ * (`HttpQuery`, `HttpQueries`, `HttpBody`, `HttpHeader`, `HttpCookie`), serialized with their types.
+ * Responses are deserialized with the return type of the action, or the response type of status 200 when
+ * the action returns a JSONResponse.
+ */
+export class HttpClient {
+    constructor(public adapter: HttpClientAdapter) {
+    }
+
+    /**
+     * Uses the in-memory HttpKernel as transport.
+     */
+    static forKernel(kernel: HttpKernel): HttpClient {
+        return new HttpClient(new HttpKernelClientAdapter(kernel));
+    }
+
+    /**
+     * Creates a proxy for the controller class or a route description created by `describeHttpRoutes`.
+     */
+    controller<T>(controller: ClassType<T> | HttpRouteDescription[]): HttpRemoteController<T> {
+        const routes = new Map<string, HttpClientRoute>();
+
+        if (Array.isArray(controller)) {
+            for (const description of controller) {
+                routes.set(description.methodName, {
+                    methodName: description.methodName,
+                    httpMethods: description.httpMethods,
+                    path: description.path,
+                    parameters: description.parameters.map(v => ({
+                        name: v.name, source: v.source, sourceName: v.sourceName, type: v.type ? deserializeType(v.type) : undefined
+                    })),
+                    resultType: description.resultType ? deserializeType(description.resultType) : undefined,
+                });
+            }
+        } else {
+            for (const route of getClientRoutes(Router.forControllers([controller]).getRoutes())) {
+                routes.set(route.action.methodName, createClientRoute(route));
+            }
+        }
+
+        return new Proxy({}, {
+            get: (target, propertyName) => {
+                if ('string' !== typeof propertyName) return;
+                //the proxy is not thenable
+                if (propertyName === 'then') return;
+                const route = routes.get(propertyName);
+                if (!route) throw new Error(`No route for method ${propertyName} found`);
+                return (...args: any[]) => this.call(route, args);
+            }
+        }) as HttpRemoteController<T>;
+    }
+
+    protected serializeArgument(parameter: HttpClientParameter, value: any): any {
+        if (!parameter.type || value === undefined) return value;
+        if (!parameter.serialize) parameter.serialize = getSerializeFunction(parameter.type, serializer.serializeRegistry);
+        return parameter.serialize(value);
+    }
+
+    protected createRequest(route: HttpClientRoute, args: any[]): HttpClientRequest {
+        const values: { [name: string]: any } = {};
+        const query: { [name: string]: any } = {};
+        const headers: { [name: string]: string } = { accept: 'application/json' };
+        const cookies: string[] = [];
+        let body: string | undefined;
+
+        for (let i = 0; i < route.parameters.length; i++) {
+            const parameter = route.parameters[i];
+            if (parameter.source === 'inject') continue;
+            const value = this.serializeArgument(parameter, args[i]);
+            if (value === undefined) continue;
+
+            if (parameter.source === 'path') {
+                values[parameter.name] = value;
+            } else if (parameter.source === 'query') {
+                setPath(query, parameter.sourceName || parameter.name, value);
+            } else if (parameter.source === 'queries') {
+                if (parameter.sourceName) {
+                    setPath(query, parameter.sourceName, value);
+                } else {
+                    Object.assign(query, value);
+                }
+            } else if (parameter.source === 'body') {
+                body = JSON.stringify(value);
+                headers['content-type'] = 'application/json';
+            } else if (parameter.source === 'header') {
+                headers[parameter.sourceName || parameter.name] = String(value);
+            } else if (parameter.source === 'cookie') {
+                cookies.push(`${parameter.sourceName || parameter.name}=${encodeURIComponent(String(value))}`);
+            }
+        }
+        if (cookies.length) headers['cookie'] = cookies.join('; ');
+
+        let url = route.path.replace(/:(\w+)/g, (match, name) => {
+            if (values[name] === undefined) throw new Error(`No value for path parameter ${name} of ${route.methodName} given`);
+            return encodeURIComponent(String(values[name]));
+        });
+        const queryString = qs.stringify(query);
+        if (queryString) url += '?' + queryString;
+
+        const method = route.httpMethods[0] || (body === undefined ? 'GET' : 'POST');
+        return { method, url, headers, body };
+    }
+
+    protected parseResponse(route: HttpClientRoute, response: HttpClientResponse): any {
+        const contentType = response.headers['content-type'] || '';
+        if (!contentType.includes('json')) {
+            if (route.resultType && isBinary(route.resultType)) return response.body;
+            if (contentType.startsWith('text/')) return new TextDecoder().decode(response.body);
+            return response.body.byteLength ? response.body : undefined;
+        }
+        if (!response.body.byteLength) return undefined;
+        return JSON.parse(new TextDecoder().decode(response.body));
+    }
+
+    protected async call(route: HttpClientRoute, args: any[]): Promise<any> {
+        const response = await this.adapter.request(this.createRequest(route, args));
+        const body = this.parseResponse(route, response);
+        if (response.statusCode >= 400) throw new HttpClientError(response.statusCode, body, response);
+
+        if (!route.resultType || body === undefined || body instanceof Uint8Array) return body;
+        if (!route.deserialize) route.deserialize = getSerializeFunction(route.resultType, serializer.deserializeRegistry);
+        return route.deserialize(body);
+    }
+}
@@ -0,0 +1,135 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { getBSONDeserializer, getBSONSerializer, serializeWithoutOptimiser } from '@deepkit/bson';
+import { ReflectionKind, Type, TypeObjectLiteral } from '@deepkit/type';
+
+/**
+ * Decodes request bodies and encodes action results of a media type.
+ *
+ * Untyped codecs (typed=false) work like JSON: decode() returns plain data that is deserialized into the parameter type
+ * by the router, and encode() receives the result already serialized by the route's serializer.
+ * Typed codecs (typed=true) decode directly into the parameter type and encode the original (not serialized) result.
+ */
+export interface HttpBodyCodec {
+    /**
+     * The first media type is used as Content-Type of encoded responses.
+     */
+    readonly mediaTypes: string[];
+
+    readonly typed: boolean;
+
+    decode(body: Buffer, type: Type): any;
+
+    /**
+     * The type is the route's return type or response schema, if known.
+     */
+    encode(value: any, type?: Type): Uint8Array | string;
+}
+
+export class JsonBodyCodec implements HttpBodyCodec {
+    readonly mediaTypes = ['application/json'];
+    readonly typed = false;
+
+    decode(body: Buffer): any {
+        if (!body.byteLength) return {};
+        return JSON.parse(body.toString('utf8'));
+    }
+
+    encode(value: any): string {
+        return JSON.stringify(value);
+    }
+}
+
+function isDocumentType(type: Type): boolean {
+    return type.kind === ReflectionKind.class || type.kind === ReflectionKind.objectLiteral;
+}
+
+/**
+ * BSON documents are always objects, so other types are wrapped as `{v: value}`.
+ */
+function wrapType(type: Type): TypeObjectLiteral {
+    const wrapper: TypeObjectLiteral = { kind: ReflectionKind.objectLiteral, types: [] };
+    wrapper.types.push({ kind: ReflectionKind.propertySignature, name: 'v', parent: wrapper, type });
+    return wrapper;
+}
+
+export class BsonBodyCodec implements HttpBodyCodec {
+    readonly mediaTypes = ['application/bson'];
+    readonly typed = true;
+
+    decode(body: Buffer, type: Type): any {
+        if (isDocumentType(type)) return getBSONDeserializer(undefined, type)(body);
+        return (getBSONDeserializer(undefined, wrapType(type))(body) as { v: any }).v;
+    }
+
+    encode(value: any, type?: Type): Uint8Array {
+        if (!type || type.kind === ReflectionKind.any || type.kind === ReflectionKind.unknown) {
+            return serializeWithoutOptimiser(value && 'object' === typeof value && !Array.isArray(value) ? value : { v: value });
+        }
+        if (isDocumentType(type)) return getBSONSerializer(undefined, type)(value);
+        return getBSONSerializer(undefined, wrapType(type))({ v: value });
+    }
+}
+
+function getMediaType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * All codecs for request bodies and responses. Register custom codecs via
+ * `module.setupGlobalProvider<HttpBodyCodecRegistry>().add(new MyCodec)`.
+ *
+ * Bodies without a registered codec (forms, multipart uploads) are parsed by formidable.
+ */
+export class HttpBodyCodecRegistry {
+    protected codecs: HttpBodyCodec[] = [new JsonBodyCodec, new BsonBodyCodec];
+
+    /**
+     * Added codecs take precedence over already registered codecs of the same media type.
+     */
+    add(codec: HttpBodyCodec): this {
+        this.codecs.unshift(codec);
+        return this;
+    }
+
+    get(mediaType: string): HttpBodyCodec | undefined {
+        mediaType = getMediaType(mediaType);
+        for (const codec of this.codecs) {
+            if (codec.mediaTypes.includes(mediaType)) return codec;
+        }
+        return;
+    }
+
+    /**
+     * Returns the codec of the Accept header entry with the highest quality. Wildcards are not resolved,
+     * so clients that accept anything get the default (JSON) response.
+     */
+    negotiate(accept?: string): HttpBodyCodec | undefined {
+        if (!accept) return;
+
+        const entries = accept.split(',').map((part, index) => {
+            const [mediaType, ...params] = part.split(';');
+            let quality = 1;
+            for (const param of params) {
+                const [key, value] = param.trim().split('=');
+                if (key === 'q') quality = Number(value) || 0;
+            }
+            return { mediaType: getMediaType(mediaType), quality, index };
+        }).filter(v => v.quality > 0).sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+        for (const entry of entries) {
+            if (entry.mediaType.includes('*')) return;
+            const codec = this.get(entry.mediaType);
+            if (codec) return codec;
+        }
+        return;
+    }
+}
@@ -0,0 +1,66 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { brotliCompress, deflate, gzip } from 'zlib';
+import { promisify } from 'util';
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+const encodings: CompressionEncoding[] = ['br', 'gzip', 'deflate'];
+
+const compressors: { [encoding in CompressionEncoding]: (buffer: Uint8Array) => Promise<Buffer> } = {
+    br: promisify(brotliCompress),
+    gzip: promisify(gzip),
+    deflate: promisify(deflate),
+};
+
+/**
+ * Picks the encoding with the highest quality value of an Accept-Encoding header.
+ * On equal quality, br is preferred over gzip over deflate.
+ */
+export function negotiateEncoding(acceptEncoding?: string | string[]): CompressionEncoding | undefined {
+    if (!acceptEncoding) return;
+    if (Array.isArray(acceptEncoding)) acceptEncoding = acceptEncoding.join(',');
+
+    const qualities = new Map<string, number>();
+    for (const part of acceptEncoding.split(',')) {
+        const [name, ...params] = part.trim().toLowerCase().split(';');
+        if (!name) continue;
+        let quality = 1;
+        for (const param of params) {
+            const [key, value] = param.trim().split('=');
+            if (key === 'q') quality = Number(value) || 0;
+        }
+        qualities.set(name, quality);
+    }
+
+    let best: CompressionEncoding | undefined;
+    let bestQuality = 0;
+    for (const encoding of encodings) {
+        const quality = qualities.get(encoding) ?? qualities.get('*') ?? 0;
+        if (quality > bestQuality) {
+            best = encoding;
+            bestQuality = quality;
+        }
+    }
+    return best;
+}
+
+/**
+ * Returns true for content types that benefit from compression (text, JSON, JavaScript, XML, SVG).
+ */
+export function isCompressible(contentType?: string | number | string[]): boolean {
+    if ('string' !== typeof contentType) return false;
+    return /^text\/|[/+](json|x-ndjson|javascript|xml)\b|^image\/svg/.test(contentType.toLowerCase());
+}
+
+export function compress(encoding: CompressionEncoding, buffer: Uint8Array): Promise<Buffer> {
+    return compressors[encoding](buffer);
+}
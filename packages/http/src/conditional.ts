@@ -0,0 +1,47 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { createHash } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * Creates a weak ETag from the (uncompressed) body, so it stays the same for all content encodings.
+ */
+export function createETag(body: Uint8Array): string {
+    const hash = createHash('sha1').update(body).digest('base64').substr(0, 27);
+    return `W/"${body.byteLength.toString(16)}-${hash}"`;
+}
+
+function stripWeak(etag: string): string {
+    return etag.trim().replace(/^W\//, '');
+}
+
+/**
+ * Evaluates If-None-Match (weak comparison) and If-Modified-Since against the response's ETag and Last-Modified.
+ * If-Modified-Since is ignored when If-None-Match is sent, as defined in RFC 7232.
+ */
+export function isNotModified(requestHeaders: IncomingHttpHeaders, etag?: string, lastModified?: string): boolean {
+    const ifNoneMatch = requestHeaders['if-none-match'];
+    if (ifNoneMatch) {
+        if (!etag) return false;
+        if (ifNoneMatch.trim() === '*') return true;
+        return ifNoneMatch.split(',').some(v => stripWeak(v) === stripWeak(etag));
+    }
+
+    const ifModifiedSince = requestHeaders['if-modified-since'];
+    if (ifModifiedSince && lastModified) {
+        const since = Date.parse(ifModifiedSince);
+        const modified = Date.parse(lastModified);
+        if (isNaN(since) || isNaN(modified)) return false;
+        return modified <= since;
+    }
+
+    return false;
+}
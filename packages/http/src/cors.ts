@@ -0,0 +1,133 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { eventDispatcher } from '@deepkit/event';
+import { OutgoingHttpHeaders } from 'http';
+import { httpWorkflow } from './http';
+import { HttpRequest, HttpResponse } from './model';
+import { CorsOptions, HttpConfig } from './module.config';
+import { RouteConfig, Router } from './router';
+
+const preflightMethods = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export function isOriginAllowed(allowed: CorsOptions['origin'], origin: string): boolean {
+    if (allowed === undefined || allowed === true || allowed === '*') return true;
+    if (allowed === false) return false;
+    if (Array.isArray(allowed)) return allowed.some(v => isOriginAllowed(v, origin));
+    if (allowed instanceof RegExp) return allowed.test(origin);
+    return allowed === origin;
+}
+
+/**
+ * Returns the Access-Control-Allow-Origin/Credentials/Expose-Headers headers for an actual (non-preflight) request,
+ * or undefined when the origin is not allowed.
+ *
+ * Credentials are only allowed for an explicit origin allow-list. With the wildcard origin (undefined, true, or '*')
+ * `credentials` is ignored, since reflecting every origin would allow every site to make credentialed requests.
+ */
+export function getCorsHeaders(options: CorsOptions, origin: string): OutgoingHttpHeaders | undefined {
+    if (!isOriginAllowed(options.origin, origin)) return;
+
+    const headers: OutgoingHttpHeaders = {};
+    const any = options.origin === undefined || options.origin === true || options.origin === '*';
+    if (any) {
+        headers['Access-Control-Allow-Origin'] = '*';
+    } else {
+        //the response differs per origin, so caches need to know
+        headers['Access-Control-Allow-Origin'] = origin;
+        headers['Vary'] = 'Origin';
+        if (options.credentials) headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+    if (options.exposedHeaders && options.exposedHeaders.length) headers['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+    return headers;
+}
+
+/**
+ * Answers CORS preflight requests for all paths with routes that have CORS enabled
+ * and adds the Access-Control-* headers to the responses of those routes.
+ */
+export class HttpCorsListener {
+    constructor(protected router: Router, protected config: HttpConfig) {
+    }
+
+    protected setHeaders(response: HttpResponse, headers: OutgoingHttpHeaders) {
+        for (const [name, value] of Object.entries(headers)) {
+            if (value !== undefined) response.setHeader(name, value);
+        }
+    }
+
+    protected getOptions(route: RouteConfig): CorsOptions | undefined {
+        if (route.cors === false) return;
+        if (!route.cors && !this.config.cors) return;
+        return { ...(this.config.cors || {}), ...(route.cors || {}) };
+    }
+
+    protected getRequestedRoute(request: HttpRequest, method: string): { route?: RouteConfig, methods: string[] } {
+        const url = request.getUrl();
+        const methods: string[] = [];
+        let route: RouteConfig | undefined;
+
+        for (const candidate of preflightMethods) {
+            const resolved = this.router.resolve(candidate, url);
+            if (!resolved) continue;
+            methods.push(candidate);
+            if (candidate === method || !route) route = resolved.routeConfig;
+        }
+
+        return { route, methods };
+    }
+
+    @eventDispatcher.listen(httpWorkflow.onRequest, 50) //before the router resolves the route at 100
+    onPreflight(event: typeof httpWorkflow.onRequest.event) {
+        if (event.sent) return;
+        const request = event.request;
+        const origin = request.headers.origin;
+        const requestedMethod = request.headers['access-control-request-method'];
+        if (request.method !== 'OPTIONS' || !origin || !requestedMethod) return;
+
+        const { route, methods } = this.getRequestedRoute(request, requestedMethod.toUpperCase());
+        if (!route) return;
+        const options = this.getOptions(route);
+        if (!options) return;
+
+        const headers = getCorsHeaders(options, origin);
+        if (headers) {
+            headers['Access-Control-Allow-Methods'] = (options.methods || methods).join(', ');
+            const requestedHeaders = request.headers['access-control-request-headers'];
+            if (options.allowedHeaders) {
+                headers['Access-Control-Allow-Headers'] = options.allowedHeaders.join(', ');
+            } else if (requestedHeaders) {
+                headers['Access-Control-Allow-Headers'] = requestedHeaders;
+                headers['Vary'] = 'Origin, Access-Control-Request-Headers';
+            }
+            if (options.maxAge !== undefined) headers['Access-Control-Max-Age'] = String(options.maxAge);
+        }
+
+        //without CORS headers the browser rejects the actual request
+        if (headers) this.setHeaders(event.response, headers);
+        event.response.writeHead(204);
+        event.response.end();
+    }
+
+    /**
+     * Runs before auth listeners, so that also access denied and error responses carry the CORS headers.
+     */
+    @eventDispatcher.listen(httpWorkflow.onAuth, -100)
+    onAuth(event: typeof httpWorkflow.onAuth.event) {
+        const origin = event.request.headers.origin;
+        if (!origin) return;
+        const options = this.getOptions(event.route);
+        if (!options) return;
+
+        const headers = getCorsHeaders(options, origin);
+        if (!headers) return;
+        this.setHeaders(event.response, headers);
+    }
+}
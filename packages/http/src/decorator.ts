@@ -28,7 +28,9 @@ import {
     UnionToIntersection
 } from '@deepkit/type';
 import { RouteParameterResolver } from './router';
+import { CorsOptions, HttpRateLimitOptions } from './module.config';
 import { httpMiddleware, HttpMiddleware, HttpMiddlewareConfig, HttpMiddlewareFn } from './middleware';
+import { HttpUploadHandler, HttpUploadHandlerFn } from './upload';
 
 type HttpActionMiddleware = (() => HttpMiddlewareConfig) | ClassType<HttpMiddleware> | HttpMiddlewareFn;
 
@@ -40,6 +42,7 @@ class HttpController {
     baseUrl: string = '';
     actions = new Set<HttpAction>();
     groups: string[] = [];
+    cors?: CorsOptions | false;
 
     middlewares: (() => HttpMiddlewareConfig)[] = [];
 
@@ -99,6 +102,28 @@ export class HttpAction {
     middlewares: (() => HttpMiddlewareConfig)[] = [];
     serializationOptions?: SerializationOptions;
 
+    /**
+     * undefined = HttpConfig.compression
+     */
+    compression?: boolean;
+
+    /**
+     * undefined = HttpConfig.etag
+     */
+    etag?: boolean;
+
+    /**
+     * Merged with the controller's and HttpConfig's cors options. false disables CORS.
+     */
+    cors?: CorsOptions | false;
+
+    rateLimit?: HttpRateLimitOptions;
+
+    /**
+     * When set, uploaded files are streamed to this handler instead of being written to a temporary file.
+     */
+    uploadHandler?: ClassType<HttpUploadHandler> | HttpUploadHandlerFn;
+
     resolverForToken: Map<any, ClassType> = new Map();
     resolverForParameterName: Map<string, ClassType> = new Map();
 
@@ -125,6 +150,13 @@ export class HttpDecorator {
         this.t.middlewares.push(...middlewares.map(v => isMiddlewareClassTypeOrFn(v) ? httpMiddleware.for(v) : v));
     }
 
+    /**
+     * Enables CORS for all actions of this controller. Options are merged with HttpConfig.cors, false disables it.
+     */
+    cors(options: CorsOptions | false = {}) {
+        this.t.cors = options;
+    }
+
     /**
      * Adds a parameter resolver for parameters based on the class type. Use .resolveParameterByName() for name-based resolving.
      *
@@ -209,6 +241,67 @@ export class HttpActionDecorator {
         this.t.serializer = serializer;
     }
 
+    /**
+     * Enables or disables response compression for this route, independent of HttpConfig.compression.
+     */
+    compression(enabled: boolean = true) {
+        this.t.compression = enabled;
+    }
+
+    /**
+     * Enables or disables ETag generation and conditional GET handling for this route, independent of HttpConfig.etag.
+     */
+    etag(enabled: boolean = true) {
+        this.t.etag = enabled;
+    }
+
+    /**
+     * Enables CORS for this route. Options are merged with the controller's and HttpConfig's cors options, false disables it.
+     *
+     * ```typescript
+     * class Controller {
+     *     @http.GET('/user').cors({ origin: [/\.example\.com$/], credentials: true })
+     *     user() {}
+     * }
+     * ```
+     */
+    cors(options: CorsOptions | false = {}) {
+        this.t.cors = options;
+    }
+
+    /**
+     * Limits the hits of this route per client. Exceeding requests are answered with 429 Too Many Requests
+     * before the controller is called.
+     *
+     * ```typescript
+     * class Controller {
+     *     @http.POST('/login').rateLimit({ window: 60, max: 5, key: request => request.getRemoteAddress() })
+     *     login() {}
+     * }
+     * ```
+     */
+    rateLimit(options: HttpRateLimitOptions) {
+        this.t.rateLimit = options;
+    }
+
+    /**
+     * Streams uploaded files of this route to the handler instead of writing them to a temporary file.
+     * Class handlers are resolved from the injector, so they need to be registered as provider.
+     *
+     * ```typescript
+     * class Controller {
+     *     @http.POST('/avatar').upload(async (stream, file) => {
+     *         await pipeline(stream, createWriteStream('/uploads/' + file.name));
+     *         return '/uploads/' + file.name;
+     *     })
+     *     avatar(avatar: HttpBody<{ file: UploadedFile & MimeType<'image/*'> }>) {}
+     * }
+     * ```
+     */
+    upload(handler: ClassType<HttpUploadHandler> | HttpUploadHandlerFn) {
+        this.t.uploadHandler = handler;
+    }
+
     middleware(...middlewares: HttpActionMiddleware[]) {
         this.t.middlewares.push(...middlewares.map(v => isMiddlewareClassTypeOrFn(v) ? httpMiddleware.for(v) : v));
     }
@@ -300,6 +393,24 @@ export class HttpActionDecorator {
         if (path) this.t.path = path;
     }
 
+    /**
+     * A WebSocket endpoint. The route matches WebSocket upgrade requests only and runs the http workflow
+     * (including auth) up to the controller. The connection is available as `HttpWebSocket` parameter.
+     *
+     * ```typescript
+     * class ChatController {
+     *     @http.WEBSOCKET('/chat/:room')
+     *     chat(room: string, socket: HttpWebSocket<ChatMessage>) {
+     *         socket.onMessage(message => socket.send(message));
+     *     }
+     * }
+     * ```
+     */
+    WEBSOCKET(path: string = '') {
+        this.t.httpMethods.push('WEBSOCKET');
+        if (path) this.t.path = path;
+    }
+
     ANY(path: string = '') {
         this.t.httpMethods = [];
         if (path) this.t.path = path;
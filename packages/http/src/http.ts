@@ -18,7 +18,13 @@ import { RouteConfig, RouteParameterResolverForInjector, Router } from './router
 import { createWorkflow, WorkflowEvent } from '@deepkit/workflow';
 import type { ElementStruct, render } from '@deepkit/template';
 import { FrameCategory, Stopwatch } from '@deepkit/stopwatch';
-import { getSerializeFunction, hasTypeInformation, ReflectionKind, resolveReceiveType, SerializationError, serialize, serializer, ValidationError } from '@deepkit/type';
+import { getSerializeFunction, hasTypeInformation, ReceiveType, ReflectionKind, resolveReceiveType, SerializationError, serialize, serializer, Type, ValidationError } from '@deepkit/type';
+import { Readable } from 'stream';
+import { HttpConfig } from './module.config';
+import { compress, isCompressible, negotiateEncoding } from './compression';
+import { createETag, isNotModified } from './conditional';
+import { HttpBodyCodec, HttpBodyCodecRegistry, JsonBodyCodec } from './codec';
+import { HttpWebSocket } from './websocket';
 
 export function isElementStruct(v: any): v is ElementStruct {
     return 'object' === typeof v && v.hasOwnProperty('render') && v.hasOwnProperty('attributes') && !v.slice;
@@ -82,6 +88,9 @@ export class HttpBadRequestError extends createHttpError(400, 'Bad request') {
 export class HttpAccessDeniedError extends createHttpError(403, 'Access denied') {
 }
 
+export class HttpPayloadTooLargeError extends createHttpError(413, 'Payload too large') {
+}
+
 export class HttpWorkflowEvent {
     stopped = false;
 
@@ -289,7 +298,7 @@ export const httpWorkflow = createWorkflow('http', {
     start: 'request',
     request: 'route',
     route: ['auth', 'routeNotFound'],
-    auth: ['resolveParameters', 'accessDenied'],
+    auth: ['resolveParameters', 'accessDenied', 'response'],
     resolveParameters: ['controller', 'parametersFailed'],
     accessDenied: 'response',
     controller: ['accessDenied', 'controllerError', 'response'],
@@ -342,7 +351,74 @@ export class JSONResponse extends BaseResponse {
     }
 }
 
-export type SupportedHttpResult = undefined | null | number | string | JSONResponse | HtmlResponse | HttpResponse | ServerResponse | Redirect | Uint8Array | Error;
+/**
+ * Structural type of an RxJS Observable, so rxjs is not required as dependency.
+ */
+export interface ObservableLike<T> {
+    subscribe(observer: { next: (value: T) => void, error: (error: any) => void, complete: () => void }): { unsubscribe(): void };
+}
+
+export type StreamSource<T = any> = ObservableLike<T> | AsyncIterable<T> | Readable;
+
+/**
+ * - sse: `text/event-stream`, each item is sent as `data:` JSON event.
+ * - ndjson: `application/x-ndjson`, each item is sent as JSON followed by a newline.
+ * - raw: strings and binary chunks are written as they are.
+ */
+export type StreamFormat = 'sse' | 'ndjson' | 'raw';
+
+export function isStreamSource(v: any): v is StreamSource {
+    if (v instanceof Readable) return true;
+    if (!v || 'object' !== typeof v) return false;
+    return 'function' === typeof v[Symbol.asyncIterator] || ('function' === typeof v.subscribe && 'function' === typeof v.pipe);
+}
+
+/**
+ * Streams the items of an Observable, async iterable, or Readable to the client.
+ * When the client disconnects, the Observable is unsubscribed and the iterator/stream closed.
+ *
+ * Each item is serialized using the route's serializer. The item type is read from the route's return type
+ * (e.g. `Observable<User>` or `AsyncGenerator<User>`) or can be set via `type<T>()`.
+ *
+ * ```typescript
+ * class Controller {
+ *     @http.GET('/events')
+ *     events() {
+ *         return new StreamResponse(this.userEvents, 'sse');
+ *     }
+ * }
+ * ```
+ *
+ * Returning a stream source directly from an action streams it as well: Readable as raw chunks, everything else
+ * as SSE when the client accepts `text/event-stream`, otherwise as NDJSON.
+ */
+export class StreamResponse extends BaseResponse {
+    public itemType?: Type;
+
+    constructor(public source: StreamSource, public format: StreamFormat = 'ndjson', statusCode?: number) {
+        super(statusCode);
+    }
+
+    type<T>(type?: ReceiveType<T>): this {
+        this.itemType = resolveReceiveType(type);
+        return this;
+    }
+}
+
+/**
+ * Returns the item type of stream return types like `Observable<T>`, `AsyncIterable<T>`, or `AsyncGenerator<T>`.
+ */
+export function getStreamItemType(type?: Type): Type | undefined {
+    if (!type) return;
+    if (type.kind === ReflectionKind.promise) type = type.type;
+    if (type.kind === ReflectionKind.class && type.classType.name === 'Observable') return type.typeArguments?.[0];
+    if (type.kind === ReflectionKind.objectLiteral && type.typeName && ['AsyncIterable', 'AsyncIterableIterator', 'AsyncGenerator'].includes(type.typeName)) {
+        return type.typeArguments?.[0];
+    }
+    return;
+}
+
+export type SupportedHttpResult = undefined | null | number | string | JSONResponse | HtmlResponse | HttpResponse | ServerResponse | Redirect | Uint8Array | Error | StreamResponse | StreamSource;
 
 export interface HttpResultFormatterContext {
     request: HttpRequest;
@@ -354,7 +430,41 @@ export class HttpResultFormatter {
     protected jsonContentType: string = 'application/json; charset=utf-8';
     protected htmlContentType: string = 'text/html; charset=utf-8';
 
-    constructor(protected router: Router) {
+    constructor(
+        protected router: Router,
+        protected config: HttpConfig = new HttpConfig,
+        protected codecs: HttpBodyCodecRegistry = new HttpBodyCodecRegistry,
+    ) {
+    }
+
+    /**
+     * Returns the codec requested via Accept header, when it's not the default JSON.
+     */
+    getResponseCodec(context: HttpResultFormatterContext): HttpBodyCodec | undefined {
+        const codec = this.codecs.negotiate(context.request.headers.accept);
+        if (!codec || codec instanceof JsonBodyCodec) return;
+        return codec;
+    }
+
+    protected getResultType(result: any, context: HttpResultFormatterContext): Type | undefined {
+        const route = context.route;
+        if (result instanceof JSONResponse) return route && result._statusCode ? route.getSchemaForResponse(result._statusCode) : undefined;
+
+        let type = route?.returnType;
+        if (type && type.kind === ReflectionKind.promise) type = type.type;
+        if (type && type.kind !== ReflectionKind.any) return type;
+        if (route) type = route.getSchemaForResponse(200);
+        if (type) return type;
+        if (isClassInstance(result)) {
+            const classType = getClassTypeFromInstance(result);
+            if (hasTypeInformation(classType)) return resolveReceiveType(classType);
+        }
+        return;
+    }
+
+    handleCodec(codec: HttpBodyCodec, value: any, type: Type | undefined, statusCode: number, headers: OutgoingHttpHeaders, context: HttpResultFormatterContext): void | Promise<void> {
+        this.setContentTypeIfNotSetAlready(context.response, codec.mediaTypes[0]);
+        return this.sendBody(codec.encode(value, type), statusCode, headers, context);
     }
 
     protected setContentTypeIfNotSetAlready(response: HttpResponse, contentType: string): void {
@@ -384,40 +494,185 @@ export class HttpResultFormatter {
         context.response.end();
     }
 
-    handleUnknown(result: any, context: HttpResultFormatterContext): void {
-        this.setContentTypeIfNotSetAlready(context.response, this.jsonContentType);
+    protected getHeader(headers: OutgoingHttpHeaders, response: HttpResponse, name: string): string | undefined {
+        for (const [key, value] of Object.entries(headers)) {
+            if (key.toLowerCase() === name && value !== undefined) return String(value);
+        }
+        const value = response.getHeader(name);
+        return value === undefined ? undefined : String(value);
+    }
+
+    /**
+     * Whether responses of the route are compressed, see HttpConfig.compression.
+     */
+    isCompressionEnabled(route?: RouteConfig): boolean {
+        return route?.compression ?? this.config.compression;
+    }
+
+    /**
+     * Sends a fully materialized body. Depending on the route and HttpConfig, this adds an ETag,
+     * answers conditional requests with 304 Not Modified, and compresses the body.
+     */
+    protected async sendBody(body: string | Uint8Array, statusCode: number, headers: OutgoingHttpHeaders, context: HttpResultFormatterContext): Promise<void> {
+        const response = context.response;
+        let buffer: Uint8Array = 'string' === typeof body ? Buffer.from(body, 'utf8') : body;
+        const method = context.request.method || 'GET';
+
+        if ((context.route?.etag ?? this.config.etag) && statusCode === 200 && (method === 'GET' || method === 'HEAD')) {
+            let etag = this.getHeader(headers, response, 'etag');
+            if (!etag) {
+                etag = createETag(buffer);
+                response.setHeader('ETag', etag);
+            }
+
+            if (isNotModified(context.request.headers, etag, this.getHeader(headers, response, 'last-modified'))) {
+                response.writeHead(304, headers);
+                response.end();
+                return;
+            }
+        }
 
-        context.response.end(JSON.stringify(result));
+        if (this.isCompressionEnabled(context.route)) {
+            const vary = response.getHeader('Vary');
+            if (!vary) {
+                response.setHeader('Vary', 'Accept-Encoding');
+            } else if (!String(vary).toLowerCase().includes('accept-encoding')) {
+                response.setHeader('Vary', vary + ', Accept-Encoding');
+            }
+            const encoding = buffer.byteLength >= this.config.compressionThreshold
+            && !this.getHeader(headers, response, 'content-encoding')
+            && isCompressible(this.getHeader(headers, response, 'content-type'))
+                ? negotiateEncoding(context.request.headers['accept-encoding']) : undefined;
+
+            if (encoding) {
+                buffer = await compress(encoding, buffer);
+                response.setHeader('Content-Encoding', encoding);
+            }
+        }
+
+        response.writeHead(statusCode, headers);
+        response.end(buffer);
+    }
+
+    handleUnknown(result: any, context: HttpResultFormatterContext): void | Promise<void> {
+        this.setContentTypeIfNotSetAlready(context.response, this.jsonContentType);
+        return this.sendBody(JSON.stringify(result), context.response.statusCode, {}, context);
     }
 
-    handleHtmlResponse(result: HtmlResponse, context: HttpResultFormatterContext): void {
+    handleHtmlResponse(result: HtmlResponse, context: HttpResultFormatterContext): void | Promise<void> {
         this.setContentTypeIfNotSetAlready(context.response, this.htmlContentType);
-        context.response.writeHead(result._statusCode || 200, result._headers);
-        context.response.end(result.html);
+        return this.sendBody(result.html, result._statusCode || 200, result._headers, context);
     }
 
-    handleJSONResponse(result: JSONResponse, context: HttpResultFormatterContext): void {
+    handleJSONResponse(result: JSONResponse, context: HttpResultFormatterContext): void | Promise<void> {
         this.setContentTypeIfNotSetAlready(context.response, this.jsonContentType);
-        context.response.writeHead(result._statusCode || 200, result._headers);
-        context.response.end(JSON.stringify(result.json));
+        return this.sendBody(JSON.stringify(result.json), result._statusCode || 200, result._headers, context);
     }
 
-    handleTypeEntity<T>(classType: ClassType<T>, instance: T, context: HttpResultFormatterContext, route?: RouteConfig): void {
+    handleTypeEntity<T>(classType: ClassType<T>, instance: T, context: HttpResultFormatterContext, route?: RouteConfig): void | Promise<void> {
         this.setContentTypeIfNotSetAlready(context.response, this.jsonContentType);
 
         const serializerToUse = route && route?.serializer ? route.serializer : serializer;
 
-        context.response.end(JSON.stringify(serialize(instance, route ? route.serializationOptions : undefined, serializerToUse, undefined, resolveReceiveType(classType))));
+        const json = JSON.stringify(serialize(instance, route ? route.serializationOptions : undefined, serializerToUse, undefined, resolveReceiveType(classType)));
+        return this.sendBody(json, context.response.statusCode, {}, context);
     }
 
-    handleBinary(result: Uint8Array, context: HttpResultFormatterContext): void {
-        context.response.end(result);
+    handleBinary(result: Uint8Array, context: HttpResultFormatterContext): void | Promise<void> {
+        return this.sendBody(result, context.response.statusCode, {}, context);
     }
 
     handleResponse(context: HttpResultFormatterContext) {
     }
 
-    handle(result: SupportedHttpResult, context: HttpResultFormatterContext): void {
+    protected writeStreamItem(response: HttpResponse, format: StreamFormat, item: any): boolean {
+        if (format === 'sse') return response.write('data: ' + JSON.stringify(item) + '\n\n');
+        if (format === 'ndjson') return response.write(JSON.stringify(item) + '\n');
+        if ('string' === typeof item || item instanceof Uint8Array) return response.write(item);
+        return response.write(JSON.stringify(item));
+    }
+
+    /**
+     * Writes all items of the source and resolves when the source completed or the client disconnected.
+     */
+    async handleStream(result: StreamResponse, context: HttpResultFormatterContext): Promise<void> {
+        const response = context.response;
+        const contentTypes: { [format in StreamFormat]: string } = {
+            sse: 'text/event-stream; charset=utf-8',
+            ndjson: 'application/x-ndjson; charset=utf-8',
+            raw: 'application/octet-stream',
+        };
+        this.setContentTypeIfNotSetAlready(response, contentTypes[result.format]);
+        const headers: OutgoingHttpHeaders = result.format === 'sse' ? { 'Cache-Control': 'no-cache', 'Connection': 'keep-alive', ...result._headers } : result._headers;
+        response.writeHead(result._statusCode || 200, headers);
+        //send headers right away, the first item might take a while
+        response.flushHeaders();
+
+        const itemType = result.itemType || getStreamItemType(context.route?.returnType);
+        const serializerToUse = context.route && context.route.serializer ? context.route.serializer : serializer;
+        const serializeItem = itemType && result.autoSerializing && result.format !== 'raw' ? getSerializeFunction(itemType, serializerToUse.serializeRegistry) : undefined;
+        const write = (item: any) => this.writeStreamItem(response, result.format, serializeItem ? serializeItem(item, context.route?.serializationOptions) : item);
+
+        let disconnected = false;
+        let disconnect = () => {
+        };
+        const onClose = () => {
+            if (response.writableEnded) return;
+            disconnected = true;
+            disconnect();
+        };
+        response.once('close', onClose);
+
+        try {
+            const source = result.source;
+            if (source instanceof Readable || Symbol.asyncIterator in source) {
+                const iterator = (source as AsyncIterable<any>)[Symbol.asyncIterator]();
+                disconnect = () => {
+                    if (source instanceof Readable) source.destroy();
+                    if (iterator.return) iterator.return().catch(() => undefined);
+                };
+                while (!disconnected) {
+                    const next = await iterator.next();
+                    if (next.done || disconnected) break;
+                    if (!write(next.value)) {
+                        //wait for the client to catch up
+                        await new Promise<void>(resolve => {
+                            const done = () => {
+                                response.off('drain', done);
+                                response.off('close', done);
+                                resolve();
+                            };
+                            response.once('drain', done);
+                            response.once('close', done);
+                        });
+                    }
+                }
+            } else {
+                await new Promise<void>((resolve, reject) => {
+                    const subscription = (source as ObservableLike<any>).subscribe({ next: write, error: reject, complete: resolve });
+                    disconnect = () => {
+                        subscription.unsubscribe();
+                        resolve();
+                    };
+                });
+            }
+        } catch (error: any) {
+            if (disconnected) return;
+            if (result.format === 'sse') {
+                response.write('event: error\ndata: ' + JSON.stringify({ message: error.message }) + '\n\n');
+            } else {
+                //headers are already sent, so the client can only detect the failure by the aborted transfer
+                response.destroy(error);
+                return;
+            }
+        } finally {
+            response.off('close', onClose);
+        }
+
+        if (!disconnected) response.end();
+    }
+
+    handle(result: SupportedHttpResult, context: HttpResultFormatterContext): void | Promise<void> {
         if (result === null || result === undefined) {
             this.handleUndefined(result, context);
         } else if (result instanceof Error) {
@@ -427,21 +682,31 @@ export class HttpResultFormatter {
         } else if (result instanceof ServerResponse) {
             this.handleResponse(context);
         } else if (result instanceof HtmlResponse) {
-            this.handleHtmlResponse(result, context);
+            return this.handleHtmlResponse(result, context);
         } else if (result instanceof Uint8Array) {
-            this.handleBinary(result, context);
+            return this.handleBinary(result, context);
         } else if (result instanceof JSONResponse) {
-            this.handleJSONResponse(result, context);
+            const codec = this.getResponseCodec(context);
+            if (codec) return this.handleCodec(codec, result.json, this.getResultType(result, context), result._statusCode || 200, result._headers, context);
+            return this.handleJSONResponse(result, context);
+        } else if (result instanceof StreamResponse) {
+            return this.handleStream(result, context);
+        } else if (isStreamSource(result)) {
+            const accept = context.request.headers.accept || '';
+            const format: StreamFormat = result instanceof Readable ? 'raw' : accept.includes('text/event-stream') ? 'sse' : 'ndjson';
+            return this.handleStream(new StreamResponse(result, format), context);
         } else {
+            const codec = this.getResponseCodec(context);
+            if (codec) return this.handleCodec(codec, result, this.getResultType(result, context), context.response.statusCode, {}, context);
+
             if (isClassInstance(result)) {
                 const classType = getClassTypeFromInstance(result);
                 if (hasTypeInformation(classType)) {
-                    this.handleTypeEntity(classType, result, context);
-                    return;
+                    return this.handleTypeEntity(classType, result, context);
                 }
             }
 
-            this.handleUnknown(result, context);
+            return this.handleUnknown(result, context);
         }
     }
 }
@@ -586,6 +851,11 @@ export class HttpListener {
 
         const controllerInstance = event.injectorContext.get(event.route.action.controller, event.route.action.module);
 
+        if (event.route.isWebSocket()) {
+            await this.callWebSocketAction(event, controllerInstance);
+            return;
+        }
+
         const start = Date.now();
         const frame = this.stopwatch ? this.stopwatch.start(getClassName(event.route.action.controller) + '.' + event.route.action.methodName, FrameCategory.httpController) : undefined;
         try {
@@ -613,6 +883,32 @@ export class HttpListener {
         }
     }
 
+    /**
+     * Accepts the WebSocket connection and then calls the action. There is no response step, since the
+     * connection is handed over to the action.
+     */
+    protected async callWebSocketAction(event: typeof httpWorkflow.onController.event, controllerInstance: any) {
+        const webSocket = event.injectorContext.get(HttpWebSocket) as HttpWebSocket | undefined;
+        if (!webSocket) {
+            event.send(new HtmlResponse('Upgrade required', 426).header('Upgrade', 'websocket'));
+            return;
+        }
+
+        //invalid handshakes are answered with 400
+        if (!webSocket.accept()) return;
+        webSocket.onError(error => this.logger.error('WebSocket error', error));
+
+        const frame = this.stopwatch ? this.stopwatch.start(getClassName(event.route.action.controller) + '.' + event.route.action.methodName, FrameCategory.httpController) : undefined;
+        try {
+            await controllerInstance[event.route.action.methodName].apply(controllerInstance, event.parameters);
+        } catch (error: any) {
+            this.logger.error('WebSocket action failed', error);
+            webSocket.close(1011, 'Internal error');
+        } finally {
+            if (frame) frame.end();
+        }
+    }
+
     @eventDispatcher.listen(httpWorkflow.onParametersFailed, 100)
     onParametersFailed(event: typeof httpWorkflow.onParametersFailed.event): void {
         if (event.response.finished) return;
@@ -632,6 +928,10 @@ export class HttpListener {
                 message: event.error.message,
                 errors: event.error.errors
             }, 400).disableAutoSerializing());
+        } else if (event.error instanceof HttpError) {
+            event.send(new JSONResponse({
+                message: event.error.message
+            }, event.error.httpCode).disableAutoSerializing());
         } else {
             this.logger.error('Controller parameter resolving error:', event.error);
 
@@ -670,9 +970,13 @@ export class HttpListener {
         if (!event.route) return;
         if (event.response.headersSent) return;
         if (event.result === undefined || event.result === null) return;
+        //typed codecs encode the original values
+        if (this.resultFormatter.getResponseCodec(event)?.typed) return;
 
         if (event.result instanceof HtmlResponse || event.result instanceof ServerResponse || event.result instanceof Redirect) {
             // don't do anything
+        } else if (event.result instanceof StreamResponse || isStreamSource(event.result)) {
+            // items are serialized while streaming
         } else if (event.result instanceof JSONResponse) {
             const schema = (event.result._statusCode && event.route.getSchemaForResponse(event.result._statusCode)) || event.route.returnType;
 
@@ -699,6 +1003,6 @@ export class HttpListener {
     async onResponse(event: typeof httpWorkflow.onResponse.event) {
         if (event.response.headersSent) return;
 
-        this.resultFormatter.handle(event.result, event);
+        await this.resultFormatter.handle(event.result, event);
     }
 }
@@ -6,6 +6,9 @@ import { HttpRequest, HttpResponse, MemoryHttpResponse, RequestBuilder } from '.
 import { HttpRequestEvent, httpWorkflow } from './http';
 import { FrameCategory, Stopwatch } from '@deepkit/stopwatch';
 import { unlink } from 'fs';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
+import { HttpWebSocket, HttpWebSocketServer, isWebSocketUpgrade } from './websocket';
 
 export class HttpKernel {
     constructor(
@@ -13,6 +16,7 @@ export class HttpKernel {
         protected eventDispatcher: EventDispatcher,
         protected injectorContext: InjectorContext,
         protected logger: LoggerInterface,
+        protected webSocketServer: HttpWebSocketServer,
         protected stopwatch?: Stopwatch,
     ) {
 
@@ -26,10 +30,35 @@ export class HttpKernel {
         return response;
     }
 
-    async handleRequest(req: HttpRequest, res: HttpResponse) {
+    /**
+     * Returns true if the request is a WebSocket upgrade request for a `@http.WEBSOCKET` route.
+     */
+    isWebSocketRequest(req: HttpRequest): boolean {
+        return isWebSocketUpgrade(req) && this.router.resolveRequest(req) !== undefined;
+    }
+
+    /**
+     * Handles the `upgrade` event of a http server for `@http.WEBSOCKET` routes.
+     *
+     * ```typescript
+     * server.on('upgrade', (request, socket, head) => {
+     *     if (httpKernel.isWebSocketRequest(request)) httpKernel.handleUpgrade(request, socket, head);
+     * });
+     * ```
+     */
+    async handleUpgrade(req: HttpRequest, socket: Duplex, head: Buffer) {
+        const res = new HttpResponse(req);
+        res.assignSocket(socket as Socket);
+        //when the upgrade is rejected with a regular response (e.g. 403), the connection can not be reused
+        res.once('finish', () => socket.end());
+        await this.handleRequest(req, res, new HttpWebSocket(req, res, head, this.webSocketServer));
+    }
+
+    async handleRequest(req: HttpRequest, res: HttpResponse, webSocket?: HttpWebSocket) {
         const httpInjectorContext = this.injectorContext.createChildScope('http');
         httpInjectorContext.set(HttpRequest, req);
         httpInjectorContext.set(HttpResponse, res);
+        if (webSocket) httpInjectorContext.set(HttpWebSocket, webSocket);
 
         const frame = this.stopwatch ? this.stopwatch.start(req.method + ' ' + req.getUrl(), FrameCategory.http, true) : undefined;
         const workflow = httpWorkflow.create('start', this.eventDispatcher, httpInjectorContext, this.stopwatch);
@@ -14,11 +14,87 @@ import * as querystring from 'querystring';
 import { Writable } from 'stream';
 import { metaAnnotation, ReflectionKind, Type, ValidationErrorItem } from '@deepkit/type';
 
+export interface CookieOptions {
+    /**
+     * Lifetime in seconds.
+     */
+    maxAge?: number;
+    expires?: Date;
+    domain?: string;
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/**
+ * Parses a Cookie request header into a name => value map. Values are URI decoded.
+ */
+export function parseCookies(header?: string): { [name: string]: string } {
+    const cookies: { [name: string]: string } = {};
+    if (!header) return cookies;
+
+    for (const part of header.split(';')) {
+        const separator = part.indexOf('=');
+        if (separator === -1) continue;
+        const name = part.substr(0, separator).trim();
+        if (!name || cookies[name] !== undefined) continue;
+
+        let value = part.substr(separator + 1).trim();
+        if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+        try {
+            cookies[name] = decodeURIComponent(value);
+        } catch {
+            cookies[name] = value;
+        }
+    }
+
+    return cookies;
+}
+
+/**
+ * Serializes a cookie into a Set-Cookie header value. The value is URI encoded.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+    if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(name)) throw new Error(`Invalid cookie name ${name}`);
+
+    let cookie = name + '=' + encodeURIComponent(value);
+    if (options.maxAge !== undefined) cookie += '; Max-Age=' + Math.floor(options.maxAge);
+    if (options.expires) cookie += '; Expires=' + options.expires.toUTCString();
+    if (options.domain) cookie += '; Domain=' + options.domain;
+    if (options.path) cookie += '; Path=' + options.path;
+    if (options.httpOnly) cookie += '; HttpOnly';
+    if (options.secure) cookie += '; Secure';
+    if (options.sameSite) cookie += '; SameSite=' + options.sameSite.charAt(0).toUpperCase() + options.sameSite.substr(1);
+    return cookie;
+}
+
 export class HttpResponse extends ServerResponse {
     status(code: number) {
         this.writeHead(code);
         this.end();
     }
+
+    /**
+     * Adds a Set-Cookie header. Path defaults to `/`.
+     */
+    setCookie(name: string, value: string | number | boolean, options: CookieOptions = {}): this {
+        const cookie = serializeCookie(name, String(value), { path: '/', ...options });
+        const existing = this.getHeader('set-cookie');
+        if (existing === undefined) {
+            this.setHeader('set-cookie', [cookie]);
+        } else {
+            this.setHeader('set-cookie', [...(Array.isArray(existing) ? existing : [String(existing)]), cookie]);
+        }
+        return this;
+    }
+
+    /**
+     * Instructs the client to remove the cookie. Domain and path need to be the same as when the cookie was set.
+     */
+    clearCookie(name: string, options: CookieOptions = {}): this {
+        return this.setCookie(name, '', { ...options, maxAge: 0, expires: new Date(0) });
+    }
 }
 
 export type HttpRequestQuery = { [name: string]: string };
@@ -63,6 +139,17 @@ export type HttpBodyValidation<T> = ValidatedBody<T> & { __meta?: ['httpBodyVali
 export type HttpQuery<T, Options extends { name?: string } = {}> = T & { __meta?: ['httpQuery', Options] };
 export type HttpQueries<T, Options extends { name?: string } = {}> = T & { __meta?: ['httpQueries', Options] };
 
+/**
+ * Reads a request header. Without a name option the parameter name is used in kebab-case,
+ * e.g. `userAgent: HttpHeader<string>` reads the `user-agent` header.
+ */
+export type HttpHeader<T, Options extends { name?: string } = {}> = T & { __meta?: ['httpHeader', Options] };
+
+/**
+ * Reads a cookie of the request. Without a name option the parameter name is used.
+ */
+export type HttpCookie<T, Options extends { name?: string } = {}> = T & { __meta?: ['httpCookie', Options] };
+
 /**
  * For all parameters used in the URL path, a regular expression of /[^/]+/ is used. To change that, use getRegExp.
  *
@@ -151,6 +238,11 @@ export class RequestBuilder {
         return this;
     }
 
+    cookies(cookies: { [name: string]: string }): this {
+        this._headers['cookie'] = Object.entries(cookies).map(([name, value]) => name + '=' + encodeURIComponent(value)).join('; ');
+        return this;
+    }
+
     json(body: object): this {
         this.contentBuffer = Buffer.from(JSON.stringify(body), 'utf8');
         this._headers['content-type'] = 'application/json; charset=utf-8';
@@ -1,3 +1,85 @@
+import { RateLimitOptions } from '@deepkit/rate-limit';
+import { HttpRequest } from './model';
+
+export interface HttpRateLimitOptions extends RateLimitOptions {
+    /**
+     * Returns the key hits are counted for. Default is the remote address of the client.
+     */
+    key?: (request: HttpRequest) => string;
+}
+
+export interface CorsOptions {
+    /**
+     * Allowed origins. true (default) allows every origin, a string or RegExp a specific one,
+     * and an array is an allow-list of strings and regular expressions.
+     */
+    origin?: boolean | string | RegExp | (string | RegExp)[];
+
+    /**
+     * Methods announced in preflight responses. Per default the methods of the routes registered for the path.
+     */
+    methods?: string[];
+
+    /**
+     * Request headers allowed in preflight responses. Per default the requested headers (Access-Control-Request-Headers) are allowed.
+     */
+    allowedHeaders?: string[];
+
+    /**
+     * Response headers the browser exposes to the client (Access-Control-Expose-Headers).
+     */
+    exposedHeaders?: string[];
+
+    /**
+     * Allows cookies and authorization headers. The origin is then reflected instead of sending `*`.
+     * Requires an explicit `origin` allow-list, with the wildcard origin credentials are not allowed.
+     */
+    credentials?: boolean;
+
+    /**
+     * How long in seconds the preflight response can be cached.
+     */
+    maxAge?: number;
+}
+
 export class HttpConfig {
     debug: boolean = false;
+
+    /**
+     * Compresses responses with br, gzip, or deflate based on the Accept-Encoding header.
+     * Can be overwritten per route via `@http.GET().compression(false)`.
+     * Static asset files are compressed too, except when they are bigger than 10 MiB. Streamed responses are not compressed.
+     */
+    compression: boolean = false;
+
+    /**
+     * Bodies smaller than this (in bytes) are not compressed.
+     */
+    compressionThreshold: number = 1024;
+
+    /**
+     * Adds a weak ETag to successful GET/HEAD responses and answers If-None-Match/If-Modified-Since with 304 Not Modified.
+     * Can be overwritten per route via `@http.GET().etag(false)`.
+     */
+    etag: boolean = false;
+
+    /**
+     * Maximum size in bytes of request bodies (including uploaded files). Larger bodies are answered
+     * with 413 Payload Too Large. 0 disables the limit.
+     */
+    maxBodySize: number = 0;
+
+    /**
+     * Enables CORS for all routes. Routes can change or disable it via `@http.cors()`.
+     */
+    cors?: CorsOptions;
+
+    /**
+     * When set, the OpenAPI document of all routes is served at this path, e.g. `/openapi.json`.
+     */
+    openApiPath: string = '';
+
+    openApiTitle: string = 'API';
+
+    openApiVersion: string = '1.0.0';
 }
@@ -8,8 +8,14 @@ import { HttpControllers } from './controllers';
 import { ConsoleTransport, Logger } from '@deepkit/logger';
 import { HttpRequest, HttpResponse } from './model';
 import '@deepkit/type';
-import { ClassType } from '@deepkit/core';
 import { httpClass } from './decorator';
+import { HttpCorsListener } from './cors';
+import { HttpBodyCodecRegistry } from './codec';
+import { HttpRateLimitListener } from './rate-limit';
+import { HttpWebSocket, HttpWebSocketServer } from './websocket';
+import { ClassType } from '@deepkit/core';
+import { RateLimiter } from '@deepkit/rate-limit';
+import { OpenApiExportCommand, OpenApiOptions, registerOpenApiController } from './openapi';
 
 export class HttpModule extends createModule({
     config: HttpConfig,
@@ -18,12 +24,22 @@ export class HttpModule extends createModule({
         HttpKernel,
         HttpResultFormatter,
         HttpRouterFilterResolver,
+        HttpBodyCodecRegistry,
+        RateLimiter,
+        HttpWebSocketServer,
         { provide: HttpResponse, scope: 'http' },
         { provide: HttpRequest, scope: 'http' },
+        //set for WebSocket upgrade requests by HttpKernel.handleUpgrade
+        { provide: HttpWebSocket, scope: 'http', useValue: undefined },
         { provide: Logger, useValue: new Logger([new ConsoleTransport()]) },
     ],
+    controllers: [
+        OpenApiExportCommand,
+    ],
     listeners: [
         HttpListener,
+        HttpCorsListener,
+        HttpRateLimitListener,
     ],
     workflows: [
         httpWorkflow
@@ -33,8 +49,12 @@ export class HttpModule extends createModule({
         HttpKernel,
         HttpResultFormatter,
         HttpRouterFilterResolver,
+        HttpBodyCodecRegistry,
+        RateLimiter,
         HttpResponse,
         HttpRequest,
+        HttpWebSocket,
+        HttpWebSocketServer,
         HttpControllers,
         Logger,
     ]
@@ -43,6 +63,13 @@ export class HttpModule extends createModule({
 
     process() {
         this.addProvider({ provide: HttpControllers, useValue: this.httpControllers });
+
+        if (this.config.openApiPath) {
+            const options = new OpenApiOptions;
+            options.title = this.config.openApiTitle;
+            options.version = this.config.openApiVersion;
+            registerOpenApiController(this, this.config.openApiPath, options);
+        }
     }
 
     processController(module: AppModule<any>, controller: ClassType) {
@@ -0,0 +1,438 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { AppModule, cli, Command, flag } from '@deepkit/app';
+import { getClassName } from '@deepkit/core';
+import { isBinary, isNullable, ReflectionClass, ReflectionKind, stringifyType, Type, TypeLiteral, validationAnnotation } from '@deepkit/type';
+import { writeFileSync } from 'fs';
+import { JSONResponse } from './http';
+import { HttpConfig } from './module.config';
+import { dotToUrlPath, parseRouteControllerAction, RouteConfig, Router, UploadedFile } from './router';
+
+export interface JsonSchema {
+    $ref?: string;
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    format?: string;
+    nullable?: boolean;
+    description?: string;
+    enum?: any[];
+    items?: JsonSchema;
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: JsonSchema | boolean;
+    anyOf?: JsonSchema[];
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: boolean;
+    exclusiveMaximum?: boolean;
+    multipleOf?: number;
+}
+
+export interface OpenApiParameter {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie';
+    required: boolean;
+    description?: string;
+    schema: JsonSchema;
+}
+
+export interface OpenApiContent {
+    [contentType: string]: { schema: JsonSchema };
+}
+
+export interface OpenApiOperation {
+    operationId: string;
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    parameters: OpenApiParameter[];
+    requestBody?: { required: boolean, content: OpenApiContent };
+    responses: { [statusCode: string]: { description: string, content?: OpenApiContent } };
+}
+
+export interface OpenApiDocument {
+    openapi: string;
+    info: { title: string, version: string, description?: string };
+    servers?: { url: string }[];
+    paths: { [path: string]: { [method: string]: OpenApiOperation } };
+    components: { schemas: { [name: string]: JsonSchema } };
+}
+
+export class OpenApiOptions {
+    title: string = 'API';
+    version: string = '1.0.0';
+    description?: string;
+    servers?: string[];
+
+    /**
+     * Routes in one of these groups are not part of the document.
+     */
+    excludeGroups: string[] = ['app-static'];
+}
+
+/**
+ * Converts @deepkit/type types into JSON Schema (OpenAPI 3.0 dialect). Named types (classes and interfaces)
+ * are registered in `schemas` and referenced via $ref, which also makes circular types possible.
+ */
+export class OpenApiSchemaRegistry {
+    public schemas: { [name: string]: JsonSchema } = {};
+
+    protected names = new Map<any, string>();
+
+    /**
+     * Whether the last converted type contained an UploadedFile.
+     */
+    public hasUploadedFile: boolean = false;
+
+    getSchema(type: Type): JsonSchema {
+        const schema = this.convert(type);
+        this.applyValidators(type, schema);
+        return schema;
+    }
+
+    protected getName(origin: any, name: string): string {
+        let registered = this.names.get(origin);
+        if (registered) return registered;
+
+        registered = name.replace(/[^a-zA-Z0-9.\-_]/g, '_');
+        let i = 1;
+        const base = registered;
+        while (this.schemas[registered]) registered = base + '_' + (i++);
+        this.names.set(origin, registered);
+        return registered;
+    }
+
+    protected getObjectSchema(type: Type & { kind: ReflectionKind.class | ReflectionKind.objectLiteral }): JsonSchema {
+        const schema: JsonSchema = { type: 'object', properties: {} };
+        const required: string[] = [];
+
+        for (const member of type.types) {
+            if (member.kind === ReflectionKind.indexSignature) {
+                schema.additionalProperties = this.getSchema(member.type);
+                continue;
+            }
+            if (member.kind !== ReflectionKind.property && member.kind !== ReflectionKind.propertySignature) continue;
+            if ('symbol' === typeof member.name) continue;
+            if (member.kind === ReflectionKind.property && member.visibility !== undefined && member.visibility !== 0) continue;
+
+            const name = String(member.name);
+            const propertySchema = this.getSchema(member.type);
+            if (member.description) propertySchema.description = member.description;
+            schema.properties![name] = propertySchema;
+            if (!member.optional && !isNullable(member.type) && !(member.kind === ReflectionKind.property && member.default)) required.push(name);
+        }
+
+        if (required.length) schema.required = required;
+        return schema;
+    }
+
+    protected getReference(origin: any, name: string, type: Type & { kind: ReflectionKind.class | ReflectionKind.objectLiteral }): JsonSchema {
+        const known = this.names.has(origin);
+        const schemaName = this.getName(origin, name);
+        if (!known) {
+            //register first, so circular references resolve to the same name
+            this.schemas[schemaName] = {};
+            this.schemas[schemaName] = this.getObjectSchema(type);
+        }
+        return { $ref: '#/components/schemas/' + schemaName };
+    }
+
+    protected convert(type: Type): JsonSchema {
+        switch (type.kind) {
+            case ReflectionKind.string:
+                return { type: 'string' };
+            case ReflectionKind.number:
+                return { type: 'number' };
+            case ReflectionKind.bigint:
+                return { type: 'integer' };
+            case ReflectionKind.boolean:
+                return { type: 'boolean' };
+            case ReflectionKind.null:
+                return { nullable: true };
+            case ReflectionKind.regexp:
+                return { type: 'string' };
+            case ReflectionKind.literal: {
+                const literal = type.literal;
+                if (literal instanceof RegExp) return { type: 'string' };
+                if ('bigint' === typeof literal) return { type: 'integer', enum: [Number(literal)] };
+                if ('symbol' === typeof literal) return {};
+                return { type: typeof literal as 'string' | 'number' | 'boolean', enum: [literal] };
+            }
+            case ReflectionKind.templateLiteral:
+                return { type: 'string' };
+            case ReflectionKind.enum: {
+                const values = type.values.filter(v => v !== undefined);
+                const types = new Set(values.map(v => typeof v));
+                const schema: JsonSchema = { enum: values };
+                if (types.size === 1) schema.type = types.has('number') ? 'number' : 'string';
+                return schema;
+            }
+            case ReflectionKind.array:
+                return { type: 'array', items: this.getSchema(type.type) };
+            case ReflectionKind.tuple:
+                return {
+                    type: 'array',
+                    items: type.types.length === 1 ? this.getSchema(type.types[0].type) : { anyOf: type.types.map(v => this.getSchema(v.type)) },
+                    minItems: type.types.filter(v => !v.optional).length,
+                    maxItems: type.types.length,
+                };
+            case ReflectionKind.union:
+                return this.getUnionSchema(type.types);
+            case ReflectionKind.promise:
+                return this.getSchema(type.type);
+            case ReflectionKind.class: {
+                if (type.classType === Date) return { type: 'string', format: 'date-time' };
+                if (type.classType === UploadedFile) {
+                    this.hasUploadedFile = true;
+                    return { type: 'string', format: 'binary' };
+                }
+                //binary data is base64 encoded in JSON
+                if (isBinary(type)) return { type: 'string', format: 'byte' };
+                if (type.classType === Set && type.arguments) return { type: 'array', items: this.getSchema(type.arguments[0]) };
+                if (type.classType === Map && type.arguments) return { type: 'object', additionalProperties: this.getSchema(type.arguments[1]) };
+                const name = ReflectionClass.from(type).name || getClassName(type.classType);
+                return this.getReference(type.classType, name, type);
+            }
+            case ReflectionKind.objectLiteral:
+                if (type.typeName) return this.getReference(type.typeName, type.typeName, type);
+                return this.getObjectSchema(type);
+            default:
+                return {};
+        }
+    }
+
+    protected getUnionSchema(types: Type[]): JsonSchema {
+        const nullable = types.some(v => v.kind === ReflectionKind.null);
+        types = types.filter(v => v.kind !== ReflectionKind.null && v.kind !== ReflectionKind.undefined);
+
+        let schema: JsonSchema;
+        if (types.length && types.every(v => v.kind === ReflectionKind.literal && ('string' === typeof v.literal || 'number' === typeof v.literal))) {
+            const values = types.map(v => (v as TypeLiteral).literal);
+            const valueTypes = new Set(values.map(v => typeof v));
+            schema = { enum: values };
+            if (valueTypes.size === 1) schema.type = valueTypes.has('number') ? 'number' : 'string';
+        } else if (types.length === 1) {
+            schema = { ...this.getSchema(types[0]) };
+        } else if (types.length === 2 && types.every(v => v.kind === ReflectionKind.boolean || (v.kind === ReflectionKind.literal && 'boolean' === typeof v.literal))) {
+            schema = { type: 'boolean' };
+        } else {
+            schema = { anyOf: types.map(v => this.getSchema(v)) };
+        }
+
+        if (nullable) schema.nullable = true;
+        return schema;
+    }
+
+    protected applyValidators(type: Type, schema: JsonSchema): void {
+        for (const validation of validationAnnotation.getAnnotations(type)) {
+            const arg = validation.args[0];
+            const value = arg && arg.kind === ReflectionKind.literal ? arg.literal : undefined;
+            const numeric = 'number' === typeof value || 'bigint' === typeof value ? Number(value) : undefined;
+
+            switch (validation.name) {
+                case 'pattern':
+                    if (value instanceof RegExp) schema.pattern = value.source;
+                    break;
+                case 'minLength':
+                    if (schema.type === 'array') schema.minItems = numeric; else schema.minLength = numeric;
+                    break;
+                case 'maxLength':
+                    if (schema.type === 'array') schema.maxItems = numeric; else schema.maxLength = numeric;
+                    break;
+                case 'minimum':
+                    schema.minimum = numeric;
+                    break;
+                case 'maximum':
+                    schema.maximum = numeric;
+                    break;
+                case 'exclusiveMinimum':
+                    schema.minimum = numeric;
+                    schema.exclusiveMinimum = true;
+                    break;
+                case 'exclusiveMaximum':
+                    schema.maximum = numeric;
+                    schema.exclusiveMaximum = true;
+                    break;
+                case 'positive':
+                    schema.minimum = 0;
+                    if (value === false) schema.exclusiveMinimum = true;
+                    break;
+                case 'negative':
+                    schema.maximum = 0;
+                    if (value === false) schema.exclusiveMaximum = true;
+                    break;
+                case 'multipleOf':
+                    schema.multipleOf = numeric;
+                    break;
+            }
+        }
+    }
+}
+
+function getRouteReturnType(route: RouteConfig): Type | undefined {
+    const type = route.returnType;
+    if (!type) return;
+    const unwrapped = type.kind === ReflectionKind.promise ? type.type : type;
+    if (unwrapped.kind === ReflectionKind.void || unwrapped.kind === ReflectionKind.undefined || unwrapped.kind === ReflectionKind.any || unwrapped.kind === ReflectionKind.unknown) return;
+    return unwrapped;
+}
+
+/**
+ * Generates an OpenAPI 3 document of all routes registered in the Router.
+ */
+export class OpenApiGenerator {
+    constructor(protected router: Router, protected options: OpenApiOptions = new OpenApiOptions) {
+    }
+
+    generate(): OpenApiDocument {
+        const registry = new OpenApiSchemaRegistry();
+        const document: OpenApiDocument = {
+            openapi: '3.0.3',
+            info: { title: this.options.title, version: this.options.version },
+            paths: {},
+            components: { schemas: registry.schemas },
+        };
+        if (this.options.description) document.info.description = this.options.description;
+        if (this.options.servers) document.servers = this.options.servers.map(url => ({ url }));
+
+        for (const route of this.router.getRoutes()) {
+            if (route.internal || route.isWebSocket()) continue;
+            if (route.groups.some(v => this.options.excludeGroups.includes(v))) continue;
+
+            const path = route.getFullPath().replace(/:(\w+)/g, '{$1}');
+            const operation = this.getOperation(route, registry);
+            const methods = route.httpMethods.length ? route.httpMethods : ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+            if (!document.paths[path]) document.paths[path] = {};
+
+            for (const method of methods) {
+                const lower = method.toLowerCase();
+                document.paths[path][lower] = methods.length > 1 ? { ...operation, operationId: operation.operationId + '_' + lower } : operation;
+            }
+        }
+
+        return document;
+    }
+
+    protected getOperation(route: RouteConfig, registry: OpenApiSchemaRegistry): OpenApiOperation {
+        const operation: OpenApiOperation = {
+            operationId: route.name || getClassName(route.action.controller) + '.' + route.action.methodName,
+            parameters: [],
+            responses: {},
+        };
+        if (route.description) operation.description = route.description;
+        if (route.category) operation.tags = [route.category];
+
+        for (const parameter of parseRouteControllerAction(route).getParameters()) {
+            const reflection = parameter.parameter;
+
+            if (parameter.body || parameter.bodyValidation) {
+                registry.hasUploadedFile = false;
+                const schema = registry.getSchema(parameter.getType());
+                const contentType = registry.hasUploadedFile ? 'multipart/form-data' : 'application/json';
+                operation.requestBody = { required: !reflection.isOptional(), content: { [contentType]: { schema } } };
+            } else if (parameter.query) {
+                const name = parameter.typePath || parameter.getName();
+                operation.parameters.push({ name: dotToUrlPath(name), in: 'query', required: reflection.isValueRequired(), schema: registry.getSchema(reflection.type) });
+            } else if (parameter.queries) {
+                //each property is its own query parameter
+                for (const property of ReflectionClass.from(reflection.type).getProperties()) {
+                    const name = parameter.typePath ? parameter.typePath + '.' + property.name : String(property.name);
+                    const queryParameter: OpenApiParameter = { name: dotToUrlPath(name), in: 'query', required: property.isValueRequired(), schema: registry.getSchema(property.type) };
+                    if (property.getDescription()) queryParameter.description = property.getDescription();
+                    operation.parameters.push(queryParameter);
+                }
+            } else if (parameter.header || parameter.cookie) {
+                operation.parameters.push({
+                    name: parameter.getSourceName(), in: parameter.header ? 'header' : 'cookie',
+                    required: reflection.isValueRequired(), schema: registry.getSchema(reflection.type)
+                });
+            } else if (parameter.isPartOfPath()) {
+                operation.parameters.push({ name: parameter.getName(), in: 'path', required: true, schema: registry.getSchema(reflection.type) });
+            }
+        }
+
+        for (const response of route.responses) {
+            operation.responses[String(response.statusCode)] = {
+                description: response.description,
+                content: response.type ? { 'application/json': { schema: registry.getSchema(response.type) } } : undefined,
+            };
+        }
+
+        if (!operation.responses['200']) {
+            const returnType = getRouteReturnType(route);
+            operation.responses['200'] = {
+                description: returnType ? stringifyType(returnType) : '',
+                content: returnType ? { 'application/json': { schema: registry.getSchema(returnType) } } : undefined,
+            };
+        }
+
+        for (const response of Object.values(operation.responses)) {
+            if (!response.content) delete response.content;
+        }
+
+        return operation;
+    }
+}
+
+/**
+ * Serves the OpenAPI document at the given path. The document is generated on the first request.
+ */
+export function registerOpenApiController(module: AppModule<any>, path: string, options: OpenApiOptions): void {
+    let document: OpenApiDocument | undefined;
+
+    class OpenApiController {
+        constructor(protected router: Router) {
+        }
+
+        serve() {
+            if (!document) document = new OpenApiGenerator(this.router, options).generate();
+            return new JSONResponse(document);
+        }
+    }
+
+    const route = new RouteConfig('openapi', ['GET'], path, {
+        controller: OpenApiController,
+        module,
+        methodName: 'serve'
+    }, true);
+    module.setupGlobalProvider<Router>().addRoute(route);
+    module.addProvider({ provide: OpenApiController, scope: 'http' });
+}
+
+@cli.controller('openapi:export', {
+    description: 'Exports the OpenAPI document of all http routes as JSON',
+})
+export class OpenApiExportCommand implements Command {
+    constructor(
+        protected router: Router,
+        protected config: HttpConfig,
+    ) {
+    }
+
+    async execute(
+        @flag output?: string,
+    ): Promise<void> {
+        const options = new OpenApiOptions;
+        options.title = this.config.openApiTitle;
+        options.version = this.config.openApiVersion;
+        const json = JSON.stringify(new OpenApiGenerator(this.router, options).generate(), undefined, 2);
+
+        if (output) {
+            writeFileSync(output, json);
+        } else {
+            process.stdout.write(json + '\n');
+        }
+    }
+}
@@ -0,0 +1,49 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { getClassName } from '@deepkit/core';
+import { RateLimiter } from '@deepkit/rate-limit';
+import { eventDispatcher } from '@deepkit/event';
+import { httpWorkflow, JSONResponse } from './http';
+import { HttpRequest } from './model';
+import { RouteConfig } from './router';
+
+export function getRateLimitKey(route: RouteConfig, request: HttpRequest): string {
+    const options = route.rateLimit!;
+    const client = options.key ? options.key(request) : request.getRemoteAddress();
+    return `http:${getClassName(route.action.controller)}.${route.action.methodName}:${client}`;
+}
+
+/**
+ * Counts the hits of routes with rate limit and responds with 429 Too Many Requests
+ * before the controller is called when the limit is exceeded.
+ */
+export class HttpRateLimitListener {
+    constructor(protected rateLimiter: RateLimiter) {
+    }
+
+    /**
+     * Runs after the CORS headers have been set, but before auth listeners.
+     */
+    @eventDispatcher.listen(httpWorkflow.onAuth, -50)
+    async onAuth(event: typeof httpWorkflow.onAuth.event) {
+        if (event.sent) return;
+        if (!event.route.rateLimit) return;
+
+        const result = await this.rateLimiter.hit(getRateLimitKey(event.route, event.request), event.route.rateLimit);
+        event.response.setHeader('RateLimit-Limit', String(result.limit));
+        event.response.setHeader('RateLimit-Remaining', String(result.remaining));
+        event.response.setHeader('RateLimit-Reset', String(result.reset));
+        if (result.allowed) return;
+
+        event.response.setHeader('Retry-After', String(result.retryAfter));
+        event.send(new JSONResponse({ message: 'Too many requests' }, 429).disableAutoSerializing());
+    }
+}
@@ -18,6 +18,7 @@ import {
     ReflectionClass,
     ReflectionKind,
     ReflectionParameter,
+    SerializationError,
     SerializationOptions,
     serializer,
     Serializer,
@@ -29,13 +30,19 @@ import {
 // @ts-ignore
 import formidable from 'formidable';
 import querystring from 'querystring';
+import { PassThrough, Writable } from 'stream';
 import { httpClass } from './decorator';
-import { BodyValidationError, getRegExp, HttpRequest, HttpRequestQuery, HttpRequestResolvedParameters, ValidatedBody } from './model';
+import { BodyValidationError, getRegExp, HttpRequest, HttpRequestQuery, HttpRequestResolvedParameters, parseCookies, ValidatedBody } from './model';
 import { InjectorContext, InjectorModule, TagRegistry } from '@deepkit/injector';
 import { Logger, LoggerInterface } from '@deepkit/logger';
 import { HttpControllers } from './controllers';
 import { MiddlewareRegistry, MiddlewareRegistryEntry } from '@deepkit/app';
 import { HttpMiddlewareConfig, HttpMiddlewareFn } from './middleware';
+import { CorsOptions, HttpConfig, HttpRateLimitOptions } from './module.config';
+import { HttpBodyCodec, HttpBodyCodecRegistry } from './codec';
+import { HttpWebSocket, isWebSocketUpgrade } from './websocket';
+import { getBodyUploadConstraints, HttpUploadHandler, HttpUploadHandlerFn, matchesMimeType, UploadConstraints } from './upload';
+import { HttpPayloadTooLargeError } from './http';
 
 //@ts-ignore
 import qs from 'qs';
@@ -108,6 +115,24 @@ export class RouteConfig {
     public serializationOptions?: SerializationOptions;
     public serializer?: Serializer;
 
+    /**
+     * When undefined, HttpConfig.compression and HttpConfig.etag are used.
+     */
+    public compression?: boolean;
+    public etag?: boolean;
+
+    /**
+     * Merged with HttpConfig.cors. false disables CORS for this route.
+     */
+    public cors?: CorsOptions | false;
+
+    public rateLimit?: HttpRateLimitOptions;
+
+    /**
+     * When set, uploaded files are streamed to this handler instead of being written to a temporary file.
+     */
+    public uploadHandler?: ClassType<HttpUploadHandler> | HttpUploadHandlerFn;
+
     /**
      * When assigned defines where this route came from.
      */
@@ -146,6 +171,13 @@ export class RouteConfig {
         if (!path.startsWith('/')) path = '/' + path;
         return path;
     }
+
+    /**
+     * WebSocket routes match only WebSocket upgrade requests.
+     */
+    isWebSocket(): boolean {
+        return this.httpMethods.includes('WEBSOCKET');
+    }
 }
 
 class ParsedRoute {
@@ -210,6 +242,38 @@ class ParsedRouteParameter {
         return metaAnnotation.getForName(this.parameter.type, 'httpQueries') !== undefined;
     }
 
+    get header() {
+        return metaAnnotation.getForName(this.parameter.type, 'httpHeader') !== undefined;
+    }
+
+    get cookie() {
+        return metaAnnotation.getForName(this.parameter.type, 'httpCookie') !== undefined;
+    }
+
+    get webSocket() {
+        return this.parameter.type.kind === ReflectionKind.class && this.parameter.type.classType === HttpWebSocket;
+    }
+
+    /**
+     * The Incoming and Outgoing type arguments of a HttpWebSocket parameter.
+     */
+    getWebSocketTypes(): { incoming?: Type, outgoing?: Type } {
+        const type = this.parameter.type;
+        if (type.kind !== ReflectionKind.class || !type.typeArguments) return {};
+        return { incoming: type.typeArguments[0], outgoing: type.typeArguments[1] || type.typeArguments[0] };
+    }
+
+    /**
+     * The name of the header (lowercase) or cookie the parameter reads.
+     */
+    getSourceName(): string {
+        const typeOptions = metaAnnotation.getForName(this.parameter.type, 'httpHeader') || metaAnnotation.getForName(this.parameter.type, 'httpCookie');
+        const options = typeOptions ? typeToObject(typeOptions[0]) : undefined;
+        const name = isObject(options) && options.name ? options.name : undefined;
+        if (this.header) return (name || this.parameter.name.replace(/([a-z0-9])([A-Z])/g, '$1-$2')).toLowerCase();
+        return name || this.parameter.name;
+    }
+
     get typePath(): string | undefined {
         const typeOptions = metaAnnotation.getForName(this.parameter.type, 'httpQueries') || metaAnnotation.getForName(this.parameter.type, 'httpQuery');
         if (!typeOptions) return;
@@ -366,29 +430,167 @@ function filterMiddlewaresForRoute(middlewareRawConfigs: MiddlewareRegistryEntry
     return middlewareConfigs;
 }
 
+/**
+ * The body of a request. When a typed codec is set, the raw body is decoded per parameter type.
+ */
+export interface HttpParsedBody {
+    fields: any;
+    raw?: Buffer;
+    codec?: HttpBodyCodec;
+}
+
 export class Router {
     protected fn?: (request: HttpRequest) => ResolvedController | undefined;
     protected resolveFn?: (name: string, parameters: { [name: string]: any }) => string;
 
     protected routes: RouteConfig[] = [];
 
-    private parseBody(req: HttpRequest, files: { [name: string]: UploadedFile }) {
-        const form = formidable({
-            multiples: true,
-            hash: 'sha1',
-            enabledPlugins: ['octetstream', 'querystring', 'json'],
-        });
+    private readBody(req: HttpRequest): Promise<Buffer> {
         return asyncOperation((resolve, reject) => {
-            if (req.body) {
-                return resolve(req.body);
+            const chunks: Buffer[] = [];
+            let size = 0;
+            req.on('data', (chunk: Buffer) => {
+                size += chunk.byteLength;
+                if (this.config.maxBodySize && size > this.config.maxBodySize) {
+                    reject(new HttpPayloadTooLargeError);
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            req.on('end', () => resolve(Buffer.concat(chunks)));
+            req.on('error', reject);
+        });
+    }
+
+    /**
+     * Returns the stream formidable writes an uploaded file into (fileWriteStreamHandler), which passes
+     * the content on to the upload handler. The file is finished once the handler's promise resolved.
+     *
+     * Files violating the constraints are rejected: a wrong mime type before the handler is called, a too large file
+     * as soon as it exceeds the size by destroying the handler's stream. The rest of a rejected file is only counted,
+     * so the body validation reports it.
+     */
+    private createUploadStream(
+        uploaded: UploadedFile, request: HttpRequest, uploadHandler: HttpUploadHandler | HttpUploadHandlerFn, constraints: UploadConstraints = {}
+    ): { stream: Writable, handled: Promise<void> } {
+        const stream = new PassThrough();
+        let handled: Promise<void>;
+        let rejected = constraints.mimeType !== undefined && (!uploaded.type || !matchesMimeType(uploaded.type, constraints.mimeType));
+
+        const writable = new Writable({
+            write(chunk: Buffer, encoding, callback) {
+                uploaded.size += chunk.byteLength;
+                if (!rejected && constraints.maxFileSize !== undefined && uploaded.size > constraints.maxFileSize) {
+                    rejected = true;
+                    //the handler sees the error, it must not crash the process when it does not listen
+                    stream.on('error', () => undefined);
+                    stream.destroy(new Error(`File size exceeds maximum of ${constraints.maxFileSize} bytes`));
+                }
+                if (rejected) return callback();
+                if (stream.write(chunk)) return callback();
+                stream.once('drain', () => callback());
+            },
+            final(callback) {
+                if (!stream.destroyed) stream.end();
+                handled.then(() => callback(), callback);
+            },
+            destroy(error, callback) {
+                stream.destroy(error || undefined);
+                callback(error);
+            },
+        });
+
+        if (rejected) {
+            handled = Promise.resolve();
+        } else {
+            const handler = 'function' === typeof uploadHandler ? uploadHandler : uploadHandler.handle.bind(uploadHandler);
+            handled = Promise.resolve(handler(stream, uploaded, request)).then(path => {
+                if (path && !rejected) uploaded.path = path;
+            }, error => {
+                if (!rejected) throw error;
+            }).then(async () => {
+                if (rejected && 'function' !== typeof uploadHandler && uploadHandler.abort) await uploadHandler.abort(uploaded, request);
+            });
+            //stops formidable from writing the rest of the file
+            handled.catch(error => writable.destroy(error));
+        }
+
+        return { stream: writable, handled };
+    }
+
+    private async parseBody(
+        req: HttpRequest, files: { [name: string]: UploadedFile }, uploadHandler?: HttpUploadHandler | HttpUploadHandlerFn,
+        uploadConstraints: { [name: string]: UploadConstraints } = {},
+    ): Promise<HttpParsedBody> {
+        if (req.body) return { fields: req.body };
+
+        if (this.config.maxBodySize && Number(req.headers['content-length']) > this.config.maxBodySize) {
+            throw new HttpPayloadTooLargeError;
+        }
+
+        const codec = req.headers['content-type'] ? this.codecs.get(req.headers['content-type']) : undefined;
+        if (codec) {
+            const raw = await this.readBody(req);
+            if (codec.typed) return { fields: {}, raw, codec };
+            try {
+                return { fields: req.body = codec.decode(raw, { kind: ReflectionKind.any }) };
+            } catch (error: any) {
+                throw new SerializationError(error.message, '');
             }
-            form.parse(req, (err: any, fields: any, files: any) => {
+        }
+
+        //formidable's File objects are replaced by UploadedFile instances
+        const uploads = new Map<formidable.File, UploadedFile>();
+        //fileWriteStreamHandler receives the same file object as the fileBegin event
+        const uploadStreams = new Map<unknown, Writable>();
+        const handled: Promise<void>[] = [];
+
+        const options: formidable.Options = { multiples: true, hashAlgorithm: 'sha1' };
+        if (this.config.maxBodySize) options.maxFileSize = options.maxFieldsSize = this.config.maxBodySize;
+        if (uploadHandler) options.fileWriteStreamHandler = (file) => uploadStreams.get(file)!;
+        const form = formidable(options);
+
+        form.on('fileBegin', (name, file) => {
+            const uploaded = new UploadedFile;
+            uploaded.size = 0;
+            uploaded.path = uploadHandler ? '' : file.filepath;
+            uploaded.name = file.originalFilename;
+            uploaded.type = file.mimetype;
+            uploaded.lastModifiedDate = null;
+            uploads.set(file, uploaded);
+
+            if (uploadHandler) {
+                const upload = this.createUploadStream(uploaded, req, uploadHandler, uploadConstraints[name]);
+                uploadStreams.set(file, upload.stream);
+                handled.push(upload.handled);
+            }
+        });
+        form.on('file', (name, file) => {
+            const uploaded = uploads.get(file)!;
+            uploaded.size = file.size;
+            uploaded.lastModifiedDate = new Date;
+        });
+
+        return asyncOperation((resolve, reject) => {
+            form.parse(req, (err, fields, formFiles) => {
                 if (err) {
-                    reject(err);
-                } else {
-                    const body = req.body = { ...fields, ...files };
-                    resolve(body);
+                    reject(err.httpCode === 413 ? new HttpPayloadTooLargeError : err);
+                    return;
                 }
+
+                const body: { [name: string]: any } = { ...fields };
+                for (const [name, file] of Object.entries(formFiles)) {
+                    if (!Array.isArray(file)) {
+                        const uploaded = body[name] = uploads.get(file)!;
+                        //temporary files are removed by the HttpKernel after the request
+                        if (!uploadHandler) files[name] = uploaded;
+                        continue;
+                    }
+                    const uploaded = body[name] = file.map(v => uploads.get(v)!);
+                    if (!uploadHandler) for (let i = 0; i < uploaded.length; i++) files[name + '.' + i] = uploaded[i];
+                }
+                //formidable does not report errors of a file's stream once the file ended
+                Promise.all(handled).then(() => resolve({ fields: req.body = body }), reject);
             });
         });
     }
@@ -398,6 +600,8 @@ export class Router {
         private logger: LoggerInterface,
         tagRegistry: TagRegistry,
         private middlewareRegistry: MiddlewareRegistry = new MiddlewareRegistry,
+        private codecs: HttpBodyCodecRegistry = new HttpBodyCodecRegistry,
+        private config: HttpConfig = new HttpConfig,
     ) {
         for (const controller of controllers.controllers) {
             this.addRouteForController(controller.controller, controller.module);
@@ -432,6 +636,8 @@ export class Router {
         let bodyValidationErrorHandling = `if (bodyErrors.length) throw ValidationError.from(bodyErrors);`;
 
         let enableParseBody = false;
+        let enableParseCookies = false;
+        let uploadConstraints: { [name: string]: UploadConstraints } = {};
         const hasParameters = parsedRoute.getParameters().length > 0;
         let requiresAsyncParameters = false;
         let setParametersFromPath = '';
@@ -445,8 +651,21 @@ export class Router {
                 const validatorVar = compiler.reserveVariable('argumentValidator', getValidatorFunction(undefined, type));
                 const converterVar = compiler.reserveVariable('argumentConverter', getSerializeFunction(type, serializer.deserializeRegistry));
 
+                const typeVar = compiler.reserveVariable('type', type);
+                compiler.context.set('SerializationError', SerializationError);
+
                 enableParseBody = true;
-                setParameters.push(`parameters.${parameter.parameter.name} = ${converterVar}(bodyFields, {loosely: true});`);
+                if (routeConfig.uploadHandler) uploadConstraints = { ...uploadConstraints, ...getBodyUploadConstraints(type) };
+                setParameters.push(`
+                if (_body.codec) {
+                    try {
+                        parameters.${parameter.parameter.name} = _body.codec.decode(_body.raw, ${typeVar});
+                    } catch (error) {
+                        throw new SerializationError(error.message, '');
+                    }
+                } else {
+                    parameters.${parameter.parameter.name} = ${converterVar}(_body.fields, {loosely: true});
+                }`);
                 parameterValidator.push(`${validatorVar}(parameters.${parameter.parameter.name}, {errors: bodyErrors});`);
                 if (parameter.bodyValidation) {
                     compiler.context.set('BodyValidation', ValidatedBody);
@@ -469,6 +688,34 @@ export class Router {
                 setParameters.push(`parameters.${parameter.parameter.name} = ${converterVar}(${queryAccessor}, {loosely: true});`);
                 parameterNames.push(`parameters.${parameter.parameter.name}`);
                 parameterValidator.push(`${validatorVar}(parameters.${parameter.parameter.name}, {errors: validationErrors}, ${JSON.stringify(parameter.typePath || parameter.getName())});`);
+            } else if (parameter.webSocket) {
+                const { incoming, outgoing } = parameter.getWebSocketTypes();
+                const webSocketVar = compiler.reserveVariable('webSocket', HttpWebSocket);
+                const incomingVar = compiler.reserveVariable('incomingType', incoming);
+                const outgoingVar = compiler.reserveVariable('outgoingType', outgoing);
+
+                //undefined for requests that are not upgraded, which are rejected by the http workflow
+                setParameters.push(`
+                parameters.${parameter.parameter.name} = _injector.get(${webSocketVar});
+                if (parameters.${parameter.parameter.name}) parameters.${parameter.parameter.name}.setTypes(${incomingVar}, ${outgoingVar});`);
+                parameterNames.push(`parameters.${parameter.parameter.name}`);
+            } else if (parameter.header || parameter.cookie) {
+                const sourceName = parameter.getSourceName();
+                const converted = getSerializeFunction(parameter.parameter.parameter, serializer.deserializeRegistry, undefined, sourceName);
+                const validator = getValidatorFunction(undefined, parameter.parameter.parameter,);
+                const converterVar = compiler.reserveVariable('argumentConverter', converted);
+                const validatorVar = compiler.reserveVariable('argumentValidator', validator);
+
+                let accessor = `request.headers[${JSON.stringify(sourceName)}]`;
+                if (parameter.cookie) {
+                    enableParseCookies = true;
+                    accessor = `_cookies[${JSON.stringify(sourceName)}]`;
+                }
+
+                //missing headers/cookies stay undefined, so the validator reports them when required
+                setParameters.push(`parameters.${parameter.parameter.name} = ${accessor} === undefined ? undefined : ${converterVar}(${accessor}, {loosely: true});`);
+                parameterNames.push(`parameters.${parameter.parameter.name}`);
+                parameterValidator.push(`${validatorVar}(parameters.${parameter.parameter.name}, {errors: validationErrors}, ${JSON.stringify(sourceName)});`);
             } else {
                 parameterNames.push(`parameters.${parameter.parameter.name}`);
 
@@ -539,11 +786,25 @@ export class Router {
         let parseBodyLoading = '';
         if (enableParseBody) {
             const parseBodyVar = compiler.reserveVariable('parseBody', this.parseBody.bind(this));
+            let uploadHandler = 'undefined';
+            if (routeConfig.uploadHandler && isClass(routeConfig.uploadHandler)) {
+                const moduleVar = routeConfig.module ? ', ' + compiler.reserveConst(routeConfig.module, 'module') : '';
+                uploadHandler = `_injector.get(${compiler.reserveVariable('uploadHandler', routeConfig.uploadHandler)}${moduleVar})`;
+            } else if (routeConfig.uploadHandler) {
+                uploadHandler = compiler.reserveVariable('uploadHandler', routeConfig.uploadHandler);
+            }
+            const uploadConstraintsVar = compiler.reserveConst(uploadConstraints, 'uploadConstraints');
             parseBodyLoading = `
-            const bodyFields = (await ${parseBodyVar}(request, uploadedFiles));`;
+            const _body = (await ${parseBodyVar}(request, uploadedFiles, ${uploadHandler}, ${uploadConstraintsVar}));`;
             requiresAsyncParameters = true;
         }
 
+        let parseCookiesLoading = '';
+        if (enableParseCookies) {
+            compiler.context.set('parseCookies', parseCookies);
+            parseCookiesLoading = `const _cookies = parseCookies(request.headers.cookie);`;
+        }
+
         let matcher = `_path.startsWith(${JSON.stringify(prefix)}) && (_match = _path.match(${regexVar}))`;
         if (!hasParameters) {
             matcher = `_path === ${JSON.stringify(path)}`;
@@ -580,6 +841,7 @@ export class Router {
                 const parameters = {};
                 ${setParametersFromPath}
                 ${parseBodyLoading}
+                ${parseCookiesLoading}
                 ${setParameters.join('\n')}
                 ${parameterValidator.join('\n')}
                 ${bodyValidationErrorHandling}
@@ -681,6 +943,15 @@ export class Router {
             routeConfig.serializationOptions = action.serializationOptions;
             routeConfig.serializer = action.serializer;
             routeConfig.serializer = action.serializer;
+            routeConfig.compression = action.compression;
+            routeConfig.etag = action.etag;
+            routeConfig.rateLimit = action.rateLimit;
+            routeConfig.uploadHandler = action.uploadHandler;
+            if (action.cors === false || (data.cors === false && !action.cors)) {
+                routeConfig.cors = false;
+            } else if (data.cors || action.cors) {
+                routeConfig.cors = { ...(data.cors || {}), ...(action.cors || {}) };
+            }
             if (schema.hasMethod(action.methodName)) routeConfig.returnType = schema.getMethod(action.methodName).getReturnType();
             this.addRoute(routeConfig);
         }
@@ -690,6 +961,7 @@ export class Router {
         const compiler = new CompilerContext;
         compiler.context.set('ValidationError', ValidationError);
         compiler.context.set('qs', qs);
+        compiler.context.set('isWebSocketUpgrade', isWebSocketUpgrade);
 
         const code: string[] = [];
 
@@ -699,7 +971,7 @@ export class Router {
 
         return compiler.build(`
             let _match;
-            const _method = request.method || 'GET';
+            const _method = isWebSocketUpgrade(request) ? 'WEBSOCKET' : request.method || 'GET';
             const _url = request.url || '/';
             const _qPosition = _url.indexOf('?');
             let uploadedFiles = {};
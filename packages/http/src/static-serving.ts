@@ -10,8 +10,8 @@
 
 import { http } from './decorator';
 import { join } from 'path';
-import { readFileSync, stat } from 'fs';
-import { HtmlResponse, httpWorkflow } from './http';
+import { promises, readFileSync, stat } from 'fs';
+import { HtmlResponse, HttpResultFormatter, httpWorkflow } from './http';
 import { AppModule } from '@deepkit/app';
 import { normalizeDirectory } from './utils';
 import { ClassType, urlJoin } from '@deepkit/core';
@@ -19,10 +19,42 @@ import { HttpRequest, HttpResponse } from './model';
 import send from 'send';
 import { eventDispatcher } from '@deepkit/event';
 import { RouteConfig, Router } from './router';
+import { isCompressible } from './compression';
 
-export function serveStaticListener(module: AppModule<any>, path: string, localPath: string = path): ClassType {
+/**
+ * Compressible asset files up to this size are read into memory to be compressed, bigger ones are streamed uncompressed.
+ */
+const maxCompressedFileSize = 10 * 1024 * 1024;
+
+export interface StaticServingOptions {
+    /**
+     * Overwrites HttpConfig.compression for asset files.
+     */
+    compression?: boolean;
+
+    /**
+     * Overwrites HttpConfig.etag for compressed asset files.
+     */
+    etag?: boolean;
+}
+
+export function serveStaticListener(module: AppModule<any>, path: string, localPath: string = path, options: StaticServingOptions = {}): ClassType {
     class HttpRequestStaticServingListener {
-        serve(path: string, request: HttpRequest, response: HttpResponse) {
+        constructor(protected formatter: HttpResultFormatter) {
+        }
+
+        async serve(path: string, request: HttpRequest, response: HttpResponse, route: RouteConfig, size: number): Promise<Uint8Array | undefined> {
+            const type = send.mime.lookup(path);
+            if (size <= maxCompressedFileSize && isCompressible(type) && this.formatter.isCompressionEnabled(route)) {
+                //goes through HttpResultFormatter.sendBody, which compresses and handles ETag like for controller results
+                const finalLocalPath = join(localPath, path);
+                const [content, stats] = await Promise.all([promises.readFile(finalLocalPath), promises.stat(finalLocalPath)]);
+                const charset = send.mime.charsets.lookup(type, '');
+                response.setHeader('Content-Type', charset ? type + '; charset=' + charset : type);
+                response.setHeader('Last-Modified', stats.mtime.toUTCString());
+                return content;
+            }
+
             return new Promise((resolve, reject) => {
                 const res = send(request, path, { root: localPath });
                 res.pipe(response);
@@ -43,14 +75,14 @@ export function serveStaticListener(module: AppModule<any>, path: string, localP
             return new Promise(resolve => {
                 stat(finalLocalPath, (err, stat) => {
                     if (stat && stat.isFile()) {
-                        event.routeFound(
-                            new RouteConfig('static', ['GET'], event.url, {
-                                controller: HttpRequestStaticServingListener,
-                                module,
-                                methodName: 'serve'
-                            }),
-                            () => [relativePath, event.request, event.response]
-                        );
+                        const route = new RouteConfig('static', ['GET'], event.url, {
+                            controller: HttpRequestStaticServingListener,
+                            module,
+                            methodName: 'serve'
+                        });
+                        route.compression = options.compression;
+                        route.etag = options.etag;
+                        event.routeFound(route, () => [relativePath, event.request, event.response, route, stat.size]);
                     }
                     resolve(undefined);
                 });
@@ -93,6 +125,16 @@ export interface StaticHttpOptions {
      * Replaces strings in the served index.html file.
      */
     indexReplace?: { [name: string]: string };
+
+    /**
+     * Overwrites HttpConfig.compression for the index.html and asset files.
+     */
+    compression?: boolean;
+
+    /**
+     * Overwrites HttpConfig.etag for the index.html and compressed asset files.
+     */
+    etag?: boolean;
 }
 
 /**
@@ -133,6 +175,8 @@ export function registerStaticHttpController(module: AppModule<any>, options: St
         methodName: 'serveIndex'
     });
     route1.groups = groups;
+    route1.compression = options.compression;
+    route1.etag = options.etag;
     module.setupGlobalProvider<Router>().addRoute(route1);
 
     if (path !== '/') {
@@ -142,9 +186,11 @@ export function registerStaticHttpController(module: AppModule<any>, options: St
             methodName: 'serveIndex'
         });
         route2.groups = groups;
+        route2.compression = options.compression;
+        route2.etag = options.etag;
         module.setupGlobalProvider<Router>().addRoute(route2);
     }
 
     module.addProvider(StaticController);
-    module.addListener(serveStaticListener(module, normalizeDirectory(options.path), options.localPath));
+    module.addListener(serveStaticListener(module, normalizeDirectory(options.path), options.localPath, options));
 }
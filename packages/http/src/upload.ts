@@ -0,0 +1,129 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { ReflectionClass, ReflectionKind, Type, typeToObject, Validate, validationAnnotation, ValidatorError } from '@deepkit/type';
+import { Readable } from 'stream';
+import { HttpRequest } from './model';
+import { UploadedFile } from './router';
+
+function isUploadedFile(value: any): value is UploadedFile {
+    return value && 'object' === typeof value && 'number' === typeof value.size;
+}
+
+function eachFile(value: any, check: (file: UploadedFile) => ValidatorError | void): ValidatorError | void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const error = eachFile(item, check);
+            if (error) return error;
+        }
+        return;
+    }
+    if (isUploadedFile(value)) return check(value);
+}
+
+export function maxFileSize(value: any, type: Type, maxSize: number): ValidatorError | void {
+    return eachFile(value, file => {
+        if (file.size > maxSize) return new ValidatorError('maxFileSize', `File size ${file.size} exceeds maximum of ${maxSize} bytes`);
+        return;
+    });
+}
+
+/**
+ * Matches a mime type against a pattern like `image/png`, `image/*`, or a comma separated list of those.
+ */
+export function matchesMimeType(mimeType: string, pattern: string): boolean {
+    mimeType = mimeType.split(';')[0].trim().toLowerCase();
+    for (let item of pattern.split(',')) {
+        item = item.trim().toLowerCase();
+        if (item === '*' || item === '*/*' || item === mimeType) return true;
+        if (item.endsWith('/*') && mimeType.startsWith(item.slice(0, -1))) return true;
+    }
+    return false;
+}
+
+export function mimeType(value: any, type: Type, pattern: string): ValidatorError | void {
+    return eachFile(value, file => {
+        if (!file.type || !matchesMimeType(file.type, pattern)) return new ValidatorError('mimeType', `Mime type ${file.type || 'unknown'} is not allowed, expected ${pattern}`);
+        return;
+    });
+}
+
+/**
+ * Validates the size in bytes of an UploadedFile (or each file of an array), e.g. `avatar: UploadedFile & MaxFileSize<5_000_000>`.
+ */
+export type MaxFileSize<Bytes extends number> = Validate<typeof maxFileSize, Bytes>;
+
+/**
+ * Validates the mime type of an UploadedFile, e.g. `avatar: UploadedFile & MimeType<'image/*'>`.
+ * Multiple types are separated by comma: `MimeType<'image/png, image/jpeg'>`.
+ *
+ * Only the mime type the client declared for the file is checked, the content is not inspected.
+ * A client can upload any content as `image/png`, so verify the content where it matters (e.g. by decoding the image).
+ */
+export type MimeType<Pattern extends string> = Validate<typeof mimeType, Pattern>;
+
+/**
+ * The MaxFileSize and MimeType of an UploadedFile property, which are checked while the file is streamed to an upload handler.
+ */
+export interface UploadConstraints {
+    maxFileSize?: number;
+    mimeType?: string;
+}
+
+function getUploadConstraints(type: Type): UploadConstraints | undefined {
+    let constraints: UploadConstraints | undefined;
+    //for arrays of files the validators can be on the array or its items
+    for (const item of type.kind === ReflectionKind.array ? [type, type.type] : [type]) {
+        for (const validation of validationAnnotation.getAnnotations(item)) {
+            const fn = validation.args[0];
+            if (validation.name !== 'function' || !fn || fn.kind !== ReflectionKind.function) continue;
+            if (fn.function === maxFileSize) {
+                constraints = { ...constraints, maxFileSize: typeToObject(validation.args[1]) };
+            } else if (fn.function === mimeType) {
+                constraints = { ...constraints, mimeType: typeToObject(validation.args[1]) };
+            }
+        }
+    }
+    return constraints;
+}
+
+/**
+ * Returns the upload constraints of the properties of a body type by property name.
+ */
+export function getBodyUploadConstraints(type: Type): { [name: string]: UploadConstraints } {
+    const result: { [name: string]: UploadConstraints } = {};
+    if (type.kind !== ReflectionKind.objectLiteral && type.kind !== ReflectionKind.class) return result;
+    for (const property of ReflectionClass.from(type).getProperties()) {
+        const constraints = getUploadConstraints(property.type);
+        if (constraints) result[property.getNameAsString()] = constraints;
+    }
+    return result;
+}
+
+/**
+ * Receives uploaded files of a route as stream instead of a temporary file, see `@http.POST().upload()`.
+ *
+ * Files violating MimeType are not passed to the handler. When a file exceeds MaxFileSize, its stream is destroyed
+ * with an error and abort() is called. In both cases the body validation responds with 400.
+ */
+export interface HttpUploadHandler {
+    /**
+     * Consumes the content of an uploaded file. The request body is parsed further once the returned promise resolved.
+     * The returned string is stored as `UploadedFile.path`.
+     */
+    handle(stream: Readable, file: UploadedFile, request: HttpRequest): Promise<string | void> | string | void;
+
+    /**
+     * Called after handle() finished when the file was rejected while streaming, to remove what was stored of it.
+     */
+    abort?(file: UploadedFile, request: HttpRequest): Promise<void> | void;
+}
+
+export type HttpUploadHandlerFn = HttpUploadHandler['handle'];
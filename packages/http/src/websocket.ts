@@ -0,0 +1,214 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import WebSocket from 'ws';
+import {
+    getSerializeFunction,
+    getValidatorFunction,
+    Guard,
+    isBinary,
+    ReflectionKind,
+    SerializeFunction,
+    serializer,
+    Type,
+    ValidationError,
+    ValidationErrorItem
+} from '@deepkit/type';
+import { HttpRequest, HttpResponse } from './model';
+
+export function isWebSocketUpgrade(request: { headers?: IncomingHttpHeaders }): boolean {
+    const upgrade = request.headers ? request.headers.upgrade : undefined;
+    return upgrade !== undefined && upgrade.toLowerCase() === 'websocket';
+}
+
+/**
+ * Completes the WebSocket handshakes of `@http.WEBSOCKET` routes. Provided by HttpModule,
+ * so all connections of an application share one ws server, created with the first upgrade.
+ */
+export class HttpWebSocketServer {
+    protected server?: WebSocket.Server;
+
+    getServer(): WebSocket.Server {
+        if (!this.server) this.server = new WebSocket.Server({ noServer: true, clientTracking: false });
+        return this.server;
+    }
+}
+
+function toBuffer(data: WebSocket.Data): Buffer {
+    if (Buffer.isBuffer(data)) return data;
+    if (Array.isArray(data)) return Buffer.concat(data);
+    if ('string' === typeof data) return Buffer.from(data, 'utf8');
+    return Buffer.from(data);
+}
+
+function isTyped(type?: Type): type is Type {
+    return type !== undefined && type.kind !== ReflectionKind.any && type.kind !== ReflectionKind.unknown;
+}
+
+/**
+ * The connection of a `@http.WEBSOCKET` route.
+ *
+ * Text messages are parsed as JSON, deserialized and validated against `Incoming`. Invalid messages close the
+ * connection with code 1007. Sent messages are serialized from `Outgoing` and sent as JSON text message.
+ * Binary types (e.g. Uint8Array) are received and sent as binary messages as is.
+ *
+ * ```typescript
+ * class ChatController {
+ *     @http.WEBSOCKET('/chat/:room')
+ *     chat(room: string, socket: HttpWebSocket<ChatMessage>) {
+ *         socket.onMessage(message => socket.send(message));
+ *     }
+ * }
+ * ```
+ */
+export class HttpWebSocket<Incoming = any, Outgoing = Incoming> {
+    protected ws?: WebSocket;
+
+    protected incomingType?: Type;
+    protected outgoingType?: Type;
+    protected deserializer?: SerializeFunction;
+    protected serializer?: SerializeFunction;
+    protected validator?: Guard<Incoming>;
+
+    protected messageListeners: ((message: Incoming) => any)[] = [];
+    protected closeListeners: ((code: number, reason: string) => any)[] = [];
+    protected errorListeners: ((error: any) => any)[] = [];
+
+    constructor(
+        public readonly request: HttpRequest,
+        protected response: HttpResponse,
+        protected head: Buffer,
+        protected server: HttpWebSocketServer,
+    ) {
+    }
+
+    setTypes(incoming?: Type, outgoing?: Type): this {
+        this.incomingType = incoming;
+        this.outgoingType = outgoing;
+        this.deserializer = isTyped(incoming) && !isBinary(incoming) ? getSerializeFunction(incoming, serializer.deserializeRegistry) : undefined;
+        this.validator = isTyped(incoming) && !isBinary(incoming) ? getValidatorFunction(undefined, incoming) : undefined;
+        this.serializer = isTyped(outgoing) && !isBinary(outgoing) ? getSerializeFunction(outgoing, serializer.serializeRegistry) : undefined;
+        return this;
+    }
+
+    /**
+     * Completes the WebSocket handshake. The http workflow calls this before the route's action is executed.
+     * Returns false if the request is not a valid WebSocket handshake, in which case it has been answered with 400.
+     */
+    accept(): boolean {
+        if (this.ws) return true;
+        const socket = this.request.socket;
+        this.response.detachSocket(socket);
+
+        //the handshake is completed synchronously, invalid handshakes are answered and the socket destroyed
+        const upgraded: { ws?: WebSocket } = {};
+        this.server.getServer().handleUpgrade(this.request, socket, this.head, (ws) => {
+            upgraded.ws = ws;
+        });
+        const ws = this.ws = upgraded.ws;
+        if (!ws) return false;
+
+        ws.on('message', (data) => this.receive(data));
+        ws.on('close', (code, reason) => {
+            for (const listener of this.closeListeners) listener(code, reason);
+        });
+        ws.on('error', (error) => this.error(error));
+        return true;
+    }
+
+    isOpen(): boolean {
+        return this.ws !== undefined && this.ws.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Amount of bytes queued to be sent.
+     */
+    get bufferedAmount(): number {
+        return this.ws ? this.ws.bufferedAmount : 0;
+    }
+
+    onMessage(listener: (message: Incoming) => any): this {
+        this.messageListeners.push(listener);
+        return this;
+    }
+
+    onClose(listener: (code: number, reason: string) => any): this {
+        this.closeListeners.push(listener);
+        return this;
+    }
+
+    onError(listener: (error: any) => any): this {
+        this.errorListeners.push(listener);
+        return this;
+    }
+
+    protected error(error: any) {
+        for (const listener of this.errorListeners) listener(error);
+    }
+
+    protected decode(data: WebSocket.Data): Incoming {
+        if (isTyped(this.incomingType) && isBinary(this.incomingType)) {
+            const buffer = toBuffer(data);
+            if (this.incomingType.kind === ReflectionKind.class && this.incomingType.classType === ArrayBuffer) {
+                return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as any;
+            }
+            return buffer as any;
+        }
+
+        const value = JSON.parse('string' === typeof data ? data : toBuffer(data).toString('utf8'));
+        if (!this.deserializer || !this.validator) return value;
+
+        const message = this.deserializer(value);
+        const errors: ValidationErrorItem[] = [];
+        this.validator(message, { errors });
+        if (errors.length) throw new ValidationError(errors, this.incomingType);
+        return message;
+    }
+
+    protected async receive(data: WebSocket.Data) {
+        let message: Incoming;
+        try {
+            message = this.decode(data);
+        } catch (error: any) {
+            //close reasons are limited to 123 bytes
+            this.close(1007, String(error.message).slice(0, 120));
+            return;
+        }
+
+        try {
+            for (const listener of this.messageListeners) await listener(message);
+        } catch (error) {
+            this.error(error);
+            this.close(1011, 'Internal error');
+        }
+    }
+
+    send(message: Outgoing): void {
+        if (!this.ws) throw new Error('WebSocket connection not accepted yet');
+
+        let data: any = message;
+        if (!isTyped(this.outgoingType) || !isBinary(this.outgoingType)) {
+            data = JSON.stringify(this.serializer ? this.serializer(message) : message);
+        }
+
+        this.ws.send(data, (error) => {
+            if (error) this.error(error);
+        });
+    }
+
+    close(code: number = 1000, reason?: string): void {
+        if (this.ws) {
+            this.ws.close(code, reason);
+        } else {
+            this.request.socket.destroy();
+        }
+    }
+}
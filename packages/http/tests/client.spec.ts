@@ -0,0 +1,104 @@
+import { expect, test } from '@jest/globals';
+import { MinLength } from '@deepkit/type';
+import { http } from '../src/decorator';
+import { describeHttpRoutes, HttpClient, HttpClientError, HttpClientRequest, HttpKernelClientAdapter } from '../src/client';
+import { JSONResponse } from '../src/http';
+import { HttpBody, HttpCookie, HttpHeader, HttpQueries, HttpQuery, HttpRequest } from '../src/model';
+import { Router } from '../src/router';
+import { createHttpKernel } from './utils';
+
+class User {
+    id: number = 0;
+    created: Date = new Date;
+
+    constructor(public username: string & MinLength<3>) {
+    }
+}
+
+interface ListQuery {
+    limit?: number;
+    since?: Date;
+}
+
+@http.controller('/user')
+class UserController {
+    @http.GET('/headers')
+    headers(token: HttpHeader<string, { name: 'x-token' }>, session: HttpCookie<string>) {
+        return { token, session };
+    }
+
+    @http.GET()
+    list(query: HttpQueries<ListQuery>, search: HttpQuery<string> = ''): { limit?: number, since?: Date, search: string } {
+        return { limit: query.limit, since: query.since, search };
+    }
+
+    @http.POST()
+    async create(user: HttpBody<User>, request: HttpRequest): Promise<User> {
+        user.id = 2;
+        return user;
+    }
+
+    @http.GET('/legacy').response<{ created: Date }>(200)
+    legacy() {
+        return new JSONResponse({ created: new Date('2021-01-01T00:00:00.000Z') });
+    }
+
+    //after the static paths, so they are not matched as id
+    @http.GET(':id')
+    get(id: number): User {
+        const user = new User('peter');
+        user.id = id;
+        user.created = new Date('2021-01-01T00:00:00.000Z');
+        return user;
+    }
+}
+
+test('http client', async () => {
+    const httpKernel = createHttpKernel([UserController]);
+    const requests: HttpClientRequest[] = [];
+    const adapter = new HttpKernelClientAdapter(httpKernel);
+    const client = new HttpClient({
+        request(request) {
+            requests.push(request);
+            return adapter.request(request);
+        }
+    });
+    const controller = client.controller(UserController);
+
+    const user = await controller.get(5);
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/user/5' });
+    expect(user).toBeInstanceOf(User);
+    expect(user).toMatchObject({ id: 5, username: 'peter', created: new Date('2021-01-01T00:00:00.000Z') });
+
+    const list = await controller.list({ limit: 10, since: new Date('2021-01-01T00:00:00.000Z') }, 'pet');
+    expect(list).toEqual({ limit: 10, since: new Date('2021-01-01T00:00:00.000Z'), search: 'pet' });
+    expect(requests[1].url).toBe('/user?limit=10&since=2021-01-01T00%3A00%3A00.000Z&search=pet');
+
+    const created = await controller.create(new User('marie'), undefined!);
+    expect(requests[2]).toMatchObject({ method: 'POST', url: '/user', headers: { 'content-type': 'application/json' } });
+    expect(created).toBeInstanceOf(User);
+    expect(created).toMatchObject({ id: 2, username: 'marie' });
+
+    expect(await controller.headers('abc', 'def')).toEqual({ token: 'abc', session: 'def' });
+    expect(requests[3].headers).toMatchObject({ 'x-token': 'abc', cookie: 'session=def' });
+
+    expect(await controller.legacy()).toEqual({ created: new Date('2021-01-01T00:00:00.000Z') });
+
+    const error = await controller.create(new User('ma'), undefined!).catch(error => error);
+    expect(error).toBeInstanceOf(HttpClientError);
+    expect(error.statusCode).toBe(400);
+    expect(error.body.errors[0]).toMatchObject({ path: 'username', code: 'minLength' });
+});
+
+test('http client from route description', async () => {
+    const httpKernel = createHttpKernel([UserController]);
+    const routes = JSON.parse(JSON.stringify(describeHttpRoutes(Router.forControllers([UserController]), UserController)));
+    expect(routes.find((v: any) => v.methodName === 'create').parameters.map((v: any) => v.source)).toEqual(['body', 'inject']);
+
+    const controller = HttpClient.forKernel(httpKernel).controller<UserController>(routes);
+    const user = await controller.get(5);
+    expect(user).toMatchObject({ id: 5, username: 'peter', created: new Date('2021-01-01T00:00:00.000Z') });
+
+    const list = await controller.list({ since: new Date('2021-01-01T00:00:00.000Z') }, 'pet');
+    expect(list).toEqual({ since: new Date('2021-01-01T00:00:00.000Z'), search: 'pet' });
+});
@@ -0,0 +1,95 @@
+import { expect, test } from '@jest/globals';
+import { deserializeBSONWithoutOptimiser, serializeBSON } from '@deepkit/bson';
+import { MinLength } from '@deepkit/type';
+import { http } from '../src/decorator';
+import { HttpBodyCodecRegistry, JsonBodyCodec } from '../src/codec';
+import { JSONResponse } from '../src/http';
+import { HttpBody, HttpRequest } from '../src/model';
+import { createHttpKernel } from './utils';
+
+test('codec negotiation', () => {
+    const registry = new HttpBodyCodecRegistry();
+    expect(registry.get('application/json; charset=utf-8')).toBeInstanceOf(JsonBodyCodec);
+    expect(registry.get('text/plain')).toBe(undefined);
+    expect(registry.negotiate()).toBe(undefined);
+    expect(registry.negotiate('*/*')).toBe(undefined);
+    expect(registry.negotiate('application/bson')!.mediaTypes).toEqual(['application/bson']);
+    expect(registry.negotiate('application/json;q=0.5, application/bson')!.mediaTypes).toEqual(['application/bson']);
+    expect(registry.negotiate('text/html, */*;q=0.8, application/bson;q=0.5')).toBe(undefined);
+});
+
+test('bson body and response', async () => {
+    class User {
+        id: number = 0;
+        username!: string & MinLength<3>;
+        created: Date = new Date;
+        avatar?: Uint8Array;
+    }
+
+    class Controller {
+        @http.POST('/user')
+        create(user: HttpBody<User>): User {
+            return user;
+        }
+
+        @http.GET('/names')
+        names(): string[] {
+            return ['a', 'b'];
+        }
+
+        @http.GET('/json')
+        json() {
+            return new JSONResponse({ created: new Date('2021-01-01T00:00:00.000Z') });
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+    const created = new Date('2021-01-01T00:00:00.000Z');
+    const body = Buffer.from(serializeBSON<User>({ id: 1, username: 'peter', created, avatar: new Uint8Array([1, 2, 3]) }));
+
+    {
+        const response = await httpKernel.request(HttpRequest.POST('/user').header('content-type', 'application/bson').header('accept', 'application/bson').body(body));
+        expect(response.statusCode).toBe(200);
+        expect(response.getHeader('content-type')).toBe('application/bson');
+        const user = deserializeBSONWithoutOptimiser(response.body);
+        expect(user.username).toBe('peter');
+        expect(user.created).toEqual(created);
+        expect(Buffer.from(user.avatar)).toEqual(Buffer.from([1, 2, 3]));
+    }
+
+    {
+        //same controller, JSON response
+        const response = await httpKernel.request(HttpRequest.POST('/user').header('content-type', 'application/bson').body(body));
+        expect(response.json).toEqual({ id: 1, username: 'peter', created: '2021-01-01T00:00:00.000Z', avatar: 'AQID' });
+    }
+
+    {
+        const invalid = Buffer.from(serializeBSON<{ username: string }>({ username: 'p' }));
+        const response = await httpKernel.request(HttpRequest.POST('/user').header('content-type', 'application/bson').body(invalid));
+        expect(response.statusCode).toBe(400);
+        expect(response.json.errors[0]).toMatchObject({ path: 'username', code: 'minLength' });
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/names').header('accept', 'application/bson'));
+        expect(deserializeBSONWithoutOptimiser(response.body)).toEqual({ v: ['a', 'b'] });
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/json').header('accept', 'application/bson'));
+        expect(deserializeBSONWithoutOptimiser(response.body)).toEqual({ created: new Date('2021-01-01T00:00:00.000Z') });
+    }
+});
+
+test('json body array', async () => {
+    class Controller {
+        @http.POST('/sum')
+        sum(numbers: HttpBody<number[]>): number {
+            return numbers.reduce((a, b) => a + b, 0);
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+    const response = await httpKernel.request(HttpRequest.POST('/sum').json([1, 2, 3]));
+    expect(response.json).toBe(6);
+});
@@ -0,0 +1,172 @@
+import { expect, test } from '@jest/globals';
+import { App } from '@deepkit/app';
+import { gunzipSync } from 'zlib';
+import { http } from '../src/decorator';
+import { HtmlResponse, JSONResponse } from '../src/http';
+import { HttpKernel } from '../src/kernel';
+import { HttpRequest } from '../src/model';
+import { HttpModule } from '../src/module';
+import { negotiateEncoding } from '../src/compression';
+import { isNotModified } from '../src/conditional';
+import { registerStaticHttpController } from '../src/static-serving';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+test('negotiate encoding', () => {
+    expect(negotiateEncoding()).toBe(undefined);
+    expect(negotiateEncoding('gzip, deflate, br')).toBe('br');
+    expect(negotiateEncoding('gzip, deflate')).toBe('gzip');
+    expect(negotiateEncoding('br;q=0.5, gzip')).toBe('gzip');
+    expect(negotiateEncoding('identity')).toBe(undefined);
+    expect(negotiateEncoding('*, br;q=0')).toBe('gzip');
+});
+
+test('not modified', () => {
+    expect(isNotModified({}, 'W/"a"')).toBe(false);
+    expect(isNotModified({ 'if-none-match': 'W/"a"' }, 'W/"a"')).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"b", "a"' }, 'W/"a"')).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"b"' }, 'W/"a"')).toBe(false);
+    expect(isNotModified({ 'if-modified-since': 'Sat, 01 Jan 2022 00:00:00 GMT' }, undefined, 'Fri, 31 Dec 2021 00:00:00 GMT')).toBe(true);
+    expect(isNotModified({ 'if-modified-since': 'Sat, 01 Jan 2022 00:00:00 GMT' }, undefined, 'Sun, 02 Jan 2022 00:00:00 GMT')).toBe(false);
+});
+
+test('compression', async () => {
+    const items = Array.from({ length: 200 }, (v, i) => ({ id: i, title: 'Item ' + i }));
+
+    class Controller {
+        @http.GET('/items')
+        items() {
+            return new JSONResponse(items);
+        }
+
+        @http.GET('/small')
+        small() {
+            return new HtmlResponse('small');
+        }
+
+        @http.GET('/uncompressed').compression(false)
+        uncompressed() {
+            return new JSONResponse(items);
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ compression: true })]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/items').header('accept-encoding', 'gzip, deflate'));
+        expect(response.getHeader('content-encoding')).toBe('gzip');
+        expect(response.getHeader('vary')).toBe('Accept-Encoding');
+        expect(JSON.parse(gunzipSync(response.body).toString('utf8'))).toEqual(items);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/items'));
+        expect(response.getHeader('content-encoding')).toBe(undefined);
+        expect(response.json).toEqual(items);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/small').header('accept-encoding', 'gzip'));
+        expect(response.getHeader('content-encoding')).toBe(undefined);
+        expect(response.bodyString).toBe('small');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/uncompressed').header('accept-encoding', 'gzip'));
+        expect(response.getHeader('content-encoding')).toBe(undefined);
+        expect(response.json).toEqual(items);
+    }
+});
+
+test('etag', async () => {
+    class Controller {
+        @http.GET('/hello')
+        hello() {
+            return 'hello';
+        }
+
+        @http.GET('/modified')
+        modified() {
+            return new HtmlResponse('content').header('Last-Modified', 'Fri, 31 Dec 2021 00:00:00 GMT');
+        }
+
+        @http.GET('/no-etag').etag(false)
+        noEtag() {
+            return 'hello';
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ etag: true })]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    const response = await httpKernel.request(HttpRequest.GET('/hello'));
+    expect(response.statusCode).toBe(200);
+    const etag = response.getHeader('etag') as string;
+    expect(etag).toMatch(/^W\/"7-/);
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/hello').header('if-none-match', etag));
+        expect(response.statusCode).toBe(304);
+        expect(response.bodyString).toBe('');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/hello').header('if-none-match', 'W/"other"'));
+        expect(response.statusCode).toBe(200);
+        expect(response.json).toBe('hello');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/modified').header('if-modified-since', 'Sat, 01 Jan 2022 00:00:00 GMT'));
+        expect(response.statusCode).toBe(304);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/no-etag'));
+        expect(response.getHeader('etag')).toBe(undefined);
+    }
+});
+
+test('static asset compression', async () => {
+    const localPath = mkdtempSync(join(tmpdir(), 'deepkit-static-'));
+    const script = 'console.log("hello world");\n'.repeat(100);
+    writeFileSync(join(localPath, 'index.html'), '<html></html>');
+    writeFileSync(join(localPath, 'main.js'), script);
+    writeFileSync(join(localPath, 'logo.png'), Buffer.alloc(2048));
+
+    const app = new App({
+        imports: [new HttpModule({ compression: true, etag: true })]
+    });
+    registerStaticHttpController(app.appModule, { path: '/app', localPath });
+    const httpKernel = app.get(HttpKernel);
+
+    let etag: string;
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/app/main.js').header('accept-encoding', 'gzip'));
+        expect(response.statusCode).toBe(200);
+        expect(response.getHeader('content-encoding')).toBe('gzip');
+        expect(response.getHeader('content-type')).toBe('application/javascript; charset=UTF-8');
+        expect(response.getHeader('last-modified')).toBeDefined();
+        expect(gunzipSync(response.body).toString('utf8')).toBe(script);
+        etag = String(response.getHeader('etag'));
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/app/main.js').header('if-none-match', etag));
+        expect(response.statusCode).toBe(304);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/app/logo.png').header('accept-encoding', 'gzip'));
+        expect(response.getHeader('content-encoding')).toBe(undefined);
+        expect(response.body.byteLength).toBe(2048);
+    }
+});
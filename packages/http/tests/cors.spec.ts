@@ -0,0 +1,150 @@
+import { expect, test } from '@jest/globals';
+import { App } from '@deepkit/app';
+import { http } from '../src/decorator';
+import { HttpKernel } from '../src/kernel';
+import { HttpRequest } from '../src/model';
+import { HttpModule } from '../src/module';
+import { isOriginAllowed } from '../src/cors';
+
+test('cors origin', () => {
+    expect(isOriginAllowed(undefined, 'https://a.com')).toBe(true);
+    expect(isOriginAllowed('https://a.com', 'https://a.com')).toBe(true);
+    expect(isOriginAllowed('https://a.com', 'https://b.com')).toBe(false);
+    expect(isOriginAllowed([/\.example\.com$/, 'https://a.com'], 'https://api.example.com')).toBe(true);
+    expect(isOriginAllowed([/\.example\.com$/, 'https://a.com'], 'https://example.org')).toBe(false);
+});
+
+test('cors global config', async () => {
+    class Controller {
+        @http.GET('/user')
+        get() {
+            return 'user';
+        }
+
+        @http.PUT('/user')
+        put() {
+            return 'put';
+        }
+
+        @http.GET('/internal').cors(false)
+        internal() {
+            return 'internal';
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ cors: { maxAge: 600, exposedHeaders: ['x-total'] } })]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    {
+        const response = await httpKernel.request(HttpRequest.OPTIONS('/user').headers({
+            origin: 'https://a.com',
+            'access-control-request-method': 'PUT',
+            'access-control-request-headers': 'content-type',
+        }));
+        expect(response.statusCode).toBe(204);
+        expect(response.getHeader('access-control-allow-origin')).toBe('*');
+        expect(response.getHeader('access-control-allow-methods')).toBe('GET, PUT');
+        expect(response.getHeader('access-control-allow-headers')).toBe('content-type');
+        expect(response.getHeader('access-control-max-age')).toBe('600');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/user').header('origin', 'https://a.com'));
+        expect(response.json).toBe('user');
+        expect(response.getHeader('access-control-allow-origin')).toBe('*');
+        expect(response.getHeader('access-control-expose-headers')).toBe('x-total');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/user'));
+        expect(response.getHeader('access-control-allow-origin')).toBe(undefined);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/internal').header('origin', 'https://a.com'));
+        expect(response.getHeader('access-control-allow-origin')).toBe(undefined);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.OPTIONS('/unknown').headers({ origin: 'https://a.com', 'access-control-request-method': 'GET' }));
+        expect(response.statusCode).toBe(404);
+    }
+});
+
+test('cors decorator', async () => {
+    @http.controller('/api').cors({ origin: [/\.example\.com$/], credentials: true })
+    class Controller {
+        @http.POST('/login')
+        login() {
+            return true;
+        }
+
+        @http.GET('/public').cors({ origin: true, credentials: false })
+        public() {
+            return true;
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule()]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    {
+        const response = await httpKernel.request(HttpRequest.OPTIONS('/api/login').headers({ origin: 'https://app.example.com', 'access-control-request-method': 'POST' }));
+        expect(response.statusCode).toBe(204);
+        expect(response.getHeader('access-control-allow-origin')).toBe('https://app.example.com');
+        expect(response.getHeader('access-control-allow-credentials')).toBe('true');
+        expect(response.getHeader('vary')).toBe('Origin');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.OPTIONS('/api/login').headers({ origin: 'https://evil.com', 'access-control-request-method': 'POST' }));
+        expect(response.statusCode).toBe(204);
+        expect(response.getHeader('access-control-allow-origin')).toBe(undefined);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.POST('/api/login').header('origin', 'https://app.example.com'));
+        expect(response.json).toBe(true);
+        expect(response.getHeader('access-control-allow-origin')).toBe('https://app.example.com');
+        expect(response.getHeader('access-control-allow-credentials')).toBe('true');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/api/public').header('origin', 'https://evil.com'));
+        expect(response.getHeader('access-control-allow-origin')).toBe('*');
+        expect(response.getHeader('access-control-allow-credentials')).toBe(undefined);
+    }
+});
+
+test('cors credentials require an origin allow-list', async () => {
+    class Controller {
+        @http.GET('/user')
+        get() {
+            return 'user';
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ cors: { credentials: true } })]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    {
+        const response = await httpKernel.request(HttpRequest.OPTIONS('/user').headers({ origin: 'https://evil.com', 'access-control-request-method': 'GET' }));
+        expect(response.getHeader('access-control-allow-origin')).toBe('*');
+        expect(response.getHeader('access-control-allow-credentials')).toBe(undefined);
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/user').header('origin', 'https://evil.com'));
+        expect(response.getHeader('access-control-allow-origin')).toBe('*');
+        expect(response.getHeader('access-control-allow-credentials')).toBe(undefined);
+    }
+});
@@ -0,0 +1,138 @@
+import { expect, test } from '@jest/globals';
+import { App } from '@deepkit/app';
+import { MaxLength, MinLength, Pattern, Positive, typeOf } from '@deepkit/type';
+import { http } from '../src/decorator';
+import { HttpKernel } from '../src/kernel';
+import { HttpBody, HttpHeader, HttpQueries, HttpQuery, HttpRequest } from '../src/model';
+import { HttpModule } from '../src/module';
+import { OpenApiGenerator, OpenApiSchemaRegistry } from '../src/openapi';
+import { Router } from '../src/router';
+
+test('openapi schema', () => {
+    const lowercase = /^[a-z]+$/;
+
+    class Group {
+        name!: string & MinLength<3> & MaxLength<20>;
+        parent?: Group;
+    }
+
+    class User {
+        id!: number & Positive;
+        /**
+         * The login name.
+         */
+        username!: string & Pattern<typeof lowercase>;
+        role: 'admin' | 'user' = 'user';
+        tags: string[] & MinLength<1> = [];
+        group!: Group;
+        created: Date = new Date;
+        deleted!: Date | null;
+    }
+
+    const registry = new OpenApiSchemaRegistry();
+    const schema = registry.getSchema(typeOf<User>());
+    expect(schema).toEqual({ $ref: '#/components/schemas/User' });
+
+    expect(registry.schemas.User).toEqual({
+        type: 'object',
+        properties: {
+            id: { type: 'number', minimum: 0 },
+            username: { type: 'string', pattern: '^[a-z]+$' },
+            role: { type: 'string', enum: ['admin', 'user'] },
+            tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+            group: { $ref: '#/components/schemas/Group' },
+            created: { type: 'string', format: 'date-time' },
+            deleted: { type: 'string', format: 'date-time', nullable: true },
+        },
+        required: ['id', 'username', 'group'],
+    });
+
+    expect(registry.schemas.Group).toEqual({
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 3, maxLength: 20 },
+            parent: { $ref: '#/components/schemas/Group' },
+        },
+        required: ['name'],
+    });
+});
+
+test('openapi routes', () => {
+    class CreateUser {
+        username!: string;
+    }
+
+    interface ListQuery {
+        limit?: number;
+        offset?: number;
+    }
+
+    class UserController {
+        @http.GET('/user/:id').category('user').description('Returns a user')
+        get(id: number, authorization: HttpHeader<string>, fields?: HttpQuery<string>): CreateUser {
+            return new CreateUser;
+        }
+
+        @http.POST('/user').name('createUser').response<CreateUser>(201, 'Created')
+        create(body: HttpBody<CreateUser>) {
+        }
+
+        @http.GET('/users')
+        async list(query: HttpQueries<ListQuery>): Promise<string[]> {
+            return [];
+        }
+    }
+
+    const document = new OpenApiGenerator(Router.forControllers([UserController])).generate();
+    expect(document.openapi).toBe('3.0.3');
+
+    expect(document.paths['/user/{id}'].get).toEqual({
+        operationId: 'UserController.get',
+        description: 'Returns a user',
+        tags: ['user'],
+        parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'number' } },
+            { name: 'authorization', in: 'header', required: true, schema: { type: 'string' } },
+            { name: 'fields', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+            200: { description: 'CreateUser', content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateUser' } } } },
+        },
+    });
+
+    expect(document.paths['/user'].post).toMatchObject({
+        operationId: 'createUser',
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateUser' } } } },
+        responses: {
+            201: { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateUser' } } } },
+            200: { description: '' },
+        },
+    });
+
+    expect(document.paths['/users'].get.parameters).toEqual([
+        { name: 'limit', in: 'query', required: false, schema: { type: 'number' } },
+        { name: 'offset', in: 'query', required: false, schema: { type: 'number' } },
+    ]);
+    expect(document.paths['/users'].get.responses[200].content).toEqual({ 'application/json': { schema: { type: 'array', items: { type: 'string' } } } });
+
+    expect(document.components.schemas.CreateUser).toEqual({ type: 'object', properties: { username: { type: 'string' } }, required: ['username'] });
+});
+
+test('openapi served', async () => {
+    class Controller {
+        @http.GET('/hello')
+        hello(): string {
+            return 'hi';
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ openApiPath: '/openapi.json', openApiTitle: 'My API' })]
+    });
+
+    const response = await app.get(HttpKernel).request(HttpRequest.GET('/openapi.json'));
+    expect(response.statusCode).toBe(200);
+    expect(response.json.info).toEqual({ title: 'My API', version: '1.0.0' });
+    expect(Object.keys(response.json.paths)).toEqual(['/hello']);
+});
@@ -0,0 +1,56 @@
+import { expect, test } from '@jest/globals';
+import { http } from '../src/decorator';
+import { HttpRequest } from '../src/model';
+import { createHttpKernel } from './utils';
+
+test('rate limit', async () => {
+    let called = 0;
+
+    class Controller {
+        @http.POST('/login').rateLimit({ window: 60, max: 2 })
+        login() {
+            called++;
+            return 'ok';
+        }
+
+        @http.GET('/search').rateLimit({ window: 60, max: 1, strategy: 'token-bucket', key: request => String(request.headers['x-api-key']) })
+        search() {
+            return [];
+        }
+
+        @http.GET('/free')
+        free() {
+            return 'free';
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+
+    {
+        const response = await httpKernel.request(HttpRequest.POST('/login'));
+        expect(response.statusCode).toBe(200);
+        expect(response.getHeader('ratelimit-limit')).toBe('2');
+        expect(response.getHeader('ratelimit-remaining')).toBe('1');
+    }
+
+    expect((await httpKernel.request(HttpRequest.POST('/login'))).statusCode).toBe(200);
+
+    {
+        const response = await httpKernel.request(HttpRequest.POST('/login'));
+        expect(response.statusCode).toBe(429);
+        expect(response.json).toEqual({ message: 'Too many requests' });
+        expect(response.getHeader('ratelimit-remaining')).toBe('0');
+        expect(Number(response.getHeader('retry-after'))).toBeGreaterThan(0);
+        expect(called).toBe(2);
+    }
+
+    expect((await httpKernel.request(HttpRequest.GET('/search').header('x-api-key', 'a'))).statusCode).toBe(200);
+    expect((await httpKernel.request(HttpRequest.GET('/search').header('x-api-key', 'a'))).statusCode).toBe(429);
+    expect((await httpKernel.request(HttpRequest.GET('/search').header('x-api-key', 'b'))).statusCode).toBe(200);
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/free'));
+        expect(response.statusCode).toBe(200);
+        expect(response.getHeader('ratelimit-limit')).toBe(undefined);
+    }
+});
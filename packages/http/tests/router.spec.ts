@@ -3,7 +3,7 @@ import { dotToUrlPath, RouteParameterResolverContext, Router, UploadedFile } fro
 import { http, httpClass } from '../src/decorator';
 import { HttpBadRequestError, httpWorkflow, JSONResponse } from '../src/http';
 import { eventDispatcher } from '@deepkit/event';
-import { HttpBody, HttpBodyValidation, HttpQueries, HttpQuery, HttpRegExp, HttpRequest } from '../src/model';
+import { HttpBody, HttpBodyValidation, HttpCookie, HttpHeader, HttpQueries, HttpQuery, HttpRegExp, HttpRequest, HttpResponse } from '../src/model';
 import { getClassName, sleep } from '@deepkit/core';
 import { createHttpKernel } from './utils';
 import { Group, MinLength } from '@deepkit/type';
@@ -779,3 +779,58 @@ test('BodyValidation', async () => {
     expect((await httpKernel.request(HttpRequest.POST('/action3').json({ username: 'Peter' }))).json).toEqual({ username: 'Peter' });
     expect((await httpKernel.request(HttpRequest.POST('/action3').json({ username: 'Pe' }))).bodyString).toEqual(`{"message":"Invalid: Min length is 3"}`);
 });
+
+test('router header', async () => {
+    class Controller {
+        @http.GET('/header')
+        header(userAgent: HttpHeader<string>, version: HttpHeader<number, { name: 'X-Api-Version' }>, optional?: HttpHeader<string>) {
+            return [userAgent, version, optional];
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+
+    expect((await httpKernel.request(HttpRequest.GET('/header').headers({ 'user-agent': 'jest', 'x-api-version': '2' }))).json).toEqual(['jest', 2, null]);
+
+    const response = await httpKernel.request(HttpRequest.GET('/header').headers({ 'user-agent': 'jest', 'x-api-version': 'abc' }));
+    expect(response.statusCode).toBe(400);
+    expect(response.json.errors[0].path).toBe('x-api-version');
+
+    const missingResponse = await httpKernel.request(HttpRequest.GET('/header').headers({ 'x-api-version': '2' }));
+    expect(missingResponse.statusCode).toBe(400);
+    expect(missingResponse.json.errors.map((v: any) => v.path)).toEqual(['user-agent']);
+});
+
+test('router cookie', async () => {
+    class Controller {
+        @http.GET('/cookie')
+        cookie(session: HttpCookie<string>, page: HttpCookie<number, { name: 'last-page' }>) {
+            return [session, page];
+        }
+
+        @http.GET('/set-cookie')
+        setCookie(response: HttpResponse) {
+            response.setCookie('session', 'a b', { httpOnly: true, maxAge: 60, sameSite: 'lax' });
+            response.clearCookie('old');
+            return true;
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+
+    expect((await httpKernel.request(HttpRequest.GET('/cookie').cookies({ session: 'abc', 'last-page': '3' }))).json).toEqual(['abc', 3]);
+
+    const response = await httpKernel.request(HttpRequest.GET('/cookie').cookies({ 'last-page': 'abc' }));
+    expect(response.statusCode).toBe(400);
+    expect(response.json.errors[0].path).toBe('last-page');
+
+    const missingResponse = await httpKernel.request(HttpRequest.GET('/cookie').cookies({ 'last-page': '1' }));
+    expect(missingResponse.statusCode).toBe(400);
+    expect(missingResponse.json.errors.map((v: any) => v.path)).toEqual(['session']);
+
+    const setCookieResponse = await httpKernel.request(HttpRequest.GET('/set-cookie'));
+    expect(setCookieResponse.getHeader('set-cookie')).toEqual([
+        'session=a%20b; Max-Age=60; Path=/; HttpOnly; SameSite=Lax',
+        'old=; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/',
+    ]);
+});
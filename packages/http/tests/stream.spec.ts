@@ -0,0 +1,110 @@
+import { expect, test } from '@jest/globals';
+import { sleep } from '@deepkit/core';
+import { Observable } from 'rxjs';
+import { Readable } from 'stream';
+import { http } from '../src/decorator';
+import { StreamResponse } from '../src/http';
+import { HttpRequest, MemoryHttpResponse } from '../src/model';
+import { createHttpKernel } from './utils';
+
+test('stream async generator as ndjson', async () => {
+    class User {
+        constructor(public id: number, public created: Date = new Date('2021-01-01T00:00:00.000Z')) {
+        }
+    }
+
+    class Controller {
+        @http.GET('/users')
+        async *users(): AsyncGenerator<User> {
+            yield new User(1);
+            yield new User(2);
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+    const response = await httpKernel.request(HttpRequest.GET('/users'));
+    expect(response.statusCode).toBe(200);
+    expect(response.getHeader('content-type')).toBe('application/x-ndjson; charset=utf-8');
+    expect(response.bodyString).toBe('{"id":1,"created":"2021-01-01T00:00:00.000Z"}\n{"id":2,"created":"2021-01-01T00:00:00.000Z"}\n');
+});
+
+test('stream observable as sse', async () => {
+    class Controller {
+        @http.GET('/numbers')
+        numbers(): Observable<number> {
+            return new Observable(subscriber => {
+                subscriber.next(1);
+                subscriber.next(2);
+                subscriber.complete();
+            });
+        }
+
+        @http.GET('/failing')
+        failing() {
+            return new StreamResponse(new Observable(subscriber => {
+                subscriber.next('a');
+                subscriber.error(new Error('broken'));
+            }), 'sse');
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/numbers').header('accept', 'text/event-stream'));
+        expect(response.getHeader('content-type')).toBe('text/event-stream; charset=utf-8');
+        expect(response.getHeader('cache-control')).toBe('no-cache');
+        expect(response.bodyString).toBe('data: 1\n\ndata: 2\n\n');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/numbers'));
+        expect(response.bodyString).toBe('1\n2\n');
+    }
+
+    {
+        const response = await httpKernel.request(HttpRequest.GET('/failing'));
+        expect(response.bodyString).toBe('data: "a"\n\nevent: error\ndata: {"message":"broken"}\n\n');
+    }
+});
+
+test('stream readable raw', async () => {
+    class Controller {
+        @http.GET('/file')
+        file() {
+            return Readable.from([Buffer.from('hello '), Buffer.from('world')]);
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+    const response = await httpKernel.request(HttpRequest.GET('/file'));
+    expect(response.getHeader('content-type')).toBe('application/octet-stream');
+    expect(response.bodyString).toBe('hello world');
+});
+
+test('stream client disconnect unsubscribes', async () => {
+    let unsubscribed = false;
+
+    class Controller {
+        @http.GET('/events')
+        events() {
+            return new StreamResponse(new Observable(subscriber => {
+                subscriber.next('first');
+                return () => unsubscribed = true;
+            }), 'sse');
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+    const request = HttpRequest.GET('/events').build();
+    const response = new MemoryHttpResponse(request);
+    response.assignSocket(request.socket);
+    const promise = httpKernel.handleRequest(request, response);
+    await sleep(0.05);
+    expect(unsubscribed).toBe(false);
+
+    //the client closes the connection
+    response.emit('close');
+    await promise;
+    expect(unsubscribed).toBe(true);
+    expect(response.bodyString).toBe('data: "first"\n\n');
+});
@@ -0,0 +1,207 @@
+import { expect, test } from '@jest/globals';
+import { App } from '@deepkit/app';
+import { existsSync } from 'fs';
+import { Readable } from 'stream';
+import { http } from '../src/decorator';
+import { HttpKernel } from '../src/kernel';
+import { HttpBody, HttpRequest } from '../src/model';
+import { HttpModule } from '../src/module';
+import { UploadedFile } from '../src/router';
+import { HttpUploadHandler, matchesMimeType, MaxFileSize, MimeType } from '../src/upload';
+import { createHttpKernel } from './utils';
+
+function multipart(files: { name: string, filename: string, type: string, content: string }[], fields: { [name: string]: string } = {}) {
+    const boundary = 'deepkitboundary';
+    const parts: string[] = [];
+    for (const [name, value] of Object.entries(fields)) {
+        parts.push(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`);
+    }
+    for (const file of files) {
+        parts.push(`--${boundary}\r\nContent-Disposition: form-data; name="${file.name}"; filename="${file.filename}"\r\nContent-Type: ${file.type}\r\n\r\n${file.content}\r\n`);
+    }
+    const body = parts.join('') + `--${boundary}--\r\n`;
+    return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+function upload(url: string, files: { name: string, filename: string, type: string, content: string }[], fields?: { [name: string]: string }) {
+    const { body, contentType } = multipart(files, fields);
+    return HttpRequest.POST(url).header('content-type', contentType).header('content-length', Buffer.byteLength(body)).body(body);
+}
+
+test('mime type matching', () => {
+    expect(matchesMimeType('image/png', 'image/*')).toBe(true);
+    expect(matchesMimeType('image/png; charset=binary', 'image/png')).toBe(true);
+    expect(matchesMimeType('IMAGE/PNG', 'text/plain, image/png')).toBe(true);
+    expect(matchesMimeType('text/plain', 'image/*')).toBe(false);
+    expect(matchesMimeType('text/plain', '*/*')).toBe(true);
+});
+
+test('upload validation', async () => {
+    let path = '';
+
+    class Controller {
+        @http.POST('/avatar')
+        avatar(body: HttpBody<{ title: string, avatar: UploadedFile & MaxFileSize<10> & MimeType<'image/*'> }>) {
+            path = body.avatar.path;
+            return { title: body.title, name: body.avatar.name, size: body.avatar.size, type: body.avatar.type };
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller]);
+
+    {
+        const response = await httpKernel.request(upload('/avatar', [{ name: 'avatar', filename: 'me.png', type: 'image/png', content: 'hello' }], { title: 'Me' }));
+        expect(response.json).toEqual({ title: 'Me', name: 'me.png', size: 5, type: 'image/png' });
+        //temporary files are removed after the request
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(existsSync(path)).toBe(false);
+    }
+
+    {
+        const response = await httpKernel.request(upload('/avatar', [{ name: 'avatar', filename: 'me.png', type: 'image/png', content: 'hello world!' }], { title: 'Me' }));
+        expect(response.statusCode).toBe(400);
+        expect(response.json.errors).toEqual([{ path: 'avatar', code: 'maxFileSize', message: 'File size 12 exceeds maximum of 10 bytes' }]);
+    }
+
+    {
+        const response = await httpKernel.request(upload('/avatar', [{ name: 'avatar', filename: 'me.txt', type: 'text/plain', content: 'hello' }], { title: 'Me' }));
+        expect(response.statusCode).toBe(400);
+        expect(response.json.errors[0]).toMatchObject({ path: 'avatar', code: 'mimeType' });
+    }
+});
+
+test('max body size', async () => {
+    class Controller {
+        @http.POST('/avatar')
+        avatar(body: HttpBody<{ avatar: UploadedFile }>) {
+            return body.avatar.size;
+        }
+
+        @http.POST('/json')
+        json(body: HttpBody<{ text: string }>) {
+            return body.text;
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ maxBodySize: 200 })]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    expect((await httpKernel.request(upload('/avatar', [{ name: 'avatar', filename: 'a.bin', type: 'application/octet-stream', content: 'a'.repeat(10) }]))).json).toBe(10);
+
+    const tooLarge = await httpKernel.request(upload('/avatar', [{ name: 'avatar', filename: 'a.bin', type: 'application/octet-stream', content: 'a'.repeat(300) }]));
+    expect(tooLarge.statusCode).toBe(413);
+    expect(tooLarge.json).toEqual({ message: 'Payload too large' });
+
+    //without content-length the body is counted while reading
+    const { body, contentType } = multipart([{ name: 'avatar', filename: 'a.bin', type: 'application/octet-stream', content: 'a'.repeat(300) }]);
+    expect((await httpKernel.request(HttpRequest.POST('/avatar').header('content-type', contentType).body(body))).statusCode).toBe(413);
+
+    expect((await httpKernel.request(HttpRequest.POST('/json').json({ text: 'hi' }))).json).toBe('hi');
+    expect((await httpKernel.request(HttpRequest.POST('/json').json({ text: 'a'.repeat(300) }))).statusCode).toBe(413);
+});
+
+test('upload stream handler', async () => {
+    const stored: { [path: string]: string } = {};
+
+    async function read(stream: Readable): Promise<string> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) chunks.push(chunk);
+        return Buffer.concat(chunks).toString('utf8');
+    }
+
+    const handled: string[] = [];
+    const aborted: string[] = [];
+
+    class MemoryUploadHandler implements HttpUploadHandler {
+        async handle(stream: Readable, file: UploadedFile) {
+            handled.push(file.name!);
+            const path = 'memory://' + file.name;
+            stored[path] = '';
+            for await (const chunk of stream) stored[path] += chunk.toString('utf8');
+            return path;
+        }
+
+        abort(file: UploadedFile) {
+            aborted.push(file.name!);
+            delete stored['memory://' + file.name];
+        }
+    }
+
+    class Controller {
+        @http.POST('/fn').upload(async (stream, file) => {
+            stored['fn://' + file.name] = await read(stream);
+            return 'fn://' + file.name;
+        })
+        fn(body: HttpBody<{ files: UploadedFile[] }>, request: HttpRequest) {
+            return { files: body.files.map(v => ({ path: v.path, size: v.size })), temporary: Object.keys(request.uploadedFiles) };
+        }
+
+        @http.POST('/class').upload(MemoryUploadHandler)
+        class(body: HttpBody<{ file: UploadedFile & MaxFileSize<3> & MimeType<'text/*'> }>) {
+            return body.file.path;
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller], [MemoryUploadHandler]);
+
+    const response = await httpKernel.request(upload('/fn', [
+        { name: 'files', filename: 'a.txt', type: 'text/plain', content: 'first' },
+        { name: 'files', filename: 'b.txt', type: 'text/plain', content: 'second' },
+    ]));
+    expect(response.json).toEqual({ files: [{ path: 'fn://a.txt', size: 5 }, { path: 'fn://b.txt', size: 6 }], temporary: [] });
+    expect(stored).toEqual({ 'fn://a.txt': 'first', 'fn://b.txt': 'second' });
+
+    expect((await httpKernel.request(upload('/class', [{ name: 'file', filename: 'c.txt', type: 'text/plain', content: 'abc' }]))).json).toBe('memory://c.txt');
+    expect(stored['memory://c.txt']).toBe('abc');
+
+    //a too large file is rejected while streaming and removed via abort()
+    const tooLarge = await httpKernel.request(upload('/class', [{ name: 'file', filename: 'd.txt', type: 'text/plain', content: 'abcd' }]));
+    expect(tooLarge.statusCode).toBe(400);
+    expect(tooLarge.json.errors).toEqual([{ path: 'file', code: 'maxFileSize', message: 'File size 4 exceeds maximum of 3 bytes' }]);
+    expect(aborted).toEqual(['d.txt']);
+
+    //a file with a wrong mime type never reaches the handler
+    const wrongType = await httpKernel.request(upload('/class', [{ name: 'file', filename: 'e.png', type: 'image/png', content: 'abc' }]));
+    expect(wrongType.statusCode).toBe(400);
+    expect(wrongType.json.errors[0]).toMatchObject({ path: 'file', code: 'mimeType' });
+    expect(handled).toEqual(['c.txt', 'd.txt']);
+
+    //rejected files are never stored
+    expect(Object.keys(stored)).toEqual(['fn://a.txt', 'fn://b.txt', 'memory://c.txt']);
+});
+
+test('upload stream handler errors', async () => {
+    class Controller {
+        @http.POST('/fail').upload(async (stream) => {
+            for await (const chunk of stream) throw new Error('storage unavailable');
+        })
+        fail(body: HttpBody<{ file: UploadedFile }>) {
+            return body.file.path;
+        }
+
+        @http.POST('/discard').upload(async (stream) => {
+            for await (const chunk of stream) ;
+            return 'discarded';
+        })
+        discard(body: HttpBody<{ file: UploadedFile }>) {
+            return body.file.path;
+        }
+    }
+
+    const app = new App({
+        controllers: [Controller],
+        imports: [new HttpModule({ maxBodySize: 200 })]
+    });
+    const httpKernel = app.get(HttpKernel);
+
+    expect((await httpKernel.request(upload('/fail', [{ name: 'file', filename: 'a.txt', type: 'text/plain', content: 'abc' }]))).statusCode).toBe(500);
+
+    expect((await httpKernel.request(upload('/discard', [{ name: 'file', filename: 'a.txt', type: 'text/plain', content: 'abc' }]))).json).toBe('discarded');
+
+    //without content-length the size is checked by formidable while streaming
+    const { body, contentType } = multipart([{ name: 'file', filename: 'a.bin', type: 'application/octet-stream', content: 'a'.repeat(300) }]);
+    expect((await httpKernel.request(HttpRequest.POST('/discard').header('content-type', contentType).body(body))).statusCode).toBe(413);
+});
@@ -0,0 +1,125 @@
+import { expect, test } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { MinLength } from '@deepkit/type';
+import { eventDispatcher } from '@deepkit/event';
+import { http } from '../src/decorator';
+import { httpWorkflow } from '../src/http';
+import { HttpKernel } from '../src/kernel';
+import { HttpRequest, HttpResponse } from '../src/model';
+import { HttpWebSocket } from '../src/websocket';
+import { createHttpKernel } from './utils';
+
+function startServer(httpKernel: HttpKernel): Promise<Server> {
+    const server = createServer({ IncomingMessage: HttpRequest, ServerResponse: HttpResponse } as any, httpKernel.handleRequest.bind(httpKernel) as any);
+    server.on('upgrade', (request, socket, head) => {
+        if (httpKernel.isWebSocketRequest(request)) {
+            httpKernel.handleUpgrade(request, socket, head);
+        } else {
+            socket.destroy();
+        }
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function connect(server: Server, path: string, headers: { [name: string]: string } = {}): WebSocket {
+    return new WebSocket(`ws://127.0.0.1:${(server.address() as AddressInfo).port}${path}`, { headers });
+}
+
+function nextMessage(ws: WebSocket): Promise<string> {
+    return new Promise(resolve => ws.once('message', (data) => resolve(String(data))));
+}
+
+test('websocket route', async () => {
+    class ChatMessage {
+        text!: string & MinLength<2>;
+        created!: Date;
+    }
+
+    class Room {
+        constructor(public name: string) {
+        }
+    }
+
+    class ChatController {
+        @http.WEBSOCKET('/chat/:room')
+        chat(room: string, socket: HttpWebSocket<ChatMessage>) {
+            socket.send({ text: 'welcome to ' + room, created: new Date('2021-01-01T00:00:00.000Z') });
+            socket.onMessage(message => {
+                expect(message).toBeInstanceOf(ChatMessage);
+                expect(message.created).toBeInstanceOf(Date);
+                socket.send({ text: message.text.toUpperCase(), created: message.created });
+            });
+        }
+
+        @http.GET('/chat/:room')
+        history(room: string) {
+            return [];
+        }
+    }
+
+    const httpKernel = createHttpKernel([ChatController]);
+    const server = await startServer(httpKernel);
+
+    try {
+        const ws = connect(server, '/chat/general');
+        expect(JSON.parse(await nextMessage(ws))).toEqual({ text: 'welcome to general', created: '2021-01-01T00:00:00.000Z' });
+
+        ws.send(JSON.stringify({ text: 'hello', created: '2021-01-02T00:00:00.000Z' }));
+        expect(JSON.parse(await nextMessage(ws))).toEqual({ text: 'HELLO', created: '2021-01-02T00:00:00.000Z' });
+
+        //invalid messages close the connection
+        const closed = new Promise<number>(resolve => ws.once('close', resolve));
+        ws.send(JSON.stringify({ text: 'a', created: '2021-01-02T00:00:00.000Z' }));
+        expect(await closed).toBe(1007);
+
+        //regular requests still reach regular routes
+        const response = await httpKernel.request(HttpRequest.GET('/chat/general'));
+        expect(response.json).toEqual([]);
+    } finally {
+        server.close();
+    }
+});
+
+test('websocket auth', async () => {
+    class Controller {
+        @http.WEBSOCKET('/events').group('secured')
+        events(socket: HttpWebSocket<string>) {
+            socket.send('hi');
+        }
+    }
+
+    class AuthListener {
+        @eventDispatcher.listen(httpWorkflow.onAuth)
+        onAuth(event: typeof httpWorkflow.onAuth.event) {
+            if (event.route.groups.includes('secured') && event.request.headers.authorization !== 'secret') {
+                event.accessDenied();
+            }
+        }
+    }
+
+    const httpKernel = createHttpKernel([Controller], [], [AuthListener]);
+    const server = await startServer(httpKernel);
+
+    try {
+        {
+            const ws = connect(server, '/events');
+            const statusCode = await new Promise(resolve => ws.once('unexpected-response', (request, response) => resolve(response.statusCode)));
+            expect(statusCode).toBe(403);
+        }
+
+        {
+            const ws = connect(server, '/events', { authorization: 'secret' });
+            expect(JSON.parse(await nextMessage(ws))).toBe('hi');
+            ws.close();
+        }
+
+        {
+            const response = await httpKernel.request(HttpRequest.GET('/events').header('upgrade', 'websocket').header('authorization', 'secret'));
+            expect(response.statusCode).toBe(426);
+        }
+    } finally {
+        server.close();
+    }
+});
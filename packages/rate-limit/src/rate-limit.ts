@@ -0,0 +1,200 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+export interface RateLimitOptions {
+    /**
+     * Time window in seconds.
+     */
+    window: number;
+
+    /**
+     * Maximum hits per window. For token-bucket this is the bucket size, refilled with `max` tokens per `window`.
+     */
+    max: number;
+
+    /**
+     * sliding-window weights the hits of the previous window by its overlap with the current one.
+     * token-bucket allows bursts of up to `max` hits and refills continuously.
+     *
+     * Default is sliding-window.
+     */
+    strategy?: 'sliding-window' | 'token-bucket';
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+
+    /**
+     * Seconds until the current window ends (sliding-window) or the bucket is full again (token-bucket).
+     */
+    reset: number;
+
+    /**
+     * Seconds until the next hit is allowed. 0 when allowed.
+     */
+    retryAfter: number;
+}
+
+export interface RateLimitBucket {
+    tokens: number;
+
+    /**
+     * Unix timestamp in milliseconds of the last refill.
+     */
+    time: number;
+}
+
+/**
+ * Storage of rate limit counters. Implementations need to apply all operations atomically,
+ * so limits hold when the store is shared across processes.
+ */
+export abstract class RateLimitStore {
+    /**
+     * Increments the counter by value and returns the new value. The ttl in seconds is set when the counter is created.
+     */
+    abstract increment(key: string, value: number, ttl: number): Promise<number>;
+
+    abstract get(key: string): Promise<number | undefined>;
+
+    /**
+     * Replaces the bucket with the result of updater and renews its ttl in seconds.
+     * The updater may be called several times on concurrent updates.
+     */
+    abstract update(key: string, updater: (bucket?: RateLimitBucket) => RateLimitBucket, ttl: number): Promise<RateLimitBucket>;
+}
+
+/**
+ * Keeps counters in the memory of the current process (worker).
+ */
+export class MemoryRateLimitStore extends RateLimitStore {
+    protected entries = new Map<string, { value: any, expires: number }>();
+    protected writes = 0;
+
+    protected read(key: string): any {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        if (entry.expires <= Date.now()) {
+            this.entries.delete(key);
+            return;
+        }
+        return entry.value;
+    }
+
+    protected write(key: string, value: any, expires: number) {
+        this.entries.set(key, { value, expires });
+
+        if (++this.writes % 1000 === 0) this.removeExpired();
+    }
+
+    removeExpired() {
+        const now = Date.now();
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.expires <= now) this.entries.delete(key);
+        }
+    }
+
+    async increment(key: string, value: number, ttl: number): Promise<number> {
+        const entry = this.entries.get(key);
+        if (entry && entry.expires > Date.now()) {
+            entry.value += value;
+            return entry.value;
+        }
+        this.write(key, value, Date.now() + ttl * 1000);
+        return value;
+    }
+
+    async get(key: string): Promise<number | undefined> {
+        return this.read(key);
+    }
+
+    async update(key: string, updater: (bucket?: RateLimitBucket) => RateLimitBucket, ttl: number): Promise<RateLimitBucket> {
+        const next = updater(this.read(key));
+        this.write(key, next, Date.now() + ttl * 1000);
+        return next;
+    }
+}
+
+/**
+ * Counts hits per key and decides whether they are within the configured limit.
+ *
+ * By default counters are kept in memory. Use `useStore` to share them across processes.
+ */
+export class RateLimiter {
+    protected store: RateLimitStore = new MemoryRateLimitStore;
+
+    useStore(store: RateLimitStore): this {
+        this.store = store;
+        return this;
+    }
+
+    getStore(): RateLimitStore {
+        return this.store;
+    }
+
+    async hit(key: string, options: RateLimitOptions, now: number = Date.now()): Promise<RateLimitResult> {
+        if (options.strategy === 'token-bucket') return this.hitTokenBucket(key, options, now);
+        return this.hitSlidingWindow(key, options, now);
+    }
+
+    protected async hitSlidingWindow(key: string, options: RateLimitOptions, now: number): Promise<RateLimitResult> {
+        const windowMs = options.window * 1000;
+        const index = Math.floor(now / windowMs);
+        const elapsed = (now - index * windowMs) / windowMs;
+        //the previous window is needed for the whole current window
+        const ttl = options.window * 2;
+
+        const [count, previous] = await Promise.all([
+            this.store.increment(`${key}:${index}`, 1, ttl),
+            this.store.get(`${key}:${index - 1}`),
+        ]);
+        const previousWeight = (previous || 0) * (1 - elapsed);
+        const weighted = previousWeight + count;
+        const untilWindowEnd = (1 - elapsed) * options.window;
+        const reset = Math.ceil(untilWindowEnd);
+
+        if (weighted <= options.max) {
+            return { allowed: true, limit: options.max, remaining: Math.floor(options.max - weighted), reset, retryAfter: 0 };
+        }
+
+        //rejected hits don't count, so clients that keep retrying are not locked out forever
+        const accepted = await this.store.increment(`${key}:${index}`, -1, ttl);
+
+        let retryAfter: number;
+        if (accepted < options.max && previous) {
+            //wait until the weight of the previous window decreased enough
+            retryAfter = Math.max(0, (previousWeight - (options.max - accepted - 1)) / previous) * options.window;
+        } else {
+            //the current window becomes the previous one, wait until its weight decreased enough
+            retryAfter = untilWindowEnd + Math.max(0, 1 - (options.max - 1) / Math.max(1, accepted)) * options.window;
+        }
+
+        return { allowed: false, limit: options.max, remaining: 0, reset, retryAfter: Math.max(1, Math.ceil(retryAfter)) };
+    }
+
+    protected async hitTokenBucket(key: string, options: RateLimitOptions, now: number): Promise<RateLimitResult> {
+        //tokens per millisecond
+        const rate = options.max / (options.window * 1000);
+        let allowed = false;
+
+        const bucket = await this.store.update(key, (bucket) => {
+            const tokens = bucket ? Math.min(options.max, bucket.tokens + Math.max(0, now - bucket.time) * rate) : options.max;
+            allowed = tokens >= 1;
+            return { tokens: allowed ? tokens - 1 : tokens, time: now };
+        }, options.window);
+
+        return {
+            allowed, limit: options.max, remaining: Math.floor(bucket.tokens),
+            reset: Math.ceil((options.max - bucket.tokens) / rate / 1000),
+            retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - bucket.tokens) / rate / 1000)),
+        };
+    }
+}
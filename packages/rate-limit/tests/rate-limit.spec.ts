@@ -0,0 +1,37 @@
+import { expect, test } from '@jest/globals';
+import { RateLimiter } from '../src/rate-limit';
+
+test('sliding window', async () => {
+    const limiter = new RateLimiter();
+    const options = { window: 10, max: 2 };
+    const start = 1_000_000_000_000;
+
+    expect(await limiter.hit('a', options, start)).toEqual({ allowed: true, limit: 2, remaining: 1, reset: 10, retryAfter: 0 });
+    expect(await limiter.hit('a', options, start + 1000)).toEqual({ allowed: true, limit: 2, remaining: 0, reset: 9, retryAfter: 0 });
+    expect(await limiter.hit('a', options, start + 2000)).toEqual({ allowed: false, limit: 2, remaining: 0, reset: 8, retryAfter: 13 });
+
+    //other keys are independent
+    expect((await limiter.hit('b', options, start)).allowed).toBe(true);
+
+    //previous window weights 50%
+    expect(await limiter.hit('a', options, start + 15000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await limiter.hit('a', options, start + 16000)).toMatchObject({ allowed: false, retryAfter: 4 });
+    expect(await limiter.hit('a', options, start + 19000)).toMatchObject({ allowed: false });
+    expect(await limiter.hit('a', options, start + 20000)).toMatchObject({ allowed: true });
+});
+
+test('token bucket', async () => {
+    const limiter = new RateLimiter();
+    const options = { window: 10, max: 5, strategy: 'token-bucket' as const };
+    const start = 1_000_000_000_000;
+
+    for (let i = 0; i < 5; i++) {
+        expect((await limiter.hit('a', options, start)).allowed).toBe(true);
+    }
+    expect(await limiter.hit('a', options, start)).toEqual({ allowed: false, limit: 5, remaining: 0, reset: 10, retryAfter: 2 });
+
+    //one token every 2 seconds
+    expect(await limiter.hit('a', options, start + 2000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await limiter.hit('a', options, start + 3000)).allowed).toBe(false);
+    expect(await limiter.hit('a', options, start + 20000)).toMatchObject({ allowed: true, remaining: 4 });
+});
@@ -11,12 +11,16 @@
 export * from './src/client/action';
 export * from './src/client/client-direct';
 export * from './src/client/client-websocket';
+export * from './src/client/client-http';
 export * from './src/client/client';
 export * from './src/client/message-subject';
 export * from './src/client/entity-state';
+export * from './src/client/stream';
 export * from './src/server/action';
 export * from './src/server/kernel';
+export * from './src/server/middleware';
 export * from './src/server/security';
+export * from './src/server/stream';
 export * from './src/collection';
 export * from './src/decorators';
 export * from './src/model';
@@ -17,19 +17,24 @@ import {
     IdInterface,
     rpcActionObservableNext,
     rpcActionObservableSubscribeId,
+    RpcActionCancelledError,
+    RpcActionTimeoutError,
     rpcActionType,
     rpcResponseActionCollectionRemove,
     rpcResponseActionCollectionSort,
     rpcResponseActionObservable,
     rpcResponseActionObservableSubscriptionError,
+    rpcResponseActionStreamAck,
     rpcResponseActionType,
     RpcTypes,
     WrappedV
 } from '../model';
 import { rpcDecodeError, RpcMessage } from '../protocol';
-import { ClientProgress } from '../writer';
+import { ClientProgress, Progress } from '../writer';
 import type { WritableClient } from './client';
 import { EntityState, EntitySubjectStore } from './entity-state';
+import { RpcMessageSubject } from './message-subject';
+import { RpcStreamSender } from './stream';
 import { assertType, deserializeType, ReflectionKind, Type, TypeObjectLiteral, typeOf } from '@deepkit/type';
 
 interface ResponseActionObservableError extends rpcActionObservableSubscribeId, WrappedV {
@@ -42,6 +47,7 @@ type ControllerStateActionTypes = {
     collectionSchema?: Type, //with v as property
     collectionQueryModel?: Type,
     classType?: ClassType, //if method returns an classType, this is set here
+    streamParameters: { index: number, schema: TypeObjectLiteral }[], //Observable<T> and AsyncIterable<T> parameters, schema with index and v as property
 };
 
 type ControllerStateActionState = {
@@ -68,6 +74,33 @@ export class RpcControllerState {
     }
 }
 
+/**
+ * The promise returned by actions of a RemoteController.
+ */
+export interface RpcActionPromise<T> extends Promise<T> {
+    /**
+     * Rejects the pending promise with RpcActionCancelledError and aborts the RpcActionContext of the call on the server.
+     * Has no effect once the action responded.
+     */
+    cancel(): void;
+}
+
+/**
+ * An outgoing action call as seen by client middlewares. Changes to `args` are sent to the server.
+ */
+export interface RpcClientActionCall {
+    controller: string;
+    action: string;
+    args: any[];
+    peerId?: string;
+}
+
+/**
+ * Wraps outgoing action calls, see RpcBaseClient.addMiddleware(). Returns the result (usually the one of `next()`)
+ * or throws an error.
+ */
+export type RpcClientMiddlewareFn = (call: RpcClientActionCall, next: () => Promise<any>) => Promise<any>;
+
 // function setReturnType(types: ControllerStateActionTypes, serializedTypes: SerializedTypes) {
 //     const method = deserializeType(serializedTypes);
 //     assertType(method, ReflectionKind.method);
@@ -81,16 +114,90 @@ export class RpcControllerState {
 
 export class RpcActionClient {
     public entityState = new EntityState;
+    public middlewares: RpcClientMiddlewareFn[] = [];
+
+    /**
+     * When enabled, live results (Observable, Subject, BehaviorSubject, Collection) are registered and
+     * invoked again by resubscribe(), see RpcClient.enableAutoReconnect().
+     */
+    public resubscribeOnReconnect: boolean = false;
+    protected resubscriptions = new Set<() => void>();
 
     constructor(protected client: WritableClient) {
     }
 
-    public action<T>(controller: RpcControllerState, method: string, args: any[], options: { timeout?: number, dontWaitForConnection?: true, typeReuseDisabled?: boolean } = {}) {
+    /**
+     * Calls an action. `options.timeout` is in seconds, after which the call is cancelled and rejects with RpcActionTimeoutError.
+     */
+    public action<T>(controller: RpcControllerState, method: string, args: any[], options: { timeout?: number, dontWaitForConnection?: true, typeReuseDisabled?: boolean } = {}): RpcActionPromise<any> {
         const progress = ClientProgress.getNext();
+        if (!this.middlewares.length) return this.sendAction(controller, method, args, options, progress);
+
+        const middlewares = this.middlewares.slice();
+        const call: RpcClientActionCall = { controller: controller.controller, action: method, args, peerId: controller.peerId };
+        let pending: RpcActionPromise<any> | undefined;
+        let cancelled = false;
+
+        const dispatch = (index: number): (() => Promise<any>) => async () => {
+            const middleware = middlewares[index];
+            if (middleware) return await middleware(call, dispatch(index + 1));
+            if (cancelled) throw new RpcActionCancelledError(`Action ${controller.controller}.${method} cancelled`);
+            pending = this.sendAction(controller, method, call.args, options, progress);
+            return await pending;
+        };
+
+        return Object.assign(dispatch(0)(), {
+            //a middleware still running before next() is not interrupted, but next() then rejects
+            cancel: () => {
+                cancelled = true;
+                if (pending) pending.cancel();
+            },
+        });
+    }
+
+    protected sendAction(controller: RpcControllerState, method: string, args: any[], options: { timeout?: number, dontWaitForConnection?: true, typeReuseDisabled?: boolean }, progress?: Progress): RpcActionPromise<any> {
+        let cancel: (error: RpcActionCancelledError) => void = () => undefined;
+
+        const promise = asyncOperation<any>(async (resolveAction, rejectAction) => {
+            let pending = true;
+            let cancelled = false;
+            let actionSubject: RpcMessageSubject | undefined;
+            let timer: any;
+
+            //senders of streamed arguments, by argument index
+            const senders: { [index: number]: RpcStreamSender } = {};
+            const stopStreams = () => {
+                for (const sender of Object.values(senders)) sender.stop();
+            };
+
+            const resolve = (value: any) => {
+                pending = false;
+                clearTimeout(timer);
+                resolveAction(value);
+            };
+            const reject = (error: any) => {
+                pending = false;
+                clearTimeout(timer);
+                rejectAction(error);
+            };
+
+            cancel = (error: RpcActionCancelledError) => {
+                if (!pending) return;
+                cancelled = true;
+                stopStreams();
+                reject(error);
+                if (actionSubject) actionSubject.send(RpcTypes.ActionCancel);
+            };
+
+            if (options.timeout) {
+                timer = setTimeout(() => {
+                    cancel(new RpcActionTimeoutError(`Action ${controller.controller}.${method} timed out after ${options.timeout} seconds`));
+                }, options.timeout * 1000);
+            }
 
-        return asyncOperation<any>(async (resolve, reject) => {
             try {
                 const types = controller.getState(method)?.types || await this.loadActionTypes(controller, method, options);
+                if (cancelled) return;
                 // console.log('client types', types.parameterSchema.getProperty('args').getResolvedClassSchema().toString(), )
 
                 // const argsObject: any = {};
@@ -111,9 +218,22 @@ export class RpcActionClient {
                 let subscriberId = 0;
                 const subscribers: { [id: number]: Subscriber<any> } = {};
 
-                ClientProgress.nextProgress = progress;
+                if (types.streamParameters.length) {
+                    //items of streamed arguments are sent once the server acknowledges them
+                    args = args.slice();
+                    for (const { index, schema } of types.streamParameters) {
+                        senders[index] = new RpcStreamSender(index, args[index], schema, () => subject);
+                        args[index] = undefined;
+                    }
+                }
+
+                //set once a live result (Observable, Subject, Collection) was returned and is re-invoked after reconnects
+                let resubscribe: (() => void) | undefined;
+                const stopResubscribe = () => {
+                    if (resubscribe) this.resubscriptions.delete(resubscribe);
+                };
 
-                const subject = this.client.sendMessage(RpcTypes.Action, {
+                const send = () => this.client.sendMessage(RpcTypes.Action, {
                     controller: controller.controller,
                     method: method,
                     args
@@ -121,12 +241,38 @@ export class RpcActionClient {
                     peerId: controller.peerId,
                     dontWaitForConnection: options.dontWaitForConnection,
                     timeout: options.timeout,
-                }).onReply((reply) => {
+                });
+
+                const registerResubscribe = () => {
+                    //streamed arguments can not be sent again
+                    if (!this.resubscribeOnReconnect || resubscribe || types.streamParameters.length) return;
+                    resubscribe = () => {
+                        subject.release();
+                        subject = actionSubject = send().onReply(onReply);
+                    };
+                    this.resubscriptions.add(resubscribe);
+                };
+
+                const onReply = (reply: RpcMessage) => {
+                    if (cancelled) {
+                        //replies sent before the server received ActionCancel are ignored, its Ack releases the subject
+                        if (reply.type === RpcTypes.Ack) subject.release();
+                        return;
+                    }
+
                     try {
                         // console.log('client: answer', RpcTypes[reply.type], reply.composite);
 
                         switch (reply.type) {
+                            case RpcTypes.ResponseActionStreamAck: {
+                                const body = reply.parseBody<rpcResponseActionStreamAck>();
+                                const sender = senders[body.index];
+                                if (sender) sender.grant(body.n);
+                                break;
+                            }
+
                             case RpcTypes.ResponseEntity: {
+                                stopStreams();
                                 if (!types.classType) throw new Error('No classType returned by the rpc action');
                                 resolve(this.entityState.createEntitySubject(types.classType, types.resultSchema, reply));
                                 break;
@@ -134,6 +280,7 @@ export class RpcActionClient {
 
                             case RpcTypes.ResponseActionSimple: {
                                 subject.release();
+                                stopStreams();
                                 try {
                                     const result = reply.parseBody<WrappedV>(types.resultSchema);
                                     resolve(result.v);
@@ -151,6 +298,7 @@ export class RpcActionClient {
                                     if (!subscribers[body.id]) return; //we silently ignore this
                                     subscribers[body.id].error(error);
                                 } else if (observableSubject) {
+                                    stopResubscribe();
                                     observableSubject.error(error);
                                 }
                                 break;
@@ -163,6 +311,7 @@ export class RpcActionClient {
                                     if (!subscribers[body.id]) return; //we silently ignore this
                                     subscribers[body.id].complete();
                                 } else if (observableSubject) {
+                                    stopResubscribe();
                                     observableSubject.complete();
                                 }
                                 break;
@@ -196,8 +345,20 @@ export class RpcActionClient {
                             }
 
                             case RpcTypes.ResponseActionObservable: {
+                                if (resubscribe) {
+                                    //the action was invoked again after a reconnect, so active subscriptions are created again.
+                                    //values of subjects are forwarded to the existing subject automatically.
+                                    if (observable) {
+                                        for (const id of Object.keys(subscribers)) {
+                                            subject.send<rpcActionObservableSubscribeId>(RpcTypes.ActionObservableSubscribe, { id: Number(id) });
+                                        }
+                                    }
+                                    break;
+                                }
+
                                 if (observable) console.error('Already got ActionResponseObservable');
                                 const body = reply.parseBody<rpcResponseActionObservable>();
+                                registerResubscribe();
 
                                 //this observable can be subscribed multiple times now
                                 // each time we need to call the server again, since its not a Subject
@@ -215,6 +376,7 @@ export class RpcActionClient {
                                         };
                                     });
                                     (observable as any).disconnect = () => {
+                                        stopResubscribe();
                                         for (const sub of Object.values(subscribers)) {
                                             sub.complete();
                                         }
@@ -226,11 +388,13 @@ export class RpcActionClient {
                                     //we have to monkey patch unsubscribe, because they is no other way to hook into that
                                     // note: subject.subscribe().add(T), T is not called when subject.unsubscribe() is called.
                                     observableSubject.unsubscribe = () => {
+                                        stopResubscribe();
                                         Subject.prototype.unsubscribe.call(observableSubject);
                                         subject.send(RpcTypes.ActionObservableSubjectUnsubscribe);
                                     };
 
                                     observableSubject.complete = () => {
+                                        stopResubscribe();
                                         Subject.prototype.complete.call(observableSubject);
                                         subject.send(RpcTypes.ActionObservableSubjectUnsubscribe);
                                     };
@@ -247,11 +411,13 @@ export class RpcActionClient {
                                     //we have to monkey patch unsubscribe, because they is no other way to hook into that
                                     // note: subject.subscribe().add(T), T is not called when subject.unsubscribe() is called.
                                     observableSubject.unsubscribe = () => {
+                                        stopResubscribe();
                                         Subject.prototype.unsubscribe.call(observableSubject);
                                         subject.send(RpcTypes.ActionObservableSubjectUnsubscribe);
                                     };
 
                                     observableSubject.complete = () => {
+                                        stopResubscribe();
                                         Subject.prototype.complete.call(observableSubject);
                                         subject.send(RpcTypes.ActionObservableSubjectUnsubscribe);
                                     };
@@ -274,6 +440,14 @@ export class RpcActionClient {
                             case RpcTypes.ResponseActionCollection: {
                                 const bodies = reply.getBodies();
 
+                                if (resubscribe && collection && collectionEntityStore) {
+                                    //the action was invoked again after a reconnect. Items are diffed into the existing collection,
+                                    //and the model of the client is sent, since it might have been changed.
+                                    this.handleCollection(collectionEntityStore, types, collection, bodies.filter(v => v.type !== RpcTypes.ResponseActionCollectionModel));
+                                    subject.send(RpcTypes.ActionCollectionModel, collection.model, types.collectionQueryModel);
+                                    break;
+                                }
+
                                 if (!types.classType) throw new Error('No classType returned by the rpc action');
                                 if (!types.collectionQueryModel) throw new Error('No collectionQueryModel returned by the rpc action');
                                 collection = new Collection(types.classType);
@@ -284,10 +458,12 @@ export class RpcActionClient {
                                 });
 
                                 collection.addTeardown(() => {
+                                    stopResubscribe();
                                     subject.send(RpcTypes.ActionCollectionUnsubscribe);
                                 });
 
                                 this.handleCollection(collectionEntityStore, types, collection, bodies);
+                                registerResubscribe();
 
                                 resolve(collection);
                                 break;
@@ -295,8 +471,15 @@ export class RpcActionClient {
 
                             case RpcTypes.Error: {
                                 subject.release();
+                                stopStreams();
                                 const error = reply.getError();
                                 // console.debug('Client received error', error);
+                                if (resubscribe) {
+                                    //invoking the action again after a reconnect failed
+                                    stopResubscribe();
+                                    for (const sub of Object.values(subscribers)) sub.error(error);
+                                    if (observableSubject) observableSubject.error(error);
+                                }
                                 reject(error);
                                 break;
                             }
@@ -309,11 +492,26 @@ export class RpcActionClient {
                         console.warn('reply error', reply.id, RpcTypes[reply.type], error);
                         reject(`Reply failed for ${controller.controller}.${method}: ${error}`);
                     }
-                });
+                };
+
+                ClientProgress.nextProgress = progress;
+                let subject: RpcMessageSubject = actionSubject = send().onReply(onReply);
             } catch (error) {
                 reject(error);
             }
         });
+
+        return Object.assign(promise, {
+            cancel: () => cancel(new RpcActionCancelledError(`Action ${controller.controller}.${method} cancelled`)),
+        });
+    }
+
+    /**
+     * Invokes the actions of all active live results again, forwarding their new values to the existing
+     * Observable, Subject, and Collection instances. Called after a reconnect.
+     */
+    public resubscribe(): void {
+        for (const resubscribe of [...this.resubscriptions]) resubscribe();
     }
 
     protected handleCollection(entityStore: EntitySubjectStore<any>, types: ControllerStateActionTypes, collection: Collection<any>, messages: RpcMessage[]) {
@@ -384,6 +582,15 @@ export class RpcActionClient {
                     const items: IdInterface[] = [];
                     for (const item of incomingItems) {
                         if (!entityStore.isRegistered(item.id)) entityStore.register(item);
+
+                        const existing = collection.entitySubjects.get(item.id);
+                        if (existing) {
+                            //the collection is set again (e.g. after a reconnect), so the known item is updated
+                            entityStore.onSet(item.id, item);
+                            items.push(existing.value);
+                            continue;
+                        }
+
                         const fork = entityStore.createFork(item.id);
                         collection.entitySubjects.set(item.id, fork);
                         items.push(fork.value);
@@ -440,6 +647,26 @@ export class RpcActionClient {
                 const parameters: Type = deserializeType(parsed.parameters);
                 assertType(parameters, ReflectionKind.tuple);
 
+                //items of streamed parameters are sent separately, the call itself contains undefined for them
+                const streamParameters: { index: number, schema: TypeObjectLiteral }[] = [];
+                for (const index of parsed.streams || []) {
+                    const member = parameters.types[index];
+                    const itemType: Type = member.type.kind === ReflectionKind.class || member.type.kind === ReflectionKind.objectLiteral
+                        ? (member.type.typeArguments && member.type.typeArguments[0]) || { kind: ReflectionKind.any }
+                        : { kind: ReflectionKind.any };
+                    streamParameters.push({
+                        index,
+                        schema: {
+                            kind: ReflectionKind.objectLiteral,
+                            types: [
+                                { kind: ReflectionKind.propertySignature, name: 'index', type: { kind: ReflectionKind.number } },
+                                { kind: ReflectionKind.propertySignature, name: 'v', optional: true, type: itemType },
+                            ]
+                        } as TypeObjectLiteral
+                    });
+                    parameters.types[index] = { ...member, optional: true, type: { kind: ReflectionKind.undefined } };
+                }
+
                 if (parsed.mode === 'observable') {
                     observableNextSchema = {
                         kind: ReflectionKind.objectLiteral,
@@ -467,6 +694,7 @@ export class RpcActionClient {
                     classType,
                     collectionQueryModel,
                     collectionSchema,
+                    streamParameters,
                     callSchema: {
                         kind: ReflectionKind.objectLiteral,
                         types: [
@@ -0,0 +1,151 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { ClassType } from '@deepkit/core';
+import { ClientTransportAdapter, RpcClient, TransportConnectionHooks } from './client';
+
+/**
+ * A RpcClient that connects via HTTP long-polling, for networks where WebSockets are blocked.
+ * The server needs `rpcHttpPath` enabled in the FrameworkModule.
+ */
+export class RpcHttpClient extends RpcClient {
+    constructor(url: string) {
+        super(new RpcHttpClientAdapter(url));
+    }
+
+    static fromCurrentHost<T extends RpcClient>(this: ClassType<T>, path: string = '/rpc'): T {
+        if (path.length && path[0] !== '/') path = '/' + path;
+        return new this(`${location.protocol}//${location.host}${path}`);
+    }
+}
+
+export interface RpcHttpFetchResponse {
+    ok: boolean;
+    status: number;
+
+    json(): Promise<any>;
+
+    arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * The part of the Fetch API RpcHttpClientAdapter uses, so environments without `fetch` can pass their own implementation.
+ */
+export interface RpcHttpFetch {
+    (url: string, init?: { method?: string, body?: Uint8Array, headers?: { [name: string]: string }, signal?: AbortSignal }): Promise<RpcHttpFetchResponse>;
+}
+
+function concat(buffers: Uint8Array[]): Uint8Array {
+    if (buffers.length === 1) return buffers[0];
+    let size = 0;
+    for (const buffer of buffers) size += buffer.byteLength;
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (const buffer of buffers) {
+        result.set(buffer, offset);
+        offset += buffer.byteLength;
+    }
+    return result;
+}
+
+/**
+ * Opens a connection with `POST {url}`, which returns the connection id. Outgoing binary messages are sent
+ * in order with `POST {url}?id={id}`, incoming messages are received with long-polling `GET {url}?id={id}`,
+ * both using the same framing as the WebSocket transport. `DELETE {url}?id={id}` closes the connection.
+ */
+export class RpcHttpClientAdapter implements ClientTransportAdapter {
+    constructor(
+        public url: string,
+        protected fetch: RpcHttpFetch = globalThis.fetch,
+    ) {
+    }
+
+    protected connectionUrl(id: string): string {
+        return this.url + (this.url.includes('?') ? '&' : '?') + 'id=' + encodeURIComponent(id);
+    }
+
+    public async connect(connection: TransportConnectionHooks) {
+        let id: string;
+        try {
+            const response = await this.fetch(this.url, { method: 'POST' });
+            if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+            id = (await response.json()).id;
+        } catch (error) {
+            connection.onError(error);
+            return;
+        }
+
+        const url = this.connectionUrl(id);
+        const poller = new AbortController();
+        let closed = false;
+        let outgoing: Uint8Array[] = [];
+        let outgoingBytes = 0;
+        let sending = false;
+
+        const close = () => {
+            if (closed) return;
+            closed = true;
+            poller.abort();
+            connection.onClose();
+        };
+
+        //messages are sent one request after another, so the server receives them in order
+        const flush = async () => {
+            if (sending || closed || !outgoing.length) return;
+            sending = true;
+            const body = concat(outgoing);
+            outgoing = [];
+            outgoingBytes = 0;
+            try {
+                const response = await this.fetch(url, { method: 'POST', body, headers: { 'content-type': 'application/octet-stream' } });
+                if (!response.ok) return close();
+            } catch (error) {
+                return close();
+            } finally {
+                sending = false;
+            }
+            await flush();
+        };
+
+        const poll = async () => {
+            while (!closed) {
+                try {
+                    const response = await this.fetch(url, { signal: poller.signal });
+                    if (!response.ok) return close();
+                    const buffer = new Uint8Array(await response.arrayBuffer());
+                    if (buffer.byteLength && !closed) connection.onData(buffer);
+                } catch (error) {
+                    return close();
+                }
+            }
+        };
+
+        connection.onConnected({
+            clientAddress: () => {
+                return this.url;
+            },
+            bufferedAmount(): number {
+                return outgoingBytes;
+            },
+            close: () => {
+                if (closed) return;
+                close();
+                this.fetch(url, { method: 'DELETE' }).catch(() => undefined);
+            },
+            send(message) {
+                outgoing.push(message);
+                outgoingBytes += message.byteLength;
+                flush();
+            }
+        });
+
+        poll();
+    }
+}
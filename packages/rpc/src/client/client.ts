@@ -15,7 +15,7 @@ import { ControllerDefinition, rpcAuthenticate, rpcClientId, rpcPeerDeregister,
 import { createRpcMessage, createRpcMessagePeer, ErroredRpcMessage, RpcMessage, RpcMessageReader, RpcMessageRouteType } from '../protocol';
 import { RpcKernel, RpcKernelConnection } from '../server/kernel';
 import { ClientProgress, RpcMessageWriter, RpcMessageWriterOptions, SingleProgress } from '../writer';
-import { RpcActionClient, RpcControllerState } from './action';
+import { RpcActionClient, RpcActionPromise, RpcClientMiddlewareFn, RpcControllerState } from './action';
 import { RpcMessageSubject } from './message-subject';
 
 export class OfflineError extends Error {
@@ -24,7 +24,7 @@ export class OfflineError extends Error {
     }
 }
 
-type PromisifyFn<T extends ((...args: any[]) => any)> = (...args: Parameters<T>) => ReturnType<T> extends Promise<any> ? ReturnType<T> : Promise<ReturnType<T>>;
+type PromisifyFn<T extends ((...args: any[]) => any)> = (...args: Parameters<T>) => RpcActionPromise<ReturnType<T> extends Promise<infer R> ? R : ReturnType<T>>;
 export type RemoteController<T> = {
     [P in keyof T]: T[P] extends (...args: any[]) => any ? PromisifyFn<T[P]> : never
 };
@@ -94,6 +94,16 @@ export class RpcClientToken {
     }
 }
 
+/**
+ * Delays in seconds between reconnection attempts, see RpcClient.enableAutoReconnect().
+ * The n-th attempt waits `min(maxDelay, initialDelay * factor^n)`.
+ */
+export class RpcReconnectOptions {
+    initialDelay: number = 0.5;
+    maxDelay: number = 30;
+    factor: number = 2;
+}
+
 export class RpcClientTransporter {
     protected connectionTries: number = 0;
     public connectionId: number = 0;
@@ -106,6 +116,14 @@ export class RpcClientTransporter {
 
     public id?: Uint8Array;
 
+    /**
+     * When set, the transporter reconnects automatically after the connection was lost (not after disconnect()).
+     */
+    public reconnectOptions?: RpcReconnectOptions;
+    protected reconnectAttempts: number = 0;
+    protected reconnectTimer?: ReturnType<typeof setTimeout>;
+    protected disconnecting: boolean = false;
+
     /**
      * true when the connection fully established (after authentication)
      */
@@ -158,10 +176,28 @@ export class RpcClientTransporter {
             const id = this.connectionId;
             this.connectionId++;
             this.disconnected.next(id);
+            if (!this.disconnecting) this.scheduleReconnect();
         }
     }
 
+    protected scheduleReconnect() {
+        if (!this.reconnectOptions || this.reconnectTimer) return;
+        const options = this.reconnectOptions;
+        const delay = Math.min(options.maxDelay, options.initialDelay * Math.pow(options.factor, this.reconnectAttempts++));
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = undefined;
+            if (this.connected) return;
+            try {
+                await this.connect();
+            } catch {
+                this.scheduleReconnect();
+            }
+        }, delay * 1000);
+    }
+
     protected onConnect() {
+        this.reconnectAttempts = 0;
         this.connection.next(true);
         if (this.connectionId > 0) {
             this.reconnected.next(this.connectionId);
@@ -183,11 +219,22 @@ export class RpcClientTransporter {
     }
 
     public disconnect() {
-        if (this.transportConnection) {
-            this.transportConnection.close();
-            this.transportConnection = undefined;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        this.reconnectAttempts = 0;
+
+        this.disconnecting = true;
+        try {
+            if (this.transportConnection) {
+                this.transportConnection.close();
+                this.transportConnection = undefined;
+            }
+            this.onDisconnect();
+        } finally {
+            this.disconnecting = false;
         }
-        this.onDisconnect();
     }
 
     protected async doConnect(): Promise<void> {
@@ -353,6 +400,39 @@ export class RpcBaseClient implements WritableClient {
         return this;
     }
 
+    /**
+     * Adds a middleware wrapping all outgoing action calls, executed in the order they were added.
+     *
+     * ```typescript
+     * client.addMiddleware(async (call, next) => {
+     *     console.log('call', call.controller, call.action);
+     *     return await next();
+     * });
+     * ```
+     */
+    addMiddleware(middleware: RpcClientMiddlewareFn): this {
+        this.actionClient.middlewares.push(middleware);
+        return this;
+    }
+
+    /**
+     * Reconnects automatically with exponential backoff when the connection was lost, and replays all active
+     * subscriptions (Observable, Subject, BehaviorSubject, Collection) against the server by calling their
+     * actions again with the same arguments. Collections are diffed into the existing client collection.
+     *
+     * Only results of actions called after this method are replayed.
+     */
+    enableAutoReconnect(options: Partial<RpcReconnectOptions> = {}): this {
+        if (!this.transporter.reconnectOptions) {
+            this.transporter.reconnected.subscribe(() => {
+                if (this.actionClient.resubscribeOnReconnect) this.actionClient.resubscribe();
+            });
+        }
+        this.transporter.reconnectOptions = Object.assign(new RpcReconnectOptions, options);
+        this.actionClient.resubscribeOnReconnect = true;
+        return this;
+    }
+
     /**
      * The connection process is only finished when this method resolves and doesn't throw.
      * When an error is thrown, the authentication was unsuccessful.
@@ -0,0 +1,162 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { isObservable, Observable, Subscription } from 'rxjs';
+import { rpcActionStreamError, rpcActionStreamIndex, RpcTypes } from '../model';
+import { rpcEncodeError } from '../protocol';
+import { RpcMessageSubject } from './message-subject';
+import { TypeObjectLiteral } from '@deepkit/type';
+
+/**
+ * Sends the items of a streamed action argument (Observable, AsyncIterable, or Iterable) to the server.
+ *
+ * Items are only sent when the server acknowledged that it is ready for them (see RpcStreamReceiver), so
+ * AsyncIterables are pulled only as fast as the action consumes them. Observables are subscribed right away
+ * and their items buffered until they can be sent. Since an Observable can't be slowed down, the stream fails
+ * when more than `maxBuffer` items are waiting.
+ */
+export class RpcStreamSender {
+    protected credit: number = 0;
+    protected started: boolean = false;
+    protected stopped: boolean = false;
+    protected waiting?: () => void;
+
+    protected subscription?: Subscription;
+    protected buffer: any[] = [];
+    protected done: boolean = false;
+    protected error?: any;
+    protected iterator?: Iterator<any> | AsyncIterator<any>;
+
+    constructor(
+        protected index: number,
+        protected source: Observable<any> | AsyncIterable<any> | Iterable<any> | undefined,
+        protected schema: TypeObjectLiteral, //with index and v as property
+        protected subject: () => RpcMessageSubject,
+        protected maxBuffer: number = 1000,
+    ) {
+        if (isObservable(source)) {
+            this.subscription = source.subscribe({
+                next: (v) => {
+                    if (this.done) return;
+                    if (this.buffer.length >= this.maxBuffer) {
+                        this.done = true;
+                        this.error = new Error(`Streamed argument ${this.index} has more than ${this.maxBuffer} items the server did not acknowledge yet`);
+                        if (this.subscription) this.subscription.unsubscribe();
+                    } else {
+                        this.buffer.push(v);
+                    }
+                    this.flush();
+                },
+                error: (error) => {
+                    this.done = true;
+                    this.error = error;
+                    this.flush();
+                },
+                complete: () => {
+                    this.done = true;
+                    this.flush();
+                }
+            });
+            //a synchronous Observable exceeding maxBuffer emits before the subscription is assigned
+            if (this.done) this.subscription.unsubscribe();
+        }
+    }
+
+    /**
+     * Called when the server acknowledged `n` more items. The first call starts sending.
+     */
+    grant(n: number) {
+        this.credit += n;
+        if (!this.started) {
+            this.started = true;
+            this.start();
+        }
+        this.flush();
+        this.wake();
+    }
+
+    /**
+     * Stops sending, e.g. when the action finished.
+     */
+    stop() {
+        if (this.stopped) return;
+        this.stopped = true;
+        if (this.subscription) this.subscription.unsubscribe();
+        if (this.iterator && this.iterator.return) {
+            Promise.resolve(this.iterator.return()).catch(() => undefined);
+        }
+        this.wake();
+    }
+
+    protected wake() {
+        if (!this.waiting) return;
+        const waiting = this.waiting;
+        this.waiting = undefined;
+        waiting();
+    }
+
+    protected next(value: any) {
+        this.credit--;
+        this.subject().send(RpcTypes.ActionStreamNext, { index: this.index, v: value }, this.schema);
+    }
+
+    protected complete() {
+        this.stopped = true;
+        this.subject().send<rpcActionStreamIndex>(RpcTypes.ActionStreamComplete, { index: this.index });
+    }
+
+    protected fail(error: any) {
+        this.stopped = true;
+        this.subject().send<rpcActionStreamError>(RpcTypes.ActionStreamError, { ...rpcEncodeError(error), index: this.index });
+    }
+
+    protected start() {
+        const source = this.source;
+        if (!source) return this.complete();
+        if (isObservable(source)) return;
+
+        this.pull(source).catch(error => {
+            if (!this.stopped) this.fail(error);
+        });
+    }
+
+    /**
+     * Sends buffered Observable items.
+     */
+    protected flush() {
+        if (!this.started) return;
+        while (!this.stopped && this.credit > 0 && this.buffer.length) {
+            this.next(this.buffer.shift());
+        }
+        if (this.stopped || this.buffer.length || !this.done) return;
+        if (this.error) {
+            this.fail(this.error);
+        } else {
+            this.complete();
+        }
+    }
+
+    protected async pull(source: AsyncIterable<any> | Iterable<any>) {
+        const iterator = this.iterator = Symbol.asyncIterator in source
+            ? (source as AsyncIterable<any>)[Symbol.asyncIterator]()
+            : (source as Iterable<any>)[Symbol.iterator]();
+
+        while (!this.stopped) {
+            if (this.credit <= 0) {
+                await new Promise<void>(resolve => this.waiting = resolve);
+                continue;
+            }
+            const next = await iterator.next();
+            if (this.stopped) return;
+            if (next.done) return this.complete();
+            this.next(next.value);
+        }
+    }
+}
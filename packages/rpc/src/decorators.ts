@@ -9,8 +9,17 @@
  */
 
 import { ClassType } from '@deepkit/core';
+import { RateLimitOptions } from '@deepkit/rate-limit';
 import { ClassDecoratorResult, createClassDecoratorContext, createPropertyDecoratorContext, mergeDecorator, PropertyDecoratorResult } from '@deepkit/type';
 import { ControllerDefinition } from './model';
+import { RpcMiddleware, RpcMiddlewareConfig, RpcMiddlewareFn } from './server/middleware';
+import { Session } from './server/security';
+
+export type RpcActionMiddleware = RpcMiddlewareFn | ClassType<RpcMiddleware> | RpcMiddlewareConfig;
+
+function toMiddlewareConfig(middleware: RpcActionMiddleware): RpcMiddlewareConfig {
+    return middleware instanceof RpcMiddlewareConfig ? middleware : new RpcMiddlewareConfig(middleware);
+}
 
 class RpcController {
     name?: string;
@@ -19,11 +28,20 @@ class RpcController {
 
     actions = new Map<string, RpcAction>();
 
+    middlewares: RpcMiddlewareConfig[] = [];
+
     getPath(): string {
         return this.definition ? this.definition.path : this.name || '';
     }
 }
 
+export interface RpcRateLimitOptions extends RateLimitOptions {
+    /**
+     * Returns the key hits are counted for. Default is the username of authenticated sessions, otherwise the client address.
+     */
+    key?: (session: Session, clientAddress: string) => string;
+}
+
 export class RpcAction {
     name!: string;
     classType!: ClassType;
@@ -33,6 +51,10 @@ export class RpcAction {
 
     groups: string[] = [];
     data: { [name: string]: any } = {};
+
+    rateLimit?: RpcRateLimitOptions;
+
+    middlewares: RpcMiddlewareConfig[] = [];
 }
 
 class RpcClass {
@@ -49,6 +71,13 @@ class RpcClass {
     addAction(name: string, action: RpcAction) {
         this.t.actions.set(name, action);
     }
+
+    /**
+     * Wraps all actions of this controller. Use `new RpcMiddlewareConfig(middleware, order)` to change the order.
+     */
+    middleware(...middlewares: RpcActionMiddleware[]) {
+        this.t.middlewares.push(...middlewares.map(toMiddlewareConfig));
+    }
 }
 
 export const rpcClass: ClassDecoratorResult<typeof RpcClass> = createClassDecoratorContext(RpcClass);
@@ -81,6 +110,21 @@ class RpcProperty {
     data(name: string, value: any) {
         this.t.data[name] = value;
     }
+
+    /**
+     * Limits the calls of this action per client. Exceeding calls fail with RpcRateLimitError
+     * before the controller is called.
+     */
+    rateLimit(options: RpcRateLimitOptions) {
+        this.t.rateLimit = options;
+    }
+
+    /**
+     * Wraps this action, executed after the middlewares of the kernel and controller.
+     */
+    middleware(...middlewares: RpcActionMiddleware[]) {
+        this.t.middlewares.push(...middlewares.map(toMiddlewareConfig));
+    }
 }
 
 export const rpcProperty: PropertyDecoratorResult<typeof RpcProperty> = createPropertyDecoratorContext(RpcProperty);
@@ -99,6 +143,7 @@ export function getActions<T>(target: ClassType<T>): Map<string, RpcAction> {
         if (existing) {
             existing.groups.push(...action.groups);
             Object.assign(existing.data, action.data);
+            if (action.rateLimit) existing.rateLimit = action.rateLimit;
         } else {
             results.set(action.name, action);
         }
@@ -106,3 +151,21 @@ export function getActions<T>(target: ClassType<T>): Map<string, RpcAction> {
 
     return results;
 }
+
+/**
+ * Returns the middlewares of the controller and then of the action, each including parent classes first.
+ */
+export function getActionMiddlewares<T>(target: ClassType<T>, actionName: string): RpcMiddlewareConfig[] {
+    const controller: RpcMiddlewareConfig[] = [];
+    const action: RpcMiddlewareConfig[] = [];
+
+    for (let classType = target; classType; classType = Object.getPrototypeOf(classType)) {
+        const data = rpcClass._fetch(classType);
+        if (!data) continue;
+        controller.unshift(...data.middlewares);
+        const actionData = data.actions.get(actionName);
+        if (actionData) action.unshift(...actionData.middlewares);
+    }
+
+    return [...controller, ...action];
+}
@@ -8,7 +8,7 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-import { ClassType, isObject } from '@deepkit/core';
+import { ClassType, CustomError, isObject } from '@deepkit/core';
 import { tearDown } from '@deepkit/core-rxjs';
 import { arrayBufferTo, entity } from '@deepkit/type';
 import { BehaviorSubject, Observable, Subject, TeardownLogic } from 'rxjs';
@@ -288,6 +288,17 @@ export enum RpcTypes {
     Entity, //change feed as composite, containing all Entity*
     EntityPatch,
     EntityRemove,
+
+    //client -> server
+    ActionCancel, //aborts the RpcActionContext of a running action, answered with Ack
+
+    //client -> server, items of streamed arguments (Observable<T>, AsyncIterable<T>) of a running action
+    ActionStreamNext,
+    ActionStreamComplete,
+    ActionStreamError,
+
+    //server -> client
+    ResponseActionStreamAck, //the server is ready to receive n more items of a streamed argument
 }
 
 export interface rpcClientId {
@@ -320,6 +331,19 @@ export interface rpcResponseActionObservableSubscriptionError extends rpcError {
     id: number;
 }
 
+export interface rpcActionStreamIndex {
+    index: number; //index of the argument
+}
+
+export interface rpcActionStreamError extends rpcError {
+    index: number;
+}
+
+export interface rpcResponseActionStreamAck {
+    index: number;
+    n: number;
+}
+
 export enum ActionObservableTypes {
     observable,
     subject,
@@ -360,6 +384,7 @@ export interface rpcResponseActionType {
     mode: ActionMode;
     type: any; //Type as SerializedTypes
     parameters: any; //TypeTuple as SerializedTypes
+    streams?: number[]; //indices of streamed parameters
 }
 
 export interface rpcPeerRegister {
@@ -406,6 +431,69 @@ export class AuthenticationError extends Error {
     }
 }
 
+@entity.name('@error:rpc/rate-limit')
+export class RpcRateLimitError extends CustomError {
+    constructor(
+        /**
+         * Seconds until the next call is allowed.
+         */
+        public readonly retryAfter: number,
+    ) {
+        super(`Rate limit exceeded, retry after ${retryAfter} seconds`);
+    }
+}
+
+/**
+ * Thrown on the client when a pending action was cancelled via `cancel()` of the returned promise.
+ */
+export class RpcActionCancelledError extends CustomError {
+    constructor(message: string = 'Action cancelled') {
+        super(message);
+    }
+}
+
+/**
+ * Thrown on the client when an action did not respond within the configured `timeout`.
+ */
+export class RpcActionTimeoutError extends RpcActionCancelledError {
+}
+
+/**
+ * Per-call context of an RPC action on the server. Declare a parameter of this type in an action to receive it.
+ * It is not sent by the client, so put it last to keep the remaining parameters in order.
+ *
+ * ```typescript
+ * @rpc.action()
+ * async export(ids: number[], context?: RpcActionContext): Promise<number> {
+ *     let exported = 0;
+ *     for (const id of ids) {
+ *         if (context!.aborted) break;
+ *         await this.exporter.export(id);
+ *         exported++;
+ *     }
+ *     return exported;
+ * }
+ * ```
+ *
+ * The signal is aborted when the client cancels the call, times out, disconnects, or unsubscribes
+ * the returned Observable or Collection. The result of an aborted call is not sent to the client.
+ */
+export class RpcActionContext {
+    protected abortController = new AbortController();
+
+    get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    get aborted(): boolean {
+        return this.abortController.signal.aborted;
+    }
+
+    abort(): void {
+        this.abortController.abort();
+    }
+}
+
 export interface WrappedV {
     v: any;
 }
@@ -8,7 +8,8 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-import { ClassType, collectForMicrotask, getClassName, isPrototypeOfBase, toFastProperties } from '@deepkit/core';
+import { ClassType, collectForMicrotask, getClassName, isClass, isPrototypeOfBase, toFastProperties } from '@deepkit/core';
+import { RateLimiter } from '@deepkit/rate-limit';
 import { isBehaviorSubject, isSubject } from '@deepkit/core-rxjs';
 import {
     assertType,
@@ -28,24 +29,32 @@ import {
 } from '@deepkit/type';
 import { isObservable, Observable, Subject, Subscription } from 'rxjs';
 import { Collection, CollectionEvent, CollectionQueryModel, CollectionQueryModelInterface, CollectionState } from '../collection';
-import { getActions } from '../decorators';
+import { getActionMiddlewares, getActions, RpcRateLimitOptions } from '../decorators';
 import {
     ActionMode,
     ActionObservableTypes,
     EntitySubject,
     isEntitySubject,
+    RpcActionCancelledError,
+    RpcActionContext,
     rpcActionObservableSubscribeId,
+    rpcActionStreamError,
+    rpcActionStreamIndex,
     rpcActionType,
     rpcResponseActionCollectionRemove,
     rpcResponseActionCollectionSort,
     rpcResponseActionObservable,
     rpcResponseActionObservableSubscriptionError,
+    rpcResponseActionStreamAck,
     rpcResponseActionType,
+    RpcRateLimitError,
     RpcTypes,
 } from '../model';
-import { rpcEncodeError, RpcMessage } from '../protocol';
+import { rpcDecodeError, rpcEncodeError, RpcMessage } from '../protocol';
 import { RpcMessageBuilder } from './kernel';
+import { RpcActionCall, RpcMiddleware, RpcMiddlewareConfig, RpcMiddlewareFn } from './middleware';
 import { RpcControllerAccess, RpcKernelSecurity, SessionState } from './security';
+import { RpcStreamReceiver } from './stream';
 import { InjectorContext, InjectorModule } from '@deepkit/injector';
 
 export type ActionTypes = {
@@ -53,6 +62,8 @@ export type ActionTypes = {
     parametersValidate: Guard<any>,
 
     parameters: TypeTuple,
+    contextParameters: number[], //indices of RpcActionContext parameters, which are not part of `parameters`
+    streamParameters: { [index: number]: ActionStreamParameter }, //Observable<T> and AsyncIterable<T> parameters, by index of `parameters`
     mode: ActionMode;
     type: Type; //the type T of Collection<T>, EntitySubject<T>, Observable<T>, or return type of the function if mode=arbitrary
 
@@ -60,8 +71,56 @@ export type ActionTypes = {
     observableNextSchema?: TypeObjectLiteral, //with v as property
     collectionSchema?: Type, //with v as array property
     collectionQueryModel?: Type,
+    rateLimit?: RpcRateLimitOptions,
+    middlewares: RpcMiddlewareConfig[], //of controller and action
 };
 
+type ActionStreamParameter = {
+    observable: boolean,
+    schema: TypeObjectLiteral, //with index and v as property
+    validate: Guard<any>,
+};
+
+function isObservableType(type: Type): boolean {
+    return type.kind === ReflectionKind.class && isPrototypeOfBase(type.classType, Observable);
+}
+
+/**
+ * Computed member names like `[Symbol.asyncIterator]` of lib types are stored as function.
+ */
+function resolveMemberName(name: unknown): unknown {
+    return 'function' === typeof name ? name() : name;
+}
+
+/**
+ * Returns T of types with a `[Symbol.asyncIterator]()` method (AsyncIterable<T>, AsyncIterableIterator<T>), and of
+ * async iterators with a `next(): Promise<IteratorResult<T>>` method (AsyncGenerator<T>).
+ */
+function getAsyncIterableItemType(type: Type): Type | undefined {
+    if (type.kind !== ReflectionKind.objectLiteral) return;
+    for (const member of type.types) {
+        if (member.kind !== ReflectionKind.methodSignature) continue;
+        const name = resolveMemberName(member.name);
+        if (name === Symbol.asyncIterator) {
+            return member.return.typeArguments ? member.return.typeArguments[0] : { kind: ReflectionKind.any };
+        }
+        if (name === 'next' && member.return.kind === ReflectionKind.promise) {
+            return member.return.type.typeArguments ? member.return.type.typeArguments[0] : { kind: ReflectionKind.any };
+        }
+    }
+    return;
+}
+
+/**
+ * Returns T of Observable<T> and async iterable parameters, whose items are streamed by the client.
+ */
+function getStreamItemType(type: Type): Type | undefined {
+    if (isObservableType(type)) {
+        return type.typeArguments ? type.typeArguments[0] : { kind: ReflectionKind.any };
+    }
+    return getAsyncIterableItemType(type);
+}
+
 function getV(container: TypeObjectLiteral): Type {
     const found = findMember('v', container);
     if (!found) throw new Error('v not found');
@@ -86,6 +145,17 @@ export class RpcServerAction {
         }
     } = {};
 
+    /**
+     * Contexts of running actions, and of actions whose Observable or Collection is still subscribed.
+     */
+    protected actionContexts: { [id: number]: RpcActionContext } = {};
+    protected closed = false;
+
+    /**
+     * Receivers of streamed arguments of running actions.
+     */
+    protected streams: { [id: number]: { [index: number]: { receiver: RpcStreamReceiver<any>, parameter: ActionStreamParameter } } } = {};
+
     protected observables: {
         [id: number]: {
             observable: Observable<any>,
@@ -101,6 +171,9 @@ export class RpcServerAction {
         protected injector: InjectorContext,
         protected security: RpcKernelSecurity,
         protected sessionState: SessionState,
+        protected rateLimiter: RateLimiter = new RateLimiter,
+        protected clientAddress: () => string | undefined = () => undefined,
+        protected middlewares: RpcMiddlewareConfig[] = [],
     ) {
     }
 
@@ -112,10 +185,18 @@ export class RpcServerAction {
             mode: types.mode,
             type: serializeType(types.type),
             parameters: serializeType(types.parameters),
+            streams: Object.keys(types.streamParameters).map(Number),
         });
     }
 
     public async onClose() {
+        this.closed = true;
+        for (const context of Object.values(this.actionContexts)) {
+            context.abort();
+        }
+        this.actionContexts = {};
+        for (const id of Object.keys(this.streams)) this.closeStreams(Number(id), new RpcActionCancelledError('Connection closed'));
+
         for (const collection of Object.values(this.collections)) {
             if (!collection.collection.closed) {
                 collection.unsubscribe();
@@ -134,10 +215,39 @@ export class RpcServerAction {
         }
     }
 
+    protected abortAction(id: number) {
+        const context = this.actionContexts[id];
+        this.closeStreams(id, new RpcActionCancelledError);
+        if (!context) return;
+        context.abort();
+        delete this.actionContexts[id];
+    }
+
+    /**
+     * Stops receiving streamed arguments. Consumers still waiting for items receive the error.
+     */
+    protected closeStreams(id: number, error: any) {
+        const streams = this.streams[id];
+        if (!streams) return;
+        for (const stream of Object.values(streams)) stream.receiver.fail(error);
+        delete this.streams[id];
+    }
+
     protected async hasControllerAccess(controllerAccess: RpcControllerAccess): Promise<boolean> {
         return await this.security.hasControllerAccess(this.sessionState.getSession(), controllerAccess);
     }
 
+    /**
+     * Returns the seconds until the next call is allowed, or 0 if the call is within the rate limit of the action.
+     */
+    protected async hitRateLimit(controller: string, methodName: string, options: RpcRateLimitOptions): Promise<number> {
+        const session = this.sessionState.getSession();
+        const clientAddress = this.clientAddress() || '';
+        const client = options.key ? options.key(session, clientAddress) : session.isAnonymous() ? 'address:' + clientAddress : 'user:' + session.username;
+        const result = await this.rateLimiter.hit(`rpc:${controller}.${methodName}:${client}`, options);
+        return result.retryAfter;
+    }
+
     protected async loadTypes(controller: string, methodName: string): Promise<ActionTypes> {
         const cacheId = controller + '!' + methodName;
         let types = this.cachedActionsTypes[cacheId];
@@ -167,16 +277,38 @@ export class RpcServerAction {
         assertType(method, ReflectionKind.method);
 
         let mode: ActionMode = 'arbitrary';
-        const parameters: TypeTuple = parametersToTuple(methodReflection.getParameters().map(v => v.parameter));
-
-        const actionCallSchema: TypeObjectLiteral = {
-            kind: ReflectionKind.objectLiteral,
-            types: [
-                { kind: ReflectionKind.propertySignature, name: 'args', parent: Object as any, type: parameters, }
-            ]
-        };
-
-        let nextSchema: Type | undefined = undefined;
+        const contextParameters: number[] = [];
+        const callParameters = methodReflection.getParameters().filter((v, i) => {
+            if (v.type.kind === ReflectionKind.class && v.type.classType === RpcActionContext) {
+                contextParameters.push(i);
+                return false;
+            }
+            return true;
+        });
+        const parameters: TypeTuple = parametersToTuple(callParameters.map(v => v.parameter));
+
+        //items of streamed parameters are sent separately, the call itself contains undefined for them
+        const streamParameters: { [index: number]: ActionStreamParameter } = {};
+        const callTuple: TypeTuple = parametersToTuple(callParameters.map((v, index) => {
+            const itemType = getStreamItemType(v.type);
+            if (!itemType) return v.parameter;
+            const schema: TypeObjectLiteral = { kind: ReflectionKind.objectLiteral, types: [] };
+            schema.types.push(
+                { kind: ReflectionKind.propertySignature, name: 'index', parent: schema, type: { kind: ReflectionKind.number } },
+                { kind: ReflectionKind.propertySignature, name: 'v', parent: schema, optional: true, type: itemType },
+            );
+            streamParameters[index] = {
+                observable: isObservableType(v.type),
+                validate: getValidatorFunction(undefined, itemType),
+                schema,
+            };
+            return { ...v.parameter, optional: true, type: { kind: ReflectionKind.undefined } };
+        }));
+
+        const actionCallSchema: TypeObjectLiteral = { kind: ReflectionKind.objectLiteral, types: [] };
+        actionCallSchema.types.push({ kind: ReflectionKind.propertySignature, name: 'args', parent: actionCallSchema, type: callTuple });
+
+        let nextSchema: TypeObjectLiteral | undefined = undefined;
         let unwrappedReturnType = methodReflection.getReturnType();
         if (unwrappedReturnType.kind === ReflectionKind.promise) {
             unwrappedReturnType = unwrappedReturnType.type;
@@ -190,16 +322,15 @@ export class RpcServerAction {
             if (isPrototypeOfBase(unwrappedReturnType.classType, Collection)) {
                 mode = 'collection';
                 type = unwrappedReturnType.typeArguments ? unwrappedReturnType.typeArguments[0] : { kind: ReflectionKind.any };
-                collectionSchema = {
-                    kind: ReflectionKind.objectLiteral,
-                    types: [{
-                        kind: ReflectionKind.propertySignature,
-                        name: 'v',
-                        parent: Object as any,
-                        optional: true,
-                        type: { kind: ReflectionKind.array, type: type }
-                    }]
-                };
+                const schema: TypeObjectLiteral = { kind: ReflectionKind.objectLiteral, types: [] };
+                schema.types.push({
+                    kind: ReflectionKind.propertySignature,
+                    name: 'v',
+                    parent: schema,
+                    optional: true,
+                    type: { kind: ReflectionKind.array, type: type }
+                });
+                collectionSchema = schema;
 
                 collectionQueryModel = typeOf<CollectionQueryModelInterface<unknown>>([type]) as TypeObjectLiteral;
             } else if (isPrototypeOfBase(unwrappedReturnType.classType, EntitySubject)) {
@@ -208,51 +339,75 @@ export class RpcServerAction {
             } else if (isPrototypeOfBase(unwrappedReturnType.classType, Observable)) {
                 mode = 'observable';
                 type = unwrappedReturnType.typeArguments ? unwrappedReturnType.typeArguments[0] : { kind: ReflectionKind.any };
-                nextSchema = {
-                    kind: ReflectionKind.objectLiteral,
-                    types: [{
-                        kind: ReflectionKind.propertySignature,
-                        name: 'id',
-                        parent: Object as any,
-                        type: { kind: ReflectionKind.number },
-                    }, {
-                        kind: ReflectionKind.propertySignature,
-                        name: 'v',
-                        parent: Object as any,
-                        optional: true,
-                        type: type,
-                    }]
-                };
+                nextSchema = { kind: ReflectionKind.objectLiteral, types: [] };
+                nextSchema.types.push({
+                    kind: ReflectionKind.propertySignature,
+                    name: 'id',
+                    parent: nextSchema,
+                    type: { kind: ReflectionKind.number },
+                }, {
+                    kind: ReflectionKind.propertySignature,
+                    name: 'v',
+                    parent: nextSchema,
+                    optional: true,
+                    type: type,
+                });
             }
         }
 
-        const resultSchema: TypeObjectLiteral = {
-            kind: ReflectionKind.objectLiteral,
-            types: [{
-                kind: ReflectionKind.propertySignature,
-                name: 'v',
-                parent: Object as any,
-                optional: true,
-                type: type,
-            }]
-        };
+        const resultSchema: TypeObjectLiteral = { kind: ReflectionKind.objectLiteral, types: [] };
+        resultSchema.types.push({
+            kind: ReflectionKind.propertySignature,
+            name: 'v',
+            parent: resultSchema,
+            optional: true,
+            type: type,
+        });
 
         types = this.cachedActionsTypes[cacheId] = {
             parameters,
+            contextParameters,
+            streamParameters,
             actionCallSchema,
             resultSchema,
             mode,
             type,
-            parametersValidate: getValidatorFunction(undefined, parameters),
+            parametersValidate: getValidatorFunction(undefined, callTuple),
             observableNextSchema: nextSchema,
             collectionSchema,
             collectionQueryModel,
+            rateLimit: action.rateLimit,
+            middlewares: getActionMiddlewares(classType.controller, methodName).map(v => v.module ? v : new RpcMiddlewareConfig(v.middleware, v.order, classType.module)),
         };
         toFastProperties(this.cachedActionsTypes);
 
         return types;
     }
 
+    /**
+     * Executes the middlewares of the kernel, controller, and action, sorted by their order, and then the action.
+     */
+    protected async executeMiddlewares(middlewares: RpcMiddlewareConfig[], call: RpcActionCall, action: () => any): Promise<any> {
+        if (this.middlewares.length) {
+            middlewares = [...this.middlewares, ...middlewares].sort((a, b) => a.order - b.order);
+        } else if (middlewares.some(v => v.order !== 0)) {
+            middlewares = middlewares.slice().sort((a, b) => a.order - b.order);
+        }
+
+        const dispatch = (index: number): (() => Promise<any>) => async () => {
+            const config = middlewares[index];
+            if (!config) return await action();
+            const next = dispatch(index + 1);
+            if (isClass(config.middleware)) {
+                const middleware: RpcMiddleware = this.injector.get(config.middleware, config.module);
+                return await middleware.execute(call, next);
+            }
+            return await (config.middleware as RpcMiddlewareFn)(call, next);
+        };
+
+        return await dispatch(0)();
+    }
+
     public async handle(message: RpcMessage, response: RpcMessageBuilder) {
         switch (message.type) {
 
@@ -294,11 +449,46 @@ export class RpcServerAction {
                 break;
             }
 
+            case RpcTypes.ActionStreamNext: {
+                const stream = this.getStream(message);
+                if (!stream) return; //the action finished already, remaining items are ignored
+                try {
+                    const body = message.parseBody<{ v: any }>(stream.parameter.schema);
+                    const errors: ValidationErrorItem[] = [];
+                    stream.parameter.validate(body.v, { errors });
+                    if (errors.length) throw new ValidationError(errors);
+                    stream.receiver.push(body.v);
+                } catch (error) {
+                    stream.receiver.fail(error);
+                }
+                break;
+            }
+
+            case RpcTypes.ActionStreamComplete: {
+                const stream = this.getStream(message);
+                if (stream) stream.receiver.complete();
+                break;
+            }
+
+            case RpcTypes.ActionStreamError: {
+                const stream = this.getStream(message);
+                if (stream) stream.receiver.fail(rpcDecodeError(message.parseBody<rpcActionStreamError>()));
+                break;
+            }
+
+            case RpcTypes.ActionCancel: {
+                this.abortAction(message.id);
+                //the client waits for this to release the message id, even if the action already finished
+                response.ack();
+                break;
+            }
+
             case RpcTypes.ActionCollectionUnsubscribe: {
                 const collection = this.collections[message.id];
                 if (!collection) return response.error(new Error('No collection found'));
                 collection.unsubscribe();
                 delete this.collections[message.id];
+                this.abortAction(message.id);
                 break;
             }
 
@@ -332,6 +522,7 @@ export class RpcServerAction {
                     sub.complete(); //we send all active subscriptions it was completed
                 }
                 delete this.observables[message.id];
+                this.abortAction(message.id);
                 break;
             }
 
@@ -341,11 +532,18 @@ export class RpcServerAction {
                 subject.completedByClient = true;
                 subject.subject.complete();
                 delete this.observableSubjects[message.id];
+                this.abortAction(message.id);
                 break;
             }
         }
     }
 
+    protected getStream(message: RpcMessage): { receiver: RpcStreamReceiver<any>, parameter: ActionStreamParameter } | undefined {
+        const streams = this.streams[message.id];
+        if (!streams) return;
+        return streams[message.parseBody<rpcActionStreamIndex>().index];
+    }
+
     public async handleAction(message: RpcMessage, response: RpcMessageBuilder) {
         const body = message.parseBody<rpcActionType>();
 
@@ -355,6 +553,11 @@ export class RpcServerAction {
         const types = await this.loadTypes(body.controller, body.method);
         let value: { args: any[] } = { args: [] };
 
+        if (types.rateLimit) {
+            const retryAfter = await this.hitRateLimit(body.controller, body.method, types.rateLimit);
+            if (retryAfter) return response.error(new RpcRateLimitError(retryAfter));
+        }
+
         try {
             value = message.parseBody(types.actionCallSchema);
         } catch (error: any) {
@@ -377,10 +580,43 @@ export class RpcServerAction {
             return response.error(new ValidationError(errors));
         }
 
+        const context = new RpcActionContext();
+        this.actionContexts[message.id] = context;
+
+        for (const [key, parameter] of Object.entries(types.streamParameters)) {
+            const index = Number(key);
+            const streams = this.streams[message.id] || (this.streams[message.id] = {});
+            const receiver = new RpcStreamReceiver<any>((n) => {
+                //acknowledgements after the action finished are not needed anymore
+                if (this.streams[message.id] !== streams) return;
+                response.reply<rpcResponseActionStreamAck>(RpcTypes.ResponseActionStreamAck, { index, n });
+            });
+            streams[index] = { receiver, parameter };
+            value.args[index] = parameter.observable ? receiver.observable() : receiver.iterate();
+        }
+        //the client might answer synchronously, so all receivers need to be registered first
+        for (const stream of Object.values(this.streams[message.id] || {})) stream.receiver.open();
+        const call: RpcActionCall = {
+            controller: body.controller, controllerClassType: controller.controller, action: body.method,
+            args: value.args, session: this.sessionState.getSession(), context,
+        };
+
         try {
-            const result = await controllerClassType[body.method](...value.args);
+            const result = await this.executeMiddlewares(types.middlewares, call, () => {
+                const args = call.args.slice();
+                for (const index of types.contextParameters) {
+                    if (args.length < index) args.length = index;
+                    args.splice(index, 0, context);
+                }
+                return controllerClassType[body.method](...args);
+            });
+            //the client cancelled the call and does not wait for a response anymore. Aborted by a closed connection
+            //the response is still written, as the action could have closed it itself.
+            if (context.aborted && !this.closed) return;
 
             if (isEntitySubject(result)) {
+                delete this.actionContexts[message.id];
+                this.closeStreams(message.id, new RpcActionCancelledError('Action finished'));
                 response.reply(RpcTypes.ResponseEntity, { v: result.value }, types.resultSchema);
             } else if (result instanceof Collection) {
                 const collection = result;
@@ -457,6 +693,7 @@ export class RpcServerAction {
                         }, () => {
                             const v = this.observableSubjects[message.id];
                             if (v && v.completedByClient) return; //we don't send ResponseActionObservableComplete when the client issued unsubscribe
+                            if (this.closed) return; //completed by onClose, the client might resubscribe after reconnecting
                             response.reply<rpcActionObservableSubscribeId>(RpcTypes.ResponseActionObservableComplete, {
                                 id: message.id
                             });
@@ -470,9 +707,14 @@ export class RpcServerAction {
 
                 response.reply<rpcResponseActionObservable>(RpcTypes.ResponseActionObservable, { type });
             } else {
+                delete this.actionContexts[message.id];
+                this.closeStreams(message.id, new RpcActionCancelledError('Action finished'));
                 response.reply(RpcTypes.ResponseActionSimple, { v: result }, types.resultSchema);
             }
         } catch (error: any) {
+            if (context.aborted && !this.closed) return;
+            delete this.actionContexts[message.id];
+            this.closeStreams(message.id, new RpcActionCancelledError('Action failed'));
             response.error(this.security.transformError(error));
         }
     }
@@ -8,7 +8,8 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-import { arrayRemoveItem, ClassType } from '@deepkit/core';
+import { arrayRemoveItem, ClassType, isClass } from '@deepkit/core';
+import { RateLimiter } from '@deepkit/rate-limit';
 import { ReceiveType, resolveReceiveType, stringifyUuid, typeOf, writeUuid } from '@deepkit/type';
 import { RpcMessageSubject } from '../client/message-subject';
 import { AuthenticationError, ControllerDefinition, rpcAuthenticate, rpcClientId, rpcError, rpcPeerRegister, rpcResponseAuthenticate, RpcTypes } from '../model';
@@ -29,6 +30,8 @@ import {
 import { RpcMessageWriter, RpcMessageWriterOptions } from '../writer';
 import { RpcServerAction } from './action';
 import { RpcKernelSecurity, SessionState } from './security';
+import { RpcMiddleware, RpcMiddlewareConfig, RpcMiddlewareFn } from './middleware';
+import { getActionMiddlewares, getActions } from '../decorators';
 import { RpcActionClient, RpcControllerState } from '../client/action';
 import { RemoteController } from '../client/client';
 import { InjectorContext, InjectorModule } from '@deepkit/injector';
@@ -302,7 +305,7 @@ export class RpcKernelConnections {
 
 export class RpcKernelConnection extends RpcKernelBaseConnection {
     public myPeerId?: string;
-    protected actionHandler = new RpcServerAction(this.controllers, this.injector, this.security, this.sessionState);
+    protected actionHandler = new RpcServerAction(this.controllers, this.injector, this.security, this.sessionState, this.rateLimiter, () => this.clientAddress(), this.middlewares);
 
     public routeType: RpcMessageRouteType.client | RpcMessageRouteType.server = RpcMessageRouteType.client;
 
@@ -314,6 +317,8 @@ export class RpcKernelConnection extends RpcKernelBaseConnection {
         protected injector: InjectorContext,
         protected peerExchange: RpcPeerExchange,
         protected logger: LoggerInterface = new Logger(),
+        protected rateLimiter: RateLimiter = new RateLimiter,
+        protected middlewares: RpcMiddlewareConfig[] = [],
     ) {
         super(writer, connections);
         this.onClose.then(() => this.actionHandler.onClose());
@@ -444,6 +449,16 @@ export class RpcKernel {
 
     public injector: InjectorContext;
 
+    /**
+     * Counts the calls of actions with rate limit. Use `rateLimiter.useStore()` to share the counters across processes.
+     */
+    public rateLimiter = new RateLimiter;
+
+    /**
+     * Middlewares wrapping all actions, see addMiddleware().
+     */
+    public readonly middlewares: RpcMiddlewareConfig[] = [];
+
     constructor(
         injector?: InjectorContext,
         protected security = new RpcKernelSecurity(),
@@ -480,14 +495,45 @@ export class RpcKernel {
             if (!this.injector.rootModule.isProvided(controller)) {
                 this.injector.rootModule.addProvider({ provide: controller, scope: 'rpc' });
             }
+            for (const action of getActions(controller).keys()) {
+                for (const config of getActionMiddlewares(controller, action)) this.provideMiddleware(config.middleware);
+            }
         }
         this.controllers.set('string' === typeof id ? id : id.path, { controller, module: module || this.injector.rootModule });
     }
 
+    protected provideMiddleware(middleware: RpcMiddlewareFn | ClassType<RpcMiddleware>) {
+        if (isClass(middleware) && !this.injector.rootModule.isProvided(middleware)) {
+            this.injector.rootModule.addProvider({ provide: middleware, scope: 'rpc' });
+        }
+    }
+
+    /**
+     * Adds a middleware that wraps all actions. Class middlewares are instantiated by the injector of the connection,
+     * so with a custom injector they need to be provided (scope `rpc`) in the given module.
+     * A lower order means the middleware is executed earlier.
+     *
+     * ```typescript
+     * kernel.addMiddleware(async (call, next) => {
+     *     const start = Date.now();
+     *     try {
+     *         return await next();
+     *     } finally {
+     *         console.log(`${call.controller}.${call.action} took ${Date.now() - start}ms`);
+     *     }
+     * });
+     * ```
+     */
+    public addMiddleware(middleware: RpcMiddlewareFn | ClassType<RpcMiddleware>, options: { order?: number, module?: InjectorModule } = {}): this {
+        if (this.autoInjector) this.provideMiddleware(middleware);
+        this.middlewares.push(new RpcMiddlewareConfig(middleware, options.order, options.module));
+        return this;
+    }
+
     createConnection(writer: RpcConnectionWriter, injector?: InjectorContext): RpcKernelBaseConnection {
         if (!injector) injector = this.injector.createChildScope('rpc');
 
-        const connection = new this.RpcKernelConnection(writer, this.connections, this.controllers, this.security, injector, this.peerExchange, this.logger);
+        const connection = new this.RpcKernelConnection(writer, this.connections, this.controllers, this.security, injector, this.peerExchange, this.logger, this.rateLimiter, this.middlewares);
         injector.set(RpcKernelConnection, connection);
         for (const on of this.onConnectionListeners) on(connection, injector, this.logger);
         return connection;
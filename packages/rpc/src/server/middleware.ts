@@ -0,0 +1,62 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { ClassType } from '@deepkit/core';
+import { InjectorModule } from '@deepkit/injector';
+import { RpcActionContext } from '../model';
+import { Session } from './security';
+
+/**
+ * An action call as seen by middlewares. Changes to `args` are passed to the action.
+ */
+export interface RpcActionCall {
+    controller: string;
+    controllerClassType: ClassType;
+    action: string;
+
+    /**
+     * The deserialized and validated arguments sent by the client, without RpcActionContext parameters.
+     */
+    args: any[];
+
+    session: Session;
+    context: RpcActionContext;
+}
+
+/**
+ * Calls the next middleware, or the action itself, and returns its result.
+ */
+export type RpcMiddlewareNext = () => Promise<any>;
+
+/**
+ * Wraps the execution of an action. Returns the result (usually the one of `next()`) or throws an error,
+ * which is sent to the client.
+ */
+export type RpcMiddlewareFn = (call: RpcActionCall, next: RpcMiddlewareNext) => any;
+
+/**
+ * Class middlewares are instantiated by the dependency injection container of the connection (scope `rpc`).
+ */
+export interface RpcMiddleware {
+    execute(call: RpcActionCall, next: RpcMiddlewareNext): any;
+}
+
+export class RpcMiddlewareConfig {
+    constructor(
+        public middleware: RpcMiddlewareFn | ClassType<RpcMiddleware>,
+        /**
+         * A lower order means the middleware is executed earlier. Middlewares with the same order are executed
+         * in the order kernel, controller, and action, each in the order they were registered.
+         */
+        public order: number = 0,
+        public module?: InjectorModule,
+    ) {
+    }
+}
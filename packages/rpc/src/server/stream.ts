@@ -0,0 +1,130 @@
+/*
+ * Deepkit Framework
+ * Copyright (C) 2021 Deepkit UG, Marc J. Schmidt
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the MIT License.
+ *
+ * You should have received a copy of the MIT License along with this program.
+ */
+
+import { Observable } from 'rxjs';
+
+/**
+ * Receives the items of a streamed action argument (Observable<T> or AsyncIterable<T>) sent by the client.
+ *
+ * The client sends at most `window` items that were not consumed yet. Consumed items are acknowledged,
+ * so a slow action slows down the client.
+ */
+export class RpcStreamReceiver<T> {
+    protected queue: T[] = [];
+    protected done: boolean = false;
+    protected error?: any;
+    protected waiting?: () => void;
+    protected consumed: boolean = false;
+    protected unacknowledged: number = 0;
+
+    constructor(
+        protected ack: (n: number) => void,
+        protected window: number = 16,
+    ) {
+    }
+
+    /**
+     * Allows the client to send the first items.
+     */
+    open() {
+        this.ack(this.window);
+    }
+
+    push(item: T) {
+        if (this.done) return;
+        this.queue.push(item);
+        this.wake();
+    }
+
+    complete() {
+        this.done = true;
+        this.wake();
+    }
+
+    /**
+     * Items received before are still consumed, afterwards the consumer receives the error.
+     */
+    fail(error: any) {
+        if (this.done) return;
+        this.error = error;
+        this.done = true;
+        this.wake();
+    }
+
+    /**
+     * Ends the iteration of the consumer without error, e.g. when the Observable's subscriber unsubscribed.
+     * Remaining and further items are dropped and not acknowledged anymore, so the client stops sending.
+     */
+    cancel() {
+        this.queue.length = 0;
+        this.error = undefined;
+        this.done = true;
+        this.wake();
+    }
+
+    protected wake() {
+        if (!this.waiting) return;
+        const waiting = this.waiting;
+        this.waiting = undefined;
+        waiting();
+    }
+
+    protected consume(): T {
+        const item = this.queue.shift()!;
+        this.unacknowledged++;
+        if (this.unacknowledged >= this.window / 2) {
+            this.ack(this.unacknowledged);
+            this.unacknowledged = 0;
+        }
+        return item;
+    }
+
+    async* iterate(): AsyncGenerator<T> {
+        if (this.consumed) throw new Error('A streamed argument can only be consumed once');
+        this.consumed = true;
+
+        while (true) {
+            if (this.queue.length) {
+                yield this.consume();
+                continue;
+            }
+            if (this.error) throw this.error;
+            if (this.done) return;
+            await new Promise<void>(resolve => this.waiting = resolve);
+        }
+    }
+
+    asyncIterable(): AsyncIterable<T> {
+        return { [Symbol.asyncIterator]: () => this.iterate() };
+    }
+
+    observable(): Observable<T> {
+        return new Observable<T>((subscriber) => {
+            let active = true;
+            (async () => {
+                try {
+                    for await (const item of this.iterate()) {
+                        if (!active) return;
+                        subscriber.next(item);
+                    }
+                    subscriber.complete();
+                } catch (error) {
+                    subscriber.error(error);
+                }
+            })();
+
+            return () => {
+                active = false;
+                //wakes the waiting iteration, which then ends
+                this.cancel();
+            };
+        });
+    }
+}
@@ -3,9 +3,10 @@ import { expect, test } from '@jest/globals';
 import { DirectClient } from '../src/client/client-direct';
 import { getActions, rpc } from '../src/decorators';
 import { RpcKernel, RpcKernelConnection } from '../src/server/kernel';
-import { Session, SessionState } from '../src/server/security';
+import { RpcKernelSecurity, Session, SessionState } from '../src/server/security';
+import { RpcActionCancelledError, RpcActionContext, RpcActionTimeoutError, RpcRateLimitError } from '../src/model';
 import { BehaviorSubject } from 'rxjs';
-import { getClassName } from '@deepkit/core';
+import { getClassName, sleep } from '@deepkit/core';
 
 test('decorator', async () => {
     @rpc.controller('name')
@@ -454,3 +455,101 @@ test('disable type reuse', async () => {
         expect(res.items[0]).toEqual({title: '123'});
     }
 });
+
+test('rate limit', async () => {
+    let called = 0;
+
+    class Controller {
+        @rpc.action().rateLimit({ window: 60, max: 2 })
+        search(term: string): string {
+            called++;
+            return term;
+        }
+
+        @rpc.action()
+        free(): boolean {
+            return true;
+        }
+    }
+
+    class MySecurity extends RpcKernelSecurity {
+        async authenticate(token: any): Promise<Session> {
+            return new Session(token, token);
+        }
+    }
+
+    const kernel = new RpcKernel(undefined, new MySecurity);
+    kernel.registerController('myController', Controller);
+
+    const client = new DirectClient(kernel);
+    const controller = client.controller<Controller>('myController');
+
+    expect(await controller.search('a')).toBe('a');
+    expect(await controller.search('b')).toBe('b');
+    const error = await controller.search('c').catch(e => e);
+    expect(error).toBeInstanceOf(RpcRateLimitError);
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(called).toBe(2);
+    expect(await controller.free()).toBe(true);
+
+    //authenticated users have their own limit
+    const client2 = new DirectClient(kernel);
+    client2.token.set('user2');
+    expect(await client2.controller<Controller>('myController').search('d')).toBe('d');
+});
+
+test('action cancellation', async () => {
+    const aborted: string[] = [];
+
+    class Controller {
+        @rpc.action()
+        async wait(name: string, context?: RpcActionContext): Promise<string> {
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, 5000);
+                context!.signal.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    aborted.push(name);
+                    resolve();
+                });
+            });
+            return name;
+        }
+
+        @rpc.action()
+        echo(context: RpcActionContext, name: string): string {
+            expect(context).toBeInstanceOf(RpcActionContext);
+            return name;
+        }
+    }
+
+    const kernel = new RpcKernel();
+    kernel.registerController('myController', Controller);
+
+    const client = new DirectClient(kernel);
+    const controller = client.controller<Controller>('myController');
+
+    const promise = controller.wait('a');
+    await sleep(0.05);
+    promise.cancel();
+    await expect(promise).rejects.toBeInstanceOf(RpcActionCancelledError);
+    await sleep(0.05);
+    expect(aborted).toEqual(['a']);
+    //the cancelled message id is released
+    expect((client as any).replies.size).toBe(0);
+
+    //the context is not sent by the client
+    expect(await (controller as any).echo('b')).toBe('b');
+
+    const timeoutController = client.controller<Controller>('myController', { timeout: 0.1 });
+    const error = await timeoutController.wait('c').catch(e => e);
+    expect(error).toBeInstanceOf(RpcActionTimeoutError);
+    expect(error.message).toBe('Action myController.wait timed out after 0.1 seconds');
+    await sleep(0.05);
+    expect(aborted).toEqual(['a', 'c']);
+
+    controller.wait('d').catch(() => undefined);
+    await sleep(0.05);
+    client.disconnect();
+    await sleep(0.05);
+    expect(aborted).toEqual(['a', 'c', 'd']);
+});
@@ -0,0 +1,85 @@
+import { expect, test } from '@jest/globals';
+import { DirectClient } from '../src/client/client-direct';
+import { rpc } from '../src/decorators';
+import { RpcKernel } from '../src/server/kernel';
+import { RpcActionCall, RpcMiddleware, RpcMiddlewareConfig, RpcMiddlewareNext } from '../src/server/middleware';
+import { RpcKernelSecurity, Session } from '../src/server/security';
+
+test('middleware', async () => {
+    const log: string[] = [];
+
+    class Logger {
+        messages: string[] = log;
+    }
+
+    class AuditMiddleware implements RpcMiddleware {
+        constructor(protected logger: Logger) {
+        }
+
+        async execute(call: RpcActionCall, next: RpcMiddlewareNext) {
+            this.logger.messages.push(`audit ${call.controller}.${call.action}(${call.args.join(', ')}) by ${call.session.username}`);
+            return await next();
+        }
+    }
+
+    @rpc.controller('test').middleware(AuditMiddleware)
+    class Controller {
+        @rpc.action().middleware(async (call, next) => {
+            log.push('action');
+            call.args[0] = call.args[0].toUpperCase();
+            return (await next()) + '!';
+        })
+        hello(name: string): string {
+            log.push('hello ' + name);
+            return 'hello ' + name;
+        }
+
+        @rpc.action().middleware(new RpcMiddlewareConfig(() => {
+            log.push('first');
+            throw new Error('Not allowed');
+        }, -100))
+        denied(): boolean {
+            return true;
+        }
+    }
+
+    class MySecurity extends RpcKernelSecurity {
+        async authenticate(token: any): Promise<Session> {
+            return new Session(token, token);
+        }
+    }
+
+    const kernel = new RpcKernel(undefined, new MySecurity);
+    kernel.injector.rootModule.addProvider(Logger);
+    kernel.registerController('test', Controller);
+    kernel.addMiddleware(async (call, next) => {
+        log.push('kernel');
+        try {
+            return await next();
+        } catch (error: any) {
+            log.push('error ' + error.message);
+            throw error;
+        }
+    });
+
+    const client = new DirectClient(kernel);
+    client.token.set('peter');
+    const clientLog: string[] = [];
+    client.addMiddleware(async (call, next) => {
+        clientLog.push(`${call.controller}.${call.action}`);
+        call.args = call.args.map(v => 'string' === typeof v ? v.trim() : v);
+        return await next();
+    });
+    const controller = client.controller<Controller>('test');
+
+    expect(await controller.hello(' marie ')).toBe('hello MARIE!');
+    expect(log).toEqual(['kernel', 'audit test.hello(marie) by peter', 'action', 'hello MARIE']);
+    expect(clientLog).toEqual(['test.hello']);
+
+    log.length = 0;
+    await expect(controller.denied()).rejects.toThrow('Not allowed');
+    expect(log).toEqual(['first']);
+
+    kernel.addMiddleware(async () => 'intercepted', { order: -200 });
+    expect(await controller.hello('marie')).toBe('intercepted');
+});
@@ -0,0 +1,148 @@
+import { expect, test } from '@jest/globals';
+import { sleep } from '@deepkit/core';
+import { entity } from '@deepkit/type';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { DirectClient } from '../src/client/client-direct';
+import { Collection } from '../src/collection';
+import { rpc } from '../src/decorators';
+import { RpcKernel, RpcKernelConnection } from '../src/server/kernel';
+
+test('reconnect backoff', async () => {
+    const connections: RpcKernelConnection[] = [];
+
+    class Controller {
+        constructor(protected connection: RpcKernelConnection) {
+        }
+
+        @rpc.action()
+        hi(): string {
+            connections.push(this.connection);
+            return 'hi';
+        }
+    }
+
+    const kernel = new RpcKernel();
+    kernel.registerController('test', Controller);
+
+    const client = new DirectClient(kernel);
+    client.enableAutoReconnect({ initialDelay: 0.01, maxDelay: 0.05 });
+    const controller = client.controller<Controller>('test');
+
+    let reconnected = 0;
+    client.transporter.reconnected.subscribe(() => reconnected++);
+
+    expect(await controller.hi()).toBe('hi');
+    connections[0].close();
+    expect(client.transporter.isConnected()).toBe(false);
+
+    await sleep(0.1);
+    expect(client.transporter.isConnected()).toBe(true);
+    expect(reconnected).toBe(1);
+
+    //explicit disconnects don't reconnect
+    client.disconnect();
+    await sleep(0.1);
+    expect(client.transporter.isConnected()).toBe(false);
+    expect(reconnected).toBe(1);
+});
+
+test('resubscribe after reconnect', async () => {
+    @entity.name('reconnect/item')
+    class Item {
+        constructor(public id: number, public title: string) {
+        }
+    }
+
+    const connections: RpcKernelConnection[] = [];
+    const subjects: Subject<number>[] = [];
+    const calls: string[] = [];
+    let items: Item[] = [new Item(1, 'a'), new Item(2, 'b')];
+
+    class Controller {
+        constructor(protected connection: RpcKernelConnection) {
+        }
+
+        @rpc.action()
+        subject(start: number): BehaviorSubject<number> {
+            calls.push('subject:' + start);
+            connections.push(this.connection);
+            const subject = new BehaviorSubject<number>(start);
+            subjects.push(subject);
+            return subject;
+        }
+
+        @rpc.action()
+        observable(value: string): Observable<string> {
+            calls.push('observable:' + value);
+            return new Observable<string>(observer => {
+                observer.next(value);
+            });
+        }
+
+        @rpc.action()
+        items(): Collection<Item> {
+            calls.push('items');
+            const collection = new Collection(Item);
+            collection.set(items);
+            return collection;
+        }
+    }
+
+    const kernel = new RpcKernel();
+    kernel.registerController('test', Controller);
+
+    const client = new DirectClient(kernel);
+    client.enableAutoReconnect({ initialDelay: 0.01 });
+    const controller = client.controller<Controller>('test');
+
+    const subject = await controller.subject(5);
+    const values: number[] = [];
+    subject.subscribe(v => values.push(v));
+
+    const observable = await controller.observable('x');
+    const observed: string[] = [];
+    observable.subscribe(v => observed.push(v));
+
+    const collection = await controller.items();
+    expect(collection.ids()).toEqual([1, 2]);
+    const item1Subject = collection.entitySubjects.get(1);
+
+    subjects[0].next(6);
+    await sleep(0.01);
+    expect(values).toEqual([5, 6]);
+    expect(observed).toEqual(['x']);
+
+    items = [new Item(1, 'a2'), new Item(3, 'c')];
+    connections[0].close();
+    await sleep(0.1);
+
+    expect(client.transporter.isConnected()).toBe(true);
+    expect(calls).toEqual(['subject:5', 'observable:x', 'items', 'subject:5', 'observable:x', 'items']);
+
+    //the new server subject forwards into the existing client subject
+    expect(values).toEqual([5, 6, 5]);
+    subjects[1].next(7);
+    await sleep(0.01);
+    expect(values).toEqual([5, 6, 5, 7]);
+    expect(subject.value).toBe(7);
+
+    //active observable subscribers are subscribed again
+    expect(observed).toEqual(['x', 'x']);
+
+    //the collection is diffed, updating known items
+    expect(collection.ids()).toEqual([1, 3]);
+    expect(collection.entitySubjects.get(1)).toBe(item1Subject);
+    expect(collection.get(1)!.title).toBe('a2');
+
+    //unsubscribed results are not replayed anymore
+    subject.unsubscribe();
+    (observable as any).disconnect();
+    collection.unsubscribe();
+    await sleep(0.01);
+    connections[1].close();
+    await sleep(0.1);
+    expect(client.transporter.isConnected()).toBe(true);
+    expect(calls.length).toBe(6);
+
+    client.disconnect();
+});
@@ -0,0 +1,177 @@
+import { expect, test } from '@jest/globals';
+import { sleep } from '@deepkit/core';
+import { MinLength, ValidationError } from '@deepkit/type';
+import { Observable, of, range, Subject } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import { DirectClient } from '../src/client/client-direct';
+import { rpc } from '../src/decorators';
+import { RpcKernel } from '../src/server/kernel';
+import { RpcStreamReceiver } from '../src/server/stream';
+
+test('streamed arguments', async () => {
+    let consumed = 0;
+
+    @rpc.controller('test')
+    class Controller {
+        @rpc.action()
+        async sum(numbers: AsyncIterable<number>): Promise<number> {
+            let sum = 0;
+            for await (const v of numbers) {
+                consumed++;
+                await sleep(0.001);
+                sum += v;
+            }
+            return sum;
+        }
+
+        @rpc.action()
+        async join(prefix: string, values: Observable<string>): Promise<string> {
+            const all = await values.pipe(toArray()).toPromise();
+            return prefix + all.join(',');
+        }
+
+        @rpc.action()
+        async count(values: Observable<number>): Promise<number> {
+            const all = await values.pipe(toArray()).toPromise();
+            return all.length;
+        }
+
+        @rpc.action()
+        async upload(chunks: AsyncIterable<Uint8Array>): Promise<number> {
+            let size = 0;
+            for await (const chunk of chunks) size += chunk.byteLength;
+            return size;
+        }
+
+        @rpc.action()
+        async names(names: AsyncIterable<string & MinLength<2>>): Promise<string[]> {
+            const result: string[] = [];
+            for await (const name of names) result.push(name);
+            return result;
+        }
+    }
+
+    const kernel = new RpcKernel();
+    kernel.registerController('test', Controller);
+    const client = new DirectClient(kernel);
+    const controller = client.controller<Controller>('test');
+
+    //the client is only as fast as the server consumes
+    let produced = 0;
+    let maxAhead = 0;
+
+    async function* numbers() {
+        for (let i = 1; i <= 100; i++) {
+            produced++;
+            maxAhead = Math.max(maxAhead, produced - consumed);
+            yield i;
+        }
+    }
+
+    expect(await controller.sum(numbers())).toBe(5050);
+    expect(maxAhead).toBeLessThanOrEqual(17);
+    expect(await controller.sum([1, 2, 3] as any)).toBe(6);
+
+    expect(await controller.join('>', of('a', 'b', 'c'))).toBe('>a,b,c');
+
+    const subject = new Subject<string>();
+    const joined = controller.join('', subject);
+    subject.next('x');
+    await sleep(0.01);
+    subject.next('y');
+    subject.complete();
+    expect(await joined).toBe('x,y');
+
+    //Observables can't be slowed down, so only a limited number of items is buffered
+    expect(await controller.count(range(0, 1000))).toBe(1000);
+    await expect(controller.count(range(0, 1001))).rejects.toThrow('has more than 1000 items');
+
+    async function* chunks() {
+        for (let i = 0; i < 10; i++) yield new Uint8Array(1024).fill(i);
+    }
+
+    expect(await controller.upload(chunks())).toBe(10240);
+
+    async function* invalid() {
+        yield 'peter';
+        yield 'a';
+    }
+
+    await expect(controller.names(invalid())).rejects.toThrow(ValidationError);
+
+    //errors of the client stream are forwarded to the action
+    async function* failing() {
+        yield 'peter';
+        throw new Error('read failed');
+    }
+
+    await expect(controller.names(failing())).rejects.toThrow('read failed');
+});
+
+test('streamed async iterator arguments', async () => {
+    @rpc.controller('test')
+    class Controller {
+        @rpc.action()
+        async generator(values: AsyncGenerator<number>): Promise<number> {
+            let sum = 0;
+            for await (const v of values) sum += v;
+            return sum;
+        }
+
+        @rpc.action()
+        async iterator(values: AsyncIterableIterator<string & MinLength<2>>): Promise<string> {
+            const all: string[] = [];
+            for await (const v of values) all.push(v);
+            return all.join(',');
+        }
+    }
+
+    const kernel = new RpcKernel();
+    kernel.registerController('test', Controller);
+    const client = new DirectClient(kernel);
+    const controller = client.controller<Controller>('test');
+
+    async function* numbers() {
+        yield 1;
+        yield 2;
+    }
+
+    async function* names() {
+        yield 'peter';
+        yield 'marc';
+    }
+
+    async function* invalid() {
+        yield 'a';
+    }
+
+    expect(await controller.generator(numbers())).toBe(3);
+    expect(await controller.iterator(names())).toBe('peter,marc');
+    await expect(controller.iterator(invalid())).rejects.toThrow(ValidationError);
+});
+
+test('stream receiver observable unsubscribe', async () => {
+    const acks: number[] = [];
+    const receiver = new RpcStreamReceiver<number>(n => acks.push(n), 4);
+    receiver.open();
+
+    const received: number[] = [];
+    const subscription = receiver.observable().subscribe(v => received.push(v));
+    receiver.push(1);
+    receiver.push(2);
+    await sleep(0.01);
+    expect(received).toEqual([1, 2]);
+    expect(acks).toEqual([4, 2]);
+
+    //the iteration ends right away instead of waiting for the next item
+    subscription.unsubscribe();
+    await sleep(0.01);
+    expect((receiver as any).waiting).toBe(undefined);
+
+    receiver.push(3);
+    receiver.push(4);
+    await sleep(0.01);
+    expect(received).toEqual([1, 2]);
+    expect(acks).toEqual([4, 2]);
+    expect((receiver as any).queue).toEqual([]);
+});
@@ -8,15 +8,35 @@
  * You should have received a copy of the MIT License along with this program.
  */
 
-import { capitalize, ClassType, CompilerContext, CustomError, ExtractClassType, getClassName, isArray, toFastProperties } from '@deepkit/core';
+import { capitalize, ClassType, CompilerContext, CustomError, ExtractClassType, getClassName, isArray, isClass, toFastProperties } from '@deepkit/core';
 import { BaseEvent, EventDispatcher, EventToken, isEventListenerContainerEntryCallback, isEventListenerContainerEntryService } from '@deepkit/event';
 import { InjectorContext } from '@deepkit/injector';
 import { FrameCategory, Stopwatch } from '@deepkit/stopwatch';
 
+/**
+ * A guard decides whether a transition is allowed. It receives the event when called from Workflow.apply()
+ * and no event when called from Workflow.can() or Workflow.getAvailableTransitions().
+ */
+export type WorkflowGuardFunction = (from: string, to: string, event?: WorkflowEvent) => boolean;
+
+/**
+ * Guard as service, which is resolved from the dependency injection container, so it needs to be provided in a module.
+ */
+export interface WorkflowGuard {
+    check(from: string, to: string, event?: WorkflowEvent): boolean;
+}
+
+export type WorkflowTransitionGuard = WorkflowGuardFunction | ClassType<WorkflowGuard>;
+
+function getGuardName(guard: WorkflowTransitionGuard): string {
+    return isClass(guard) ? getClassName(guard) : guard.name || 'anonymous';
+}
+
 interface WorkflowTransition<T> {
     from: keyof T & string,
     to: keyof T & string,
     label?: string;
+    guards: WorkflowTransitionGuard[];
 }
 
 export class WorkflowEvent {
@@ -101,16 +121,122 @@ export class WorkflowDefinition<T extends WorkflowPlaces> {
         return this.tokens[name]!;
     }
 
-    addTransition(from: keyof T & string, to: keyof T & string, label?: string) {
-        this.transitions.push({ from, to, label });
+    addTransition(from: keyof T & string, to: keyof T & string, label?: string, guard?: WorkflowTransitionGuard) {
+        this.transitions.push({ from, to, label, guards: guard ? [guard] : [] });
         if (!this.next[from]) this.next[from] = [];
         this.next[from]!.push(to);
     }
 
+    /**
+     * Adds a guard to an existing transition. All guards of a transition need to return true to allow it.
+     *
+     * Guards need to be added before a workflow is applied the first time with a given EventDispatcher,
+     * since the compiled applier is cached.
+     */
+    addGuard(from: keyof T & string, to: keyof T & string, guard: WorkflowTransitionGuard): this {
+        const transition = this.getTransition(from, to);
+        if (!transition) throw new WorkflowError(`No transition ${from}->${to} found in workflow ${this.name}`);
+        transition.guards.push(guard);
+        return this;
+    }
+
+    getTransition(from: keyof T & string, to: keyof T & string): WorkflowTransition<T> | undefined {
+        return this.transitions.find(v => v.from === from && v.to === to);
+    }
+
+    /**
+     * Returns the first guard of the transition that does not allow it, or undefined when all guards pass.
+     */
+    getBlockingGuard(from: keyof T & string, to: keyof T & string, injectorContext?: InjectorContext, event?: WorkflowEvent): WorkflowTransitionGuard | undefined {
+        const transition = this.getTransition(from, to);
+        if (!transition) return;
+
+        for (const guard of transition.guards) {
+            if (isClass(guard)) {
+                if (!injectorContext) throw new WorkflowError(`Guard ${getClassName(guard)} requires an injector context`);
+                if (!injectorContext.get(guard).check(from, to, event)) return guard;
+            } else if (!guard(from, to, event)) {
+                return guard;
+            }
+        }
+        return;
+    }
+
     public create(state: keyof T & string, eventDispatcher: EventDispatcher, injectorContext?: InjectorContext, stopwatch?: Stopwatch): Workflow<T> {
         return new Workflow(this, new WorkflowStateSubject(state), eventDispatcher, injectorContext || eventDispatcher.scopedContext, stopwatch);
     }
 
+    /**
+     * Creates a new persisted workflow instance with the given id and stores its initial state.
+     *
+     * @throws WorkflowError when an instance with this id already exists.
+     */
+    public async start(
+        persistence: WorkflowPersistence, id: string, state: keyof T & string,
+        eventDispatcher: EventDispatcher, injectorContext?: InjectorContext, stopwatch?: Stopwatch
+    ): Promise<Workflow<T>> {
+        const instance: WorkflowInstanceRecord = { id, workflow: this.name, state, history: [] };
+        if (!await persistence.create(instance)) throw new WorkflowError(`Workflow ${this.name} instance ${id} already exists`);
+        return new Workflow(this, new WorkflowPersistentState(instance, persistence), eventDispatcher, injectorContext || eventDispatcher.scopedContext, stopwatch);
+    }
+
+    /**
+     * Loads a persisted workflow instance by its id, e.g. after a process restart.
+     *
+     * @throws WorkflowError when no instance with this id exists.
+     */
+    public async resume(
+        persistence: WorkflowPersistence, id: string,
+        eventDispatcher: EventDispatcher, injectorContext?: InjectorContext, stopwatch?: Stopwatch
+    ): Promise<Workflow<T>> {
+        const instance = await persistence.load(this.name, id);
+        if (!instance) throw new WorkflowError(`Workflow ${this.name} instance ${id} not found`);
+        if (!this.places.hasOwnProperty(instance.state)) throw new WorkflowError(`Workflow ${this.name} instance ${id} has unknown state ${instance.state}`);
+        return new Workflow(this, new WorkflowPersistentState(instance, persistence), eventDispatcher, injectorContext || eventDispatcher.scopedContext, stopwatch);
+    }
+
+    protected getDiagramLabel(transition: WorkflowTransition<T>): string {
+        const guards = transition.guards.map(v => `[${getGuardName(v)}]`);
+        return [transition.label, ...guards].filter(v => !!v).join(' ');
+    }
+
+    /**
+     * Returns the workflow as Mermaid state diagram.
+     */
+    toMermaid(options: WorkflowDiagramOptions = {}): string {
+        const lines: string[] = ['stateDiagram-v2'];
+        for (const place of Object.keys(this.places)) {
+            if (this.transitions.some(v => v.from === place || v.to === place)) continue;
+            lines.push(`    ${place}`);
+        }
+        for (const transition of this.transitions) {
+            const label = this.getDiagramLabel(transition);
+            lines.push(`    ${transition.from} --> ${transition.to}${label ? ': ' + label : ''}`);
+        }
+        if (options.highlight && options.highlight.length) {
+            lines.push(`    classDef highlighted fill:#f96`);
+            lines.push(`    class ${options.highlight.join(',')} highlighted`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Returns the workflow as Graphviz DOT graph.
+     */
+    toDot(options: WorkflowDiagramOptions = {}): string {
+        const lines: string[] = [`digraph ${JSON.stringify(this.name)} {`, '    rankdir=LR;'];
+        for (const place of Object.keys(this.places)) {
+            const highlighted = options.highlight && options.highlight.includes(place);
+            lines.push(`    ${JSON.stringify(place)}${highlighted ? ' [style=filled, fillcolor="#ff9966"]' : ''};`);
+        }
+        for (const transition of this.transitions) {
+            const label = this.getDiagramLabel(transition);
+            lines.push(`    ${JSON.stringify(transition.from)} -> ${JSON.stringify(transition.to)}${label ? ` [label=${JSON.stringify(label)}]` : ''};`);
+        }
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
     getTransitionsFrom(state: keyof T & string): (keyof T & string)[] {
         return this.next[state]! || [];
     }
@@ -118,6 +244,8 @@ export class WorkflowDefinition<T extends WorkflowPlaces> {
     public buildApplier(eventDispatcher: EventDispatcher) {
         const compiler = new CompilerContext();
         compiler.context.set('WorkflowError', WorkflowError);
+        compiler.context.set('WorkflowGuardError', WorkflowGuardError);
+        compiler.context.set('definition', this);
         compiler.context.set('WorkflowEvent', WorkflowEvent);
         compiler.context.set('getClassName', getClassName);
 
@@ -129,6 +257,10 @@ export class WorkflowDefinition<T extends WorkflowPlaces> {
             const allowedFrom = this.transitions.filter(v => v.to === place);
             const allowedFromCondition = allowedFrom.map(v => `currentState === ${JSON.stringify(v.from)}`).join(' || ');
             const checkFrom = `if (!(${allowedFromCondition})) throw new WorkflowError(\`Can not apply state change from \${currentState}->\${nextState}. There's no transition between them or it was blocked.\`);`;
+            const checkGuards = allowedFrom.some(v => v.guards.length) ? `
+                const blockingGuard = definition.getBlockingGuard(currentState, nextState, scopedContext, event);
+                if (blockingGuard) throw new WorkflowGuardError(currentState, nextState, blockingGuard);
+            ` : '';
 
             const eventToken = this.tokens[place]!;
             const listeners = eventDispatcher.getListeners(eventToken);
@@ -170,12 +302,13 @@ export class WorkflowDefinition<T extends WorkflowPlaces> {
                 if (!(event instanceof ${eventTypeVar})) {
                     throw new Error(\`State ${place} got the wrong event. Expected ${getClassName(eventType)}, got \${getClassName(event)}\`);
                 }
+                ${checkGuards}
                 const frame = stopwatch && stopwatch.active ? stopwatch.start(${JSON.stringify(stopWatchId)}, ${FrameCategory.workflow}) : undefined;
 
                 ${listenerCode.join('\n')}
 
                 if (frame) frame.end();
-                state.set(${stateString});
+                state.set(${stateString}, event);
                 break;
             }
         `);
@@ -199,6 +332,13 @@ export class WorkflowDefinition<T extends WorkflowPlaces> {
     }
 }
 
+export interface WorkflowDiagramOptions {
+    /**
+     * Places that are visually highlighted.
+     */
+    highlight?: string[];
+}
+
 type WorkflowTransitions<T extends WorkflowPlaces> = { [name in keyof T]?: (keyof T & string) | (keyof T & string)[] };
 
 export function createWorkflow<T extends WorkflowPlaces>(
@@ -212,7 +352,12 @@ export function createWorkflow<T extends WorkflowPlaces>(
 export interface WorkflowState<T> {
     get(): keyof T & string;
 
-    set(v: keyof T & string): void;
+    set(v: keyof T & string, event?: WorkflowEvent): void;
+
+    /**
+     * Called after each Workflow.apply(), even when it failed, to persist all state changes made so far.
+     */
+    flush?(): Promise<void>;
 }
 
 export class WorkflowStateSubject<T extends WorkflowPlaces> implements WorkflowState<T> {
@@ -228,9 +373,140 @@ export class WorkflowStateSubject<T extends WorkflowPlaces> implements WorkflowS
     }
 }
 
+export interface WorkflowTransitionRecord {
+    from: string;
+    to: string;
+    date: Date;
+
+    /**
+     * Own properties of the event the transition was applied with.
+     */
+    event?: { [name: string]: any };
+}
+
+export interface WorkflowInstanceRecord {
+    id: string;
+    workflow: string;
+    state: string;
+    history: WorkflowTransitionRecord[];
+}
+
+/**
+ * Loads and saves the state of workflow instances, so they can be resumed via WorkflowDefinition.resume().
+ */
+export interface WorkflowPersistence {
+    /**
+     * Returns the instance including its whole transition history.
+     */
+    load(workflow: string, id: string): Promise<WorkflowInstanceRecord | undefined>;
+
+    /**
+     * Stores a new instance. Returns false when an instance with this id already exists.
+     * The check and the insert have to be atomic, so concurrent starts with the same id can't both succeed.
+     */
+    create(instance: WorkflowInstanceRecord): Promise<boolean>;
+
+    /**
+     * Stores the current state of the instance and appends the given transitions to its history.
+     * Has to throw a WorkflowConflictError when the stored state is not the `from` state of the first transition anymore,
+     * e.g. because another process advanced the same instance. The check and the update have to be atomic.
+     */
+    save(instance: WorkflowInstanceRecord, transitions: WorkflowTransitionRecord[]): Promise<void>;
+}
+
+export class WorkflowMemoryPersistence implements WorkflowPersistence {
+    public instances = new Map<string, WorkflowInstanceRecord>();
+
+    async load(workflow: string, id: string): Promise<WorkflowInstanceRecord | undefined> {
+        const instance = this.instances.get(workflow + '/' + id);
+        if (!instance) return;
+        return { ...instance, history: instance.history.slice() };
+    }
+
+    async create(instance: WorkflowInstanceRecord): Promise<boolean> {
+        const key = instance.workflow + '/' + instance.id;
+        if (this.instances.has(key)) return false;
+        this.instances.set(key, { ...instance, history: instance.history.slice() });
+        return true;
+    }
+
+    async save(instance: WorkflowInstanceRecord, transitions: WorkflowTransitionRecord[]): Promise<void> {
+        if (!transitions.length) return;
+        const key = instance.workflow + '/' + instance.id;
+        const stored = this.instances.get(key);
+        if (!stored || stored.state !== transitions[0].from) throw WorkflowConflictError.forInstance(instance, transitions[0].from);
+        this.instances.set(key, { ...instance, history: [...stored.history, ...transitions] });
+    }
+}
+
+const internalEventProperties = ['stopped', 'nextState', 'nextStateEvent'];
+
+function getEventPayload(event?: WorkflowEvent): { [name: string]: any } | undefined {
+    if (!event) return;
+    let payload: { [name: string]: any } | undefined;
+    for (const [name, value] of Object.entries(event)) {
+        if (internalEventProperties.includes(name)) continue;
+        if (!payload) payload = {};
+        payload[name] = value;
+    }
+    return payload;
+}
+
+/**
+ * Workflow state that records each transition and saves them via a WorkflowPersistence after Workflow.apply().
+ */
+export class WorkflowPersistentState<T extends WorkflowPlaces> implements WorkflowState<T> {
+    protected unsaved: WorkflowTransitionRecord[] = [];
+
+    constructor(public readonly instance: WorkflowInstanceRecord, protected persistence: WorkflowPersistence) {
+    }
+
+    get() {
+        return this.instance.state as keyof T & string;
+    }
+
+    set(v: keyof T & string, event?: WorkflowEvent) {
+        const transition: WorkflowTransitionRecord = { from: this.instance.state, to: v, date: new Date(), event: getEventPayload(event) };
+        this.instance.history.push(transition);
+        this.unsaved.push(transition);
+        this.instance.state = v;
+    }
+
+    async flush(): Promise<void> {
+        if (!this.unsaved.length) return;
+        const transitions = this.unsaved;
+        this.unsaved = [];
+        try {
+            await this.persistence.save(this.instance, transitions);
+        } catch (error) {
+            //keep them for the next flush
+            this.unsaved = [...transitions, ...this.unsaved];
+            throw error;
+        }
+    }
+}
+
 export class WorkflowError extends CustomError {
 }
 
+/**
+ * Thrown by WorkflowPersistence.save() when the stored instance was changed in the meantime.
+ */
+export class WorkflowConflictError extends WorkflowError {
+    static forInstance(instance: WorkflowInstanceRecord, expectedState: string): WorkflowConflictError {
+        return new WorkflowConflictError(`Workflow ${instance.workflow} instance ${instance.id} is not in state ${expectedState} anymore`);
+    }
+}
+
+/**
+ * Thrown by Workflow.apply() when a guard blocked the transition.
+ */
+export class WorkflowGuardError extends WorkflowError {
+    constructor(public readonly from: string, public readonly to: string, public readonly guard: WorkflowTransitionGuard) {
+        super(`Can not apply state change from ${from}->${to}. Blocked by guard ${getGuardName(guard)}.`);
+    }
+}
+
 export class Workflow<T extends WorkflowPlaces> {
     protected events: { [name in keyof T]?: Function } = {};
 
@@ -243,8 +519,20 @@ export class Workflow<T extends WorkflowPlaces> {
     ) {
     }
 
+    /**
+     * Returns true when there is a transition from the current state to the given one and all its guards pass.
+     */
     can(nextState: keyof T & string): boolean {
-        return this.definition.getTransitionsFrom(this.state.get()).includes(nextState);
+        const currentState = this.state.get();
+        if (!this.definition.getTransitionsFrom(currentState).includes(nextState)) return false;
+        return this.definition.getBlockingGuard(currentState, nextState, this.injectorContext) === undefined;
+    }
+
+    /**
+     * Returns all states that can be applied from the current state, i.e. whose transition guards pass.
+     */
+    getAvailableTransitions(): (keyof T & string)[] {
+        return this.definition.getTransitionsFrom(this.state.get()).filter(v => this.can(v));
     }
 
     /**
@@ -259,7 +547,18 @@ export class Workflow<T extends WorkflowPlaces> {
             fn = (this.eventDispatcher as any)[this.definition.symbol] = this.definition.buildApplier(this.eventDispatcher);
         }
 
-        return fn(this.injectorContext, this.state, nextState, event || new WorkflowEvent() as ExtractClassType<T[K]>, this.stopwatch);
+        const promise: Promise<void> = fn(this.injectorContext, this.state, nextState, event || new WorkflowEvent() as ExtractClassType<T[K]>, this.stopwatch);
+        if (!this.state.flush) return promise;
+
+        return promise.then(() => this.state.flush!(), async (error) => {
+            try {
+                await this.state.flush!();
+            } catch (flushError) {
+                //the listener's error is the cause, so it's the one reported
+                console.warn(`Could not persist workflow ${this.definition.name} state after failed transition: ${flushError}`);
+            }
+            throw error;
+        });
     }
 
     isDone(): boolean {
@@ -1,5 +1,5 @@
 import { expect, test } from '@jest/globals';
-import { createWorkflow, WorkflowEvent } from '../src/workflow';
+import { createWorkflow, WorkflowEvent, WorkflowGuardError, WorkflowMemoryPersistence } from '../src/workflow';
 import { eventDispatcher, EventDispatcher, EventToken } from '@deepkit/event';
 import { InjectorContext, InjectorModule } from '@deepkit/injector';
 
@@ -150,3 +150,193 @@ test('workflow events apply injector', async () => {
 
     expect(context.get(MyService).data).toBe('changedData');
 });
+
+test('workflow persistence', async () => {
+    const persistence = new WorkflowMemoryPersistence();
+    const dispatcher = new EventDispatcher(InjectorContext.forProviders([]));
+
+    const w = await workflow1.start(persistence, 'order1', 'start', dispatcher);
+    await expect(workflow1.start(persistence, 'order1', 'start', dispatcher)).rejects.toThrow('Workflow myFlow instance order1 already exists');
+
+    dispatcher.registerCallback(workflow1.onDoIt, async (event) => {
+        event.next('success');
+    });
+    await w.apply('doIt');
+    expect(w.state.get()).toBe('success');
+
+    //simulates a process restart
+    const resumed = await workflow1.resume(persistence, 'order1', new EventDispatcher(InjectorContext.forProviders([])));
+    expect(resumed.state.get()).toBe('success');
+    await expect(resumed.apply('failed')).rejects.toThrow('Can not apply state change from success->failed');
+
+    const event = new EndEvent();
+    event.test = 'shipped';
+    await resumed.apply('end', event);
+
+    const instance = await persistence.load('myFlow', 'order1');
+    expect(instance!.state).toBe('end');
+    expect(instance!.history.map(v => v.from + '->' + v.to)).toEqual(['start->doIt', 'doIt->success', 'success->end']);
+    expect(instance!.history[0].date).toBeInstanceOf(Date);
+    expect(instance!.history[0].event).toBe(undefined);
+    expect(instance!.history[2].event).toEqual({ test: 'shipped' });
+
+    await expect(workflow1.resume(persistence, 'order2', dispatcher)).rejects.toThrow('Workflow myFlow instance order2 not found');
+
+    //a stale instance can't overwrite the newer state
+    await expect(w.apply('end', new EndEvent())).rejects.toThrow('Workflow myFlow instance order1 is not in state success anymore');
+    expect((await persistence.load('myFlow', 'order1'))!.history.length).toBe(3);
+});
+
+test('workflow persistence failed listener', async () => {
+    const persistence = new WorkflowMemoryPersistence();
+    const dispatcher = new EventDispatcher(InjectorContext.forProviders([]));
+    const w = await workflow1.start(persistence, 'order1', 'start', dispatcher);
+
+    dispatcher.registerCallback(workflow1.onSuccess, async () => {
+        throw new Error('payment failed');
+    });
+    dispatcher.registerCallback(workflow1.onDoIt, async (event) => {
+        event.next('success');
+    });
+
+    await expect(w.apply('doIt')).rejects.toThrow('payment failed');
+
+    //the transition into doIt happened and is persisted
+    const instance = await persistence.load('myFlow', 'order1');
+    expect(instance!.state).toBe('doIt');
+    expect(instance!.history.length).toBe(1);
+});
+
+test('workflow persistence failed listener and failed save', async () => {
+    const persistence = new WorkflowMemoryPersistence();
+    const dispatcher = new EventDispatcher(InjectorContext.forProviders([]));
+    const w = await workflow1.start(persistence, 'order1', 'start', dispatcher);
+
+    dispatcher.registerCallback(workflow1.onSuccess, async () => {
+        throw new Error('payment failed');
+    });
+    dispatcher.registerCallback(workflow1.onDoIt, async (event) => {
+        event.next('success');
+    });
+
+    const save = persistence.save;
+    persistence.save = async () => {
+        throw new Error('database down');
+    };
+
+    //the listener's error is reported, not the one of the failed save
+    await expect(w.apply('doIt')).rejects.toThrow('payment failed');
+    expect((await persistence.load('myFlow', 'order1'))!.state).toBe('start');
+
+    //unsaved transitions are saved with the next successful flush
+    persistence.save = save;
+    await w.state.flush!();
+    const instance = await persistence.load('myFlow', 'order1');
+    expect(instance!.state).toBe('doIt');
+    expect(instance!.history.length).toBe(1);
+});
+
+test('workflow guards', async () => {
+    const guarded = createWorkflow('guarded', {
+        start: WorkflowEvent,
+        doIt: WorkflowEvent,
+        failed: WorkflowEvent,
+        success: WorkflowEvent,
+    }, {
+        start: 'doIt',
+        doIt: ['failed', 'success'],
+    });
+
+    let paid = false;
+    const isPaid = () => paid;
+    guarded.addGuard('doIt', 'success', isPaid);
+    expect(() => guarded.addGuard('start', 'success', isPaid)).toThrow('No transition start->success found in workflow guarded');
+
+    const w = guarded.create('doIt', new EventDispatcher(InjectorContext.forProviders([])));
+    expect(w.can('success')).toBe(false);
+    expect(w.can('failed')).toBe(true);
+    expect(w.getAvailableTransitions()).toEqual(['failed']);
+
+    await expect(w.apply('success')).rejects.toThrow('Can not apply state change from doIt->success. Blocked by guard isPaid.');
+    try {
+        await w.apply('success');
+    } catch (error: any) {
+        expect(error).toBeInstanceOf(WorkflowGuardError);
+        expect(error.guard).toBe(isPaid);
+    }
+    expect(w.state.get()).toBe('doIt');
+
+    paid = true;
+    expect(w.getAvailableTransitions()).toEqual(['failed', 'success']);
+    await w.apply('success');
+    expect(w.state.get()).toBe('success');
+});
+
+test('workflow guard service', async () => {
+    class Inventory {
+        stock = 0;
+    }
+
+    class InStockGuard {
+        constructor(private inventory: Inventory) {
+        }
+
+        check() {
+            return this.inventory.stock > 0;
+        }
+    }
+
+    const guarded = createWorkflow('guardedService', {
+        start: WorkflowEvent,
+        doIt: WorkflowEvent,
+    }, {
+        start: 'doIt',
+    });
+    guarded.addGuard('start', 'doIt', InStockGuard);
+
+    const context = InjectorContext.forProviders([Inventory, InStockGuard]);
+    const w = guarded.create('start', new EventDispatcher(context));
+    expect(w.can('doIt')).toBe(false);
+    await expect(w.apply('doIt')).rejects.toThrow('Blocked by guard InStockGuard');
+
+    context.get(Inventory).stock = 1;
+    expect(w.can('doIt')).toBe(true);
+    await w.apply('doIt');
+    expect(w.state.get()).toBe('doIt');
+});
+
+test('workflow diagrams', () => {
+    const diagram = createWorkflow('diagram', {
+        start: WorkflowEvent,
+        review: WorkflowEvent,
+        done: WorkflowEvent,
+        archived: WorkflowEvent,
+    });
+    diagram.addTransition('start', 'review', 'submit');
+    diagram.addTransition('review', 'done');
+    diagram.addGuard('review', 'done', function approved() {
+        return true;
+    });
+
+    expect(diagram.toMermaid()).toBe(`stateDiagram-v2
+    archived
+    start --> review: submit
+    review --> done: [approved]
+`);
+
+    expect(diagram.toMermaid({ highlight: ['done', 'archived'] })).toContain(`
+    classDef highlighted fill:#f96
+    class done,archived highlighted
+`);
+
+    expect(diagram.toDot({ highlight: ['archived'] })).toBe(`digraph "diagram" {
+    rankdir=LR;
+    "start";
+    "review";
+    "done";
+    "archived" [style=filled, fillcolor="#ff9966"];
+    "start" -> "review" [label="submit"];
+    "review" -> "done" [label="[approved]"];
+}
+`);
+});